@@ -1,7 +1,8 @@
 import React, { useCallback, useEffect } from 'react';
 import { useStore } from './store/useStore';
-import { getPersonas, savePersonas, getKnowledgeSources, saveKnowledgeSources } from './services/db';
 import { startChatSession, sendMessageStreamToChat, runQualityCheck, askPersonaQuestion } from './services/geminiService';
+import { isAbortError } from './services/llmProvider';
+import { packContext, ContextPackReport } from './services/contextPacker';
 import SetupPanel from './components/SetupPanel';
 import DocumentEditor from './components/DocumentEditor';
 import FeedbackPanel from './components/FeedbackPanel';
@@ -10,6 +11,7 @@ import MainLayout from './components/MainLayout';
 import SparkleIcon from './components/icons/SparkleIcon';
 import PersonaManager from './components/PersonaManager';
 import DataManager from './components/DataManager';
+import ProviderSettings from './components/ProviderSettings';
 import SearchModal from './components/SearchModal';
 import AnalyticsDashboard from './components/AnalyticsDashboard';
 import DevelopmentGuidancePanel from './components/DevelopmentGuidancePanel';
@@ -28,6 +30,9 @@ import { DocumentEditingService } from './services/documentEditingService';
 import { StructuredDocumentService } from './services/structuredDocumentService';
 // import type { ChatSession } from '@google/generative-ai';
 
+// Drafts from the knowledge base and from a prompt share the document loading state
+type RequestKind = 'generate' | 'refine' | 'quality' | 'ask';
+
 const App: React.FC = () => {
   const {
     personas,
@@ -38,6 +43,7 @@ const App: React.FC = () => {
     setActivePersonaId,
     setKnowledgeSources,
     setGeneratedContent,
+    loadPersistedData,
   } = useStore();
 
   const [temperature, setTemperature] = React.useState<number>(0.5);
@@ -48,6 +54,7 @@ const App: React.FC = () => {
   const [isAskingQuestion, setIsAskingQuestion] = React.useState<boolean>(false);
   const [isPersonaManagerOpen, setIsPersonaManagerOpen] = React.useState<boolean>(false);
   const [isDataManagerOpen, setIsDataManagerOpen] = React.useState<boolean>(false);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = React.useState<boolean>(false);
   const [isSearchOpen, setIsSearchOpen] = React.useState<boolean>(false);
   const [isAnalyticsOpen, setIsAnalyticsOpen] = React.useState<boolean>(false);
   const [isGuidanceOpen, setIsGuidanceOpen] = React.useState<boolean>(false);
@@ -55,6 +62,9 @@ const App: React.FC = () => {
   const [qualityReport, setQualityReport] = React.useState<string | null>(null);
   const [error, setError] = React.useState<string | null>(null);
   const [chatSession, setChatSession] = React.useState<any | null>(null);
+  const [contextReport, setContextReport] = React.useState<ContextPackReport | null>(null);
+  // One controller per kind of request, so starting one never cancels another that is still running
+  const abortControllersRef = React.useRef<Partial<Record<RequestKind, AbortController>>>({});
 
   const analyticsService = AnalyticsService.getInstance();
   const evolutionService = DocumentEvolutionService.getInstance();
@@ -67,26 +77,42 @@ const App: React.FC = () => {
   const structuredDocumentService = StructuredDocumentService.getInstance();
 
   useEffect(() => {
-    const loadData = async () => {
-      const personas = await getPersonas();
-      setPersonas(personas);
-      const knowledgeSources = await getKnowledgeSources();
-      setKnowledgeSources(knowledgeSources);
-    };
-    loadData();
-  }, [setPersonas, setKnowledgeSources]);
+    loadPersistedData().catch((err) => console.error('Failed to load saved data:', err));
+  }, [loadPersistedData]);
 
-  useEffect(() => {
-    savePersonas(personas);
-  }, [personas]);
+  const activePersona = personas.find((p) => p.id === activePersonaId) || null;
 
-  useEffect(() => {
-    saveKnowledgeSources(knowledgeSources);
-  }, [knowledgeSources]);
+  // Restarting a kind of request supersedes the earlier one of that kind only
+  const beginRequest = (kind: RequestKind) => {
+    abortControllersRef.current[kind]?.abort();
+    const controller = new AbortController();
+    abortControllersRef.current[kind] = controller;
+    return controller;
+  };
 
-  const activePersona = personas.find((p) => p.id === activePersonaId) || null;
+  const endRequest = (kind: RequestKind, controller: AbortController) => {
+    if (abortControllersRef.current[kind] === controller) delete abortControllersRef.current[kind];
+  };
+
+  const handleStop = useCallback(() => {
+    Object.values<AbortController | undefined>(abortControllersRef.current).forEach((controller) => controller?.abort());
+    abortControllersRef.current = {};
+  }, []);
+
+  // Fit the knowledge base into the model's context window, favouring the
+  // passages most relevant to the task, and record what made it in
+  const packKnowledge = (task: string) => {
+    const summaries: Record<string, string> = {};
+    knowledgeSources.forEach((source) => {
+      const processed = knowledgeProcessingService.getProcessedKnowledge(source.id);
+      if (processed?.summary) summaries[source.id] = processed.summary;
+    });
+    const packed = packContext(knowledgeSources, task, { summaries });
+    setContextReport(packed.report);
+    return packed.sources;
+  };
 
-  const handleStream = async (stream: AsyncGenerator<string, void, unknown>) => {
+  const handleStream = async (stream: AsyncGenerator<string, unknown, unknown>) => {
     let fullText = '';
     for await (const chunk of stream) {
       fullText += chunk;
@@ -108,12 +134,19 @@ const App: React.FC = () => {
     setGeneratedContent('');
     setChatSession(null);
 
+    const controller = beginRequest('generate');
+    let fullContent = '';
+    let stopped = false;
+
     try {
+      const draftPrompt = 'Synthesize a comprehensive draft based on the provided knowledge sources.';
       const initialGeneration = startChatSession(
         activePersona,
-        'Synthesize a comprehensive draft based on the provided knowledge sources.',
-        knowledgeSources,
-        temperature
+        draftPrompt,
+        packKnowledge(`${draftPrompt}\n${activePersona.role}\n${activePersona.bio || ''}`),
+        temperature,
+        undefined,
+        controller.signal
       );
 
       analyticsService.trackEvent({
@@ -122,14 +155,20 @@ const App: React.FC = () => {
         metadata: { persona: activePersona.name, sourceCount: knowledgeSources.length },
       });
 
-      let fullContent = '';
-      for await (const chunk of initialGeneration) {
-        fullContent += chunk;
-        setGeneratedContent(fullContent);
+      try {
+        for await (const chunk of initialGeneration) {
+          fullContent += chunk;
+          setGeneratedContent(fullContent);
+        }
+      } catch (e: unknown) {
+        if (!isAbortError(e, controller.signal)) throw e;
+        stopped = true;
       }
 
+      // A stopped generation still keeps whatever streamed in as a snapshot
       if (fullContent.trim()) {
         const snapshot = await evolutionService.createSnapshot(activePersona, fullContent, '', 1);
+        if (stopped) snapshot.changes = ['Generation stopped early; partial draft kept', ...snapshot.changes];
         const updatedPersona = {
           ...activePersona,
           documentSnapshots: [snapshot],
@@ -141,6 +180,7 @@ const App: React.FC = () => {
       setError(errorMessage);
       setChatSession(null);
     } finally {
+      endRequest('generate', controller);
       setIsLoading(false);
     }
   }, [activePersona, knowledgeSources, temperature, analyticsService, evolutionService, personas, setPersonas, setGeneratedContent]);
@@ -157,9 +197,19 @@ const App: React.FC = () => {
     setIsRefining(true);
     setError(null);
 
+    const controller = beginRequest('refine');
+    let stopped = false;
+
     try {
       const previousContent = generatedContent;
-      const refinementStream = sendMessageStreamToChat(feedback, generatedContent);
+      const refinementStream = sendMessageStreamToChat(
+        feedback,
+        generatedContent,
+        activePersona,
+        packKnowledge(feedback),
+        temperature,
+        controller.signal
+      );
 
       feedbackService.trackRefinementFeedback(feedback, activePersona.id, activePersona.id);
 
@@ -170,9 +220,14 @@ const App: React.FC = () => {
       });
 
       let fullContent = '';
-      for await (const chunk of refinementStream) {
-        fullContent += chunk;
-        setGeneratedContent(fullContent);
+      try {
+        for await (const chunk of refinementStream) {
+          fullContent += chunk;
+          setGeneratedContent(fullContent);
+        }
+      } catch (e: unknown) {
+        if (!isAbortError(e, controller.signal)) throw e;
+        stopped = true;
       }
 
       if (fullContent.trim() && activePersona.documentSnapshots) {
@@ -183,6 +238,7 @@ const App: React.FC = () => {
           previousContent,
           version
         );
+        if (stopped) snapshot.changes = ['Refinement stopped early; partial revision kept', ...snapshot.changes];
         const updatedPersona = {
           ...activePersona,
           documentSnapshots: [...(activePersona.documentSnapshots || []), snapshot],
@@ -190,14 +246,15 @@ const App: React.FC = () => {
         setPersonas(personas.map((p) => (p.id === activePersona.id ? updatedPersona : p)));
       }
 
-      setFeedback('');
+      if (!stopped) setFeedback('');
     } catch (e: unknown) {
       const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred.';
       setError(errorMessage);
     } finally {
+      endRequest('refine', controller);
       setIsRefining(false);
     }
-  }, [activePersona, feedback, generatedContent, analyticsService, evolutionService, feedbackService, personas, setPersonas, setGeneratedContent]);
+  }, [activePersona, feedback, generatedContent, knowledgeSources, temperature, analyticsService, evolutionService, feedbackService, personas, setPersonas, setGeneratedContent]);
 
   const handleQualityCheck = useCallback(async () => {
     if (!generatedContent) {
@@ -210,8 +267,9 @@ const App: React.FC = () => {
     }
     setIsCheckingQuality(true);
     setError(null);
+    const controller = beginRequest('quality');
     try {
-      const report = await runQualityCheck(generatedContent, activePersona);
+      const report = await runQualityCheck(generatedContent, activePersona, controller.signal);
       setQualityReport(report);
 
       const assessment = parseQualityAssessment(report, activePersona);
@@ -239,9 +297,12 @@ const App: React.FC = () => {
         metadata: { contentLength: generatedContent.length, persona: activePersona.name },
       });
     } catch (e: unknown) {
-      const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred.';
-      setError(errorMessage);
+      if (!isAbortError(e, controller.signal)) {
+        const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred.';
+        setError(errorMessage);
+      }
     } finally {
+      endRequest('quality', controller);
       setIsCheckingQuality(false);
     }
   }, [generatedContent, activePersona, analyticsService, feedbackService]);
@@ -297,11 +358,14 @@ const App: React.FC = () => {
       setGeneratedContent('');
       setChatSession(null);
 
+      const controller = beginRequest('generate');
+
       try {
         const generatedContent = await structuredDocumentService.generateDocumentFromSources(
           knowledgeSources,
           prompt,
-          activePersona
+          activePersona,
+          controller.signal
         );
 
         setGeneratedContent(generatedContent);
@@ -326,10 +390,13 @@ const App: React.FC = () => {
           metadata: { persona: activePersona.name, sourceCount: knowledgeSources.length, prompt },
         });
       } catch (e: unknown) {
-        const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred.';
-        setError(errorMessage);
+        if (!isAbortError(e, controller.signal)) {
+          const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred.';
+          setError(errorMessage);
+        }
         setChatSession(null);
       } finally {
+        endRequest('generate', controller);
         setIsLoading(false);
       }
     },
@@ -365,9 +432,17 @@ const App: React.FC = () => {
       setIsAskingQuestion(true);
       setError(null);
 
+      const controller = beginRequest('ask');
+
       try {
         if (chatSession) {
-          const responseStream = askPersonaQuestion(activePersona, knowledgeSources, question);
+          const responseStream = askPersonaQuestion(
+            activePersona,
+            packKnowledge(question),
+            question,
+            temperature,
+            controller.signal
+          );
 
           analyticsService.trackEvent({
             type: 'persona_question',
@@ -382,9 +457,12 @@ const App: React.FC = () => {
           await handleStream(responseStream);
         }
       } catch (e: unknown) {
-        const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred.';
-        setError(errorMessage);
+        if (!isAbortError(e, controller.signal)) {
+          const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred.';
+          setError(errorMessage);
+        }
       } finally {
+        endRequest('ask', controller);
         setIsAskingQuestion(false);
       }
     },
@@ -401,14 +479,23 @@ const App: React.FC = () => {
 
   const handleImportData = useCallback(
     (personas, knowledgeSources) => {
+      // Reset first: it clears the knowledge sources we are about to import
+      handleReset();
       setPersonas(personas);
       setKnowledgeSources(knowledgeSources);
       setActivePersonaId(null);
-      handleReset();
     },
     [setPersonas, setKnowledgeSources, setActivePersonaId, handleReset]
   );
 
+  const handleMergeData = useCallback(
+    (personas, knowledgeSources) => {
+      setPersonas(personas);
+      setKnowledgeSources(knowledgeSources);
+    },
+    [setPersonas, setKnowledgeSources]
+  );
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
@@ -481,6 +568,12 @@ const App: React.FC = () => {
           >
             Data Manager
           </button>
+          <button
+            onClick={() => setIsProviderSettingsOpen(true)}
+            className="px-3 py-2 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 transition-colors text-sm"
+          >
+            Model
+          </button>
         </div>
       </header>
       <MainLayout
@@ -500,6 +593,7 @@ const App: React.FC = () => {
             onReset={handleReset}
             isLoading={isLoading}
             isRefining={isRefining}
+            onStop={handleStop}
             error={error}
             clearError={() => setError(null)}
             activePersonaId={activePersonaId}
@@ -545,9 +639,11 @@ const App: React.FC = () => {
           personas={personas}
           knowledgeSources={knowledgeSources}
           onImport={handleImportData}
+          onMerge={handleMergeData}
           onClose={() => setIsDataManagerOpen(false)}
         />
       )}
+      {isProviderSettingsOpen && <ProviderSettings onClose={() => setIsProviderSettingsOpen(false)} />}
       {isSearchOpen && (
         <SearchModal
           personas={personas}
@@ -588,6 +684,8 @@ const App: React.FC = () => {
         isCheckingQuality={isCheckingQuality}
         isAskingQuestion={isAskingQuestion}
         generatedContent={generatedContent}
+        contextReport={contextReport}
+        onStop={handleStop}
       />
       <KeyboardShortcuts />
     </div>
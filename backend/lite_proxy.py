@@ -70,5 +70,5 @@ proxy_server.main(
     api_base="http://localhost:11434",  # Ollama default
     port=8000,
     workers=1,  # Single for home use
-    model_list=[{"model_name": "gemini-2.5-flash", "litellm_params": {"model": "ollama/llama3.2:1b"}}]  # Alias to local model
+    model_list=[{"model_name": "llama3.2:1b", "litellm_params": {"model": "ollama/llama3.2:1b"}}]  # Served under its Ollama name
 )
@@ -0,0 +1,269 @@
+const axios = require('axios');
+
+// Mirrors DEFAULT_PROVIDER_CONFIGS in services/llmProvider.ts so the proxy and
+// the browser agree on what each provider kind means. Base URLs and API keys
+// come from the server environment only; clients pick a kind and a model.
+const DEFAULT_PROVIDER_CONFIGS = {
+  gemini: {
+    kind: 'gemini',
+    model: 'gemini-2.0-flash',
+    embeddingModel: 'gemini-embedding-001',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  },
+  openai: {
+    kind: 'openai',
+    model: 'gpt-4o-mini',
+    embeddingModel: 'text-embedding-3-small',
+    baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+  },
+  // backend/lite_proxy.py exposes an OpenAI-compatible API in front of Ollama
+  ollama: {
+    kind: 'ollama',
+    model: 'llama3.2:1b',
+    embeddingModel: 'nomic-embed-text',
+    baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:8000',
+  },
+  fake: {
+    kind: 'fake',
+    model: 'fake-model',
+  },
+};
+
+const PROVIDER_KINDS = Object.keys(DEFAULT_PROVIDER_CONFIGS);
+
+// Models a client may ask for, per kind. `<KIND>_MODELS` (comma-separated)
+// replaces the list, e.g. OLLAMA_MODELS=llama3.2:1b,qwen2.5 for locally pulled
+// models. The kind's default model is always allowed.
+const DEFAULT_ALLOWED_MODELS = {
+  gemini: ['gemini-2.0-flash', 'gemini-2.0-flash-lite', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+  openai: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+  ollama: ['llama3.2:1b', 'llama3.2', 'phi3:mini', 'mistral', 'qwen2.5'],
+  fake: ['fake-model'],
+};
+
+const allowedModels = (kind) => {
+  const configured = process.env[`${kind.toUpperCase()}_MODELS`];
+  const models = configured
+    ? configured.split(',').map((model) => model.trim()).filter(Boolean)
+    : DEFAULT_ALLOWED_MODELS[kind] || [];
+  return Array.from(new Set([DEFAULT_PROVIDER_CONFIGS[kind].model, ...models]));
+};
+
+// Only `kind` and `model` are taken from the request; everything else, in
+// particular the base URL and API key, comes from the server's own config.
+const resolveConfig = (config = {}) => {
+  const kind = config.kind || process.env.LLM_PROVIDER || 'gemini';
+  const defaults = DEFAULT_PROVIDER_CONFIGS[kind];
+  if (!defaults) {
+    throw new Error(`Unknown LLM provider: ${kind}`);
+  }
+  const model = config.model || defaults.model;
+  if (!allowedModels(kind).includes(model)) {
+    throw new Error(`Model ${model} is not enabled for provider ${kind}`);
+  }
+  return { ...defaults, kind, model };
+};
+
+const extractJSON = (text) => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const jsonMatch = candidate.match(/[[{][\s\S]*[\]}]/);
+  if (!jsonMatch) {
+    throw new Error('No JSON found in model response');
+  }
+  return JSON.parse(jsonMatch[0]);
+};
+
+// Split an SSE byte stream into the JSON payloads of its `data:` lines.
+async function* readSseData(stream) {
+  let buffer = '';
+  for await (const chunk of stream) {
+    buffer += chunk.toString('utf8');
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return;
+      try {
+        yield JSON.parse(payload);
+      } catch (error) {
+        console.error('Failed to parse stream chunk:', error.message);
+      }
+    }
+  }
+}
+
+const createGeminiProvider = (config) => {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+  const modelUrl = (model, method, query = '') =>
+    `${config.baseUrl}/models/${model}:${method}?${query}key=${apiKey}`;
+
+  const buildBody = (prompt, options = {}, responseMimeType) => ({
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    generationConfig: {
+      temperature: options.temperature,
+      maxOutputTokens: options.maxOutputTokens,
+      responseMimeType,
+    },
+    ...(options.systemInstruction
+      ? { system_instruction: { parts: [{ text: options.systemInstruction }] } }
+      : {}),
+  });
+
+  const textOf = (data) =>
+    (data.candidates?.[0]?.content?.parts || []).map((part) => part.text || '').join('');
+
+  return {
+    kind: 'gemini',
+    model: config.model,
+    async generate(prompt, options) {
+      const response = await axios.post(modelUrl(config.model, 'generateContent'), buildBody(prompt, options), {
+        signal: options && options.signal,
+      });
+      return textOf(response.data);
+    },
+    async *stream(prompt, options) {
+      const response = await axios.post(
+        modelUrl(config.model, 'streamGenerateContent', 'alt=sse&'),
+        buildBody(prompt, options),
+        { responseType: 'stream', signal: options && options.signal }
+      );
+      for await (const data of readSseData(response.data)) {
+        if (data.usageMetadata && options && options.onUsage) {
+          options.onUsage({
+            promptTokens: data.usageMetadata.promptTokenCount,
+            outputTokens: data.usageMetadata.candidatesTokenCount,
+            totalTokens: data.usageMetadata.totalTokenCount,
+          });
+        }
+        const text = textOf(data);
+        if (text) yield text;
+      }
+    },
+    async embed(text, options) {
+      const response = await axios.post(
+        modelUrl(config.embeddingModel, 'embedContent'),
+        { content: { parts: [{ text }] } },
+        { signal: options && options.signal }
+      );
+      return response.data.embedding?.values || [];
+    },
+    async generateJSON(prompt, options) {
+      const response = await axios.post(
+        modelUrl(config.model, 'generateContent'),
+        buildBody(prompt, options, 'application/json'),
+        { signal: options && options.signal }
+      );
+      return extractJSON(textOf(response.data));
+    },
+  };
+};
+
+const createOpenAICompatibleProvider = (config) => {
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+  // Local servers (Ollama behind LiteLLM) need no key, and must not receive the OpenAI one
+  const apiKey = config.kind === 'openai' ? process.env.OPENAI_API_KEY : undefined;
+  const headers = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const buildBody = (prompt, options = {}, extra = {}) => ({
+    model: config.model,
+    messages: [
+      ...(options.systemInstruction ? [{ role: 'system', content: options.systemInstruction }] : []),
+      { role: 'user', content: prompt },
+    ],
+    temperature: options.temperature,
+    max_tokens: options.maxOutputTokens,
+    ...extra,
+  });
+
+  return {
+    kind: config.kind,
+    model: config.model,
+    async generate(prompt, options) {
+      const response = await axios.post(`${baseUrl}/chat/completions`, buildBody(prompt, options), {
+        headers,
+        signal: options && options.signal,
+      });
+      return response.data.choices?.[0]?.message?.content || '';
+    },
+    async *stream(prompt, options) {
+      const response = await axios.post(
+        `${baseUrl}/chat/completions`,
+        buildBody(prompt, options, { stream: true, stream_options: { include_usage: true } }),
+        { headers, responseType: 'stream', signal: options && options.signal }
+      );
+      for await (const data of readSseData(response.data)) {
+        if (data.usage && options && options.onUsage) {
+          options.onUsage({
+            promptTokens: data.usage.prompt_tokens,
+            outputTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          });
+        }
+        const delta = data.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+    async embed(text, options) {
+      const response = await axios.post(
+        `${baseUrl}/embeddings`,
+        { model: config.embeddingModel || config.model, input: text },
+        { headers, signal: options && options.signal }
+      );
+      return response.data.data?.[0]?.embedding || [];
+    },
+    async generateJSON(prompt, options) {
+      const response = await axios.post(
+        `${baseUrl}/chat/completions`,
+        buildBody(prompt, options, { response_format: { type: 'json_object' } }),
+        { headers, signal: options && options.signal }
+      );
+      return extractJSON(response.data.choices?.[0]?.message?.content || '');
+    },
+  };
+};
+
+// Deterministic provider for exercising the proxy without a model.
+const createFakeProvider = (config) => {
+  const respond = (prompt) => `FAKE RESPONSE: ${prompt.slice(0, 80)}`;
+  return {
+    kind: 'fake',
+    model: config.model,
+    async generate(prompt) {
+      return respond(prompt);
+    },
+    async *stream(prompt, options) {
+      const pieces = respond(prompt).match(/\S+\s*/g) || [];
+      for (const piece of pieces) {
+        if (options && options.signal && options.signal.aborted) return;
+        yield piece;
+      }
+      if (options && options.onUsage) {
+        options.onUsage({ promptTokens: 0, outputTokens: pieces.length, totalTokens: pieces.length });
+      }
+    },
+    async embed(text) {
+      return Array.from({ length: 8 }, (_, i) => (text.charCodeAt(i) || 0) / 255);
+    },
+    async generateJSON(prompt) {
+      return { text: respond(prompt) };
+    },
+  };
+};
+
+const createProvider = (config) => {
+  const resolved = resolveConfig(config);
+  switch (resolved.kind) {
+    case 'gemini':
+      return createGeminiProvider(resolved);
+    case 'openai':
+    case 'ollama':
+      return createOpenAICompatibleProvider(resolved);
+    case 'fake':
+      return createFakeProvider(resolved);
+  }
+};
+
+module.exports = { DEFAULT_PROVIDER_CONFIGS, PROVIDER_KINDS, allowedModels, createProvider, extractJSON };
@@ -0,0 +1,143 @@
+// Request validation for the typed API routes. The matching TypeScript shapes
+// live in services/geminiService.ts; keep the two in sync.
+
+const { PROVIDER_KINDS, allowedModels } = require('./providers');
+
+const isString = (value) => typeof value === 'string';
+const isNonEmptyString = (value) => isString(value) && value.trim().length > 0;
+
+const validatePersona = (persona, errors, field = 'persona') => {
+  if (!persona || typeof persona !== 'object') {
+    errors.push(`${field} is required`);
+    return;
+  }
+  ['name', 'role'].forEach((key) => {
+    if (!isNonEmptyString(persona[key])) errors.push(`${field}.${key} must be a non-empty string`);
+  });
+  if (persona.surname !== undefined && !isString(persona.surname)) errors.push(`${field}.surname must be a string`);
+  if (persona.bio !== undefined && !isString(persona.bio)) errors.push(`${field}.bio must be a string`);
+  if (persona.shaperSources !== undefined) validateSources(persona.shaperSources, errors, `${field}.shaperSources`);
+};
+
+const validateSources = (sources, errors, field = 'knowledgeSources') => {
+  if (!Array.isArray(sources)) {
+    errors.push(`${field} must be an array`);
+    return;
+  }
+  sources.forEach((source, index) => {
+    if (!source || !isString(source.name) || !isString(source.content)) {
+      errors.push(`${field}[${index}] must have string name and content`);
+    }
+  });
+};
+
+const validateTemperature = (temperature, errors) => {
+  if (temperature === undefined) return;
+  if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+    errors.push('temperature must be a number between 0 and 2');
+  }
+};
+
+// Clients choose a provider kind and model only. Base URLs and API keys are
+// server configuration, so a body carrying them is rejected outright.
+const validateProvider = (provider, errors) => {
+  if (provider === undefined) return;
+  if (!provider || typeof provider !== 'object' || Array.isArray(provider)) {
+    errors.push('provider must be an object');
+    return;
+  }
+  Object.keys(provider)
+    .filter((key) => key !== 'kind' && key !== 'model')
+    .forEach((key) => errors.push(`provider.${key} is not accepted; it is configured on the server`));
+  if (!PROVIDER_KINDS.includes(provider.kind)) {
+    errors.push(`provider.kind must be one of ${PROVIDER_KINDS.join(', ')}`);
+    return;
+  }
+  if (provider.model !== undefined && !allowedModels(provider.kind).includes(provider.model)) {
+    errors.push(`provider.model must be one of ${allowedModels(provider.kind).join(', ')}`);
+  }
+};
+
+const validateDraftRequest = (body) => {
+  const errors = [];
+  validatePersona(body.persona, errors);
+  if (!isNonEmptyString(body.initialPrompt)) errors.push('initialPrompt must be a non-empty string');
+  validateSources(body.knowledgeSources, errors);
+  validateTemperature(body.temperature, errors);
+  validateProvider(body.provider, errors);
+  if (body.currentContent !== undefined && !isString(body.currentContent)) errors.push('currentContent must be a string');
+  return errors;
+};
+
+const validateAskRequest = (body) => {
+  const errors = [];
+  validatePersona(body.persona, errors);
+  if (!isNonEmptyString(body.userQuery)) errors.push('userQuery must be a non-empty string');
+  validateSources(body.knowledgeSources, errors);
+  validateTemperature(body.temperature, errors);
+  validateProvider(body.provider, errors);
+  return errors;
+};
+
+const validateRefineRequest = (body) => {
+  const errors = [];
+  if (!isNonEmptyString(body.feedback)) errors.push('feedback must be a non-empty string');
+  if (!isNonEmptyString(body.currentDocument)) errors.push('currentDocument must be a non-empty string');
+  if (body.persona !== undefined) validatePersona(body.persona, errors);
+  if (body.knowledgeSources !== undefined) validateSources(body.knowledgeSources, errors);
+  validateTemperature(body.temperature, errors);
+  validateProvider(body.provider, errors);
+  return errors;
+};
+
+const validateQualityRequest = (body) => {
+  const errors = [];
+  if (!isNonEmptyString(body.documentContent)) errors.push('documentContent must be a non-empty string');
+  validatePersona(body.persona, errors);
+  validateProvider(body.provider, errors);
+  return errors;
+};
+
+// Generic completions for the browser's provider adapter (services/llmProvider.ts).
+const validateGenerateRequest = (body) => {
+  const errors = [];
+  if (!isNonEmptyString(body.prompt)) errors.push('prompt must be a non-empty string');
+  if (body.systemInstruction !== undefined && !isString(body.systemInstruction)) {
+    errors.push('systemInstruction must be a string');
+  }
+  validateTemperature(body.temperature, errors);
+  if (body.maxOutputTokens !== undefined && !(Number.isInteger(body.maxOutputTokens) && body.maxOutputTokens > 0)) {
+    errors.push('maxOutputTokens must be a positive integer');
+  }
+  if (body.json !== undefined && typeof body.json !== 'boolean') errors.push('json must be a boolean');
+  validateProvider(body.provider, errors);
+  return errors;
+};
+
+const validateEmbedRequest = (body) => {
+  const errors = [];
+  if (!isNonEmptyString(body.text)) errors.push('text must be a non-empty string');
+  validateProvider(body.provider, errors);
+  return errors;
+};
+
+// Express middleware: reject the request with the shared error shape
+// `{ error, details }` before any streaming starts.
+const validateBody = (validator) => (req, res, next) => {
+  const details = validator(req.body || {});
+  if (details.length > 0) {
+    res.status(400).json({ error: 'Invalid request', details });
+    return;
+  }
+  next();
+};
+
+module.exports = {
+  validateBody,
+  validateDraftRequest,
+  validateAskRequest,
+  validateRefineRequest,
+  validateQualityRequest,
+  validateGenerateRequest,
+  validateEmbedRequest,
+};
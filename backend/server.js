@@ -1,7 +1,16 @@
 const express = require('express');
 const cors = require('cors');
-const axios = require('axios');
 require('dotenv').config();
+const { PROVIDER_KINDS, allowedModels, createProvider } = require('./providers');
+const {
+  validateBody,
+  validateDraftRequest,
+  validateAskRequest,
+  validateRefineRequest,
+  validateQualityRequest,
+  validateGenerateRequest,
+  validateEmbedRequest,
+} = require('./schemas');
 
 const app = express();
 const port = 3002;
@@ -87,9 +96,12 @@ const getEnhancedSystemInstruction = (persona, knowledgeSources) => {
   const traits = extractPersonalityTraits(persona);
   const worldview = generateWorldviewStatement(persona);
   const decisionFramework = generateDecisionFramework(persona);
+  // Both are optional in the request schema
+  const shaperSources = persona.shaperSources || [];
+  const fullName = [persona.name, persona.surname].filter(Boolean).join(' ');
   const sourceList =
-    persona.shaperSources.length > 0
-      ? `Your expertise is informed by the following documents you have studied:\n${persona.shaperSources
+    shaperSources.length > 0
+      ? `Your expertise is informed by the following documents you have studied:\n${shaperSources
           .map((s) => `- ${s.name}: ${s.content.substring(0, 100)}...`)
           .join('\n')}`
       : 'You draw from your innate understanding of your role and background.';
@@ -97,7 +109,7 @@ const getEnhancedSystemInstruction = (persona, knowledgeSources) => {
     knowledgeSources.length > 0
       ? `\n\nKnowledge Base:\n${knowledgeSources.map((s) => `${s.name}: ${s.content}`).join('\n')}`
       : '';
-  return `You are ${persona.name} ${persona.surname}, embodying the role of ${persona.role}.
+  return `You are ${fullName}, embodying the role of ${persona.role}.
 ${persona.bio ? `BIOGRAPHY & BACKGROUND:\n${persona.bio}\n` : ''}
 
 CORE TRAITS & PERSPECTIVE:
@@ -127,26 +139,176 @@ When responding to questions or analyzing information:
 Remember: You are not just an AI assistant - you ARE this persona. Every response must reflect their unique perspective, experiences, and worldview.`;
 };
 
-app.post('/api/gemini', async (req, res) => {
+// Server-sent events: `token` carries text deltas, `usage` token counts,
+// `done` closes the stream and `error` reports a failure mid-stream.
+const sendEvent = (res, event, data) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Stop the upstream request as soon as the browser goes away (Stop button,
+// closed tab); whatever was already streamed stays with the client.
+const abortOnClose = (res) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller;
+};
+
+// `buildRequest` returns `{ prompt, ...options }`. It runs inside the try so a
+// failure while assembling the prompt is reported as an `error` event.
+const streamCompletion = async (res, providerConfig, buildRequest) => {
+  const controller = abortOnClose(res);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  try {
+    const { prompt, ...options } = buildRequest();
+    const provider = createProvider(providerConfig);
+    const stream = provider.stream(prompt, {
+      ...options,
+      signal: controller.signal,
+      onUsage: (usage) => sendEvent(res, 'usage', usage),
+    });
+    for await (const text of stream) {
+      if (controller.signal.aborted) break;
+      sendEvent(res, 'token', { text });
+    }
+    sendEvent(res, 'done', { provider: provider.kind, model: provider.model });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      sendEvent(res, 'error', { message: error.message });
+    }
+  } finally {
+    res.end();
+  }
+};
+
+const QUALITY_METRICS = {
+  personaConsistency: 'PERSONA CONSISTENCY',
+  knowledgeIntegration: 'KNOWLEDGE INTEGRATION',
+  responseRelevance: 'RESPONSE RELEVANCE',
+  overallQuality: 'OVERALL QUALITY',
+};
+
+const parseQualityScores = (report) =>
+  Object.fromEntries(
+    Object.entries(QUALITY_METRICS).map(([key, label]) => {
+      const match = report.match(new RegExp(`${label}:\\s*(\\d+)\\/100`));
+      return [key, match ? parseInt(match[1], 10) : null];
+    })
+  );
+
+app.post('/api/draft', validateBody(validateDraftRequest), async (req, res) => {
+  const { persona, initialPrompt, knowledgeSources, temperature, currentContent, provider } = req.body;
+  await streamCompletion(res, provider, () => ({
+    prompt: currentContent
+      ? `${initialPrompt}\n\nCURRENT DOCUMENT (build on this rather than starting over):\n${currentContent}`
+      : initialPrompt,
+    systemInstruction: getEnhancedSystemInstruction(persona, knowledgeSources),
+    temperature,
+  }));
+});
+
+app.post('/api/ask', validateBody(validateAskRequest), async (req, res) => {
+  const { persona, knowledgeSources, userQuery, temperature, provider } = req.body;
+  await streamCompletion(res, provider, () => ({
+    prompt: `QUESTION:\n${userQuery}\n\nAnswer in character, drawing on the knowledge base where it is relevant.`,
+    systemInstruction: getEnhancedSystemInstruction(persona, knowledgeSources),
+    temperature,
+  }));
+});
+
+app.post('/api/refine', validateBody(validateRefineRequest), async (req, res) => {
+  const { feedback, currentDocument, persona, knowledgeSources, temperature, provider } = req.body;
+  const prompt = `Revise the document below according to the feedback.
+
+CURRENT DOCUMENT:
+${currentDocument}
+
+FEEDBACK:
+${feedback}
+
+Return the complete revised document only, without commentary.`;
+  await streamCompletion(res, provider, () => ({
+    prompt,
+    systemInstruction: persona
+      ? getEnhancedSystemInstruction(persona, knowledgeSources || [])
+      : 'You are an expert editor who revises documents precisely according to feedback.',
+    temperature,
+  }));
+});
+
+app.post('/api/quality', validateBody(validateQualityRequest), async (req, res) => {
+  const { documentContent, persona, provider: providerConfig } = req.body;
+  const prompt = `You are reviewing a document written in the voice of ${[persona.name, persona.surname].filter(Boolean).join(' ')} (${persona.role}).
+
+DOCUMENT:
+${documentContent}
+
+Assess the document and respond in markdown. Begin with these four lines exactly, each score an integer:
+PERSONA CONSISTENCY: <score>/100
+KNOWLEDGE INTEGRATION: <score>/100
+RESPONSE RELEVANCE: <score>/100
+OVERALL QUALITY: <score>/100
+
+Then give strengths, weaknesses and concrete suggestions for improvement.`;
+
+  const controller = abortOnClose(res);
+
+  try {
+    const provider = createProvider(providerConfig);
+    const text = await provider.generate(prompt, { temperature: 0.2, signal: controller.signal });
+    res.json({ text, scores: parseQualityScores(text) });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Generic completions and embeddings for the browser's OpenAI-compatible
+// provider adapter, so the API key and endpoint stay on the server.
+app.get('/api/llm/models', (req, res) => {
+  res.json(Object.fromEntries(PROVIDER_KINDS.map((kind) => [kind, allowedModels(kind)])));
+});
+
+app.post('/api/llm/generate', validateBody(validateGenerateRequest), async (req, res) => {
+  const { provider: providerConfig, prompt, systemInstruction, temperature, maxOutputTokens, json } = req.body;
+  const controller = abortOnClose(res);
+
+  try {
+    const provider = createProvider(providerConfig);
+    const options = { systemInstruction, temperature, maxOutputTokens, signal: controller.signal };
+    if (json) {
+      res.json({ data: await provider.generateJSON(prompt, options) });
+    } else {
+      res.json({ text: await provider.generate(prompt, options) });
+    }
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/llm/stream', validateBody(validateGenerateRequest), async (req, res) => {
+  const { provider, prompt, systemInstruction, temperature, maxOutputTokens } = req.body;
+  await streamCompletion(res, provider, () => ({ prompt, systemInstruction, temperature, maxOutputTokens }));
+});
+
+app.post('/api/llm/embed', validateBody(validateEmbedRequest), async (req, res) => {
+  const { provider: providerConfig, text } = req.body;
+  const controller = abortOnClose(res);
+
   try {
-    const { persona, initialPrompt, knowledgeSources, temperature } = req.body;
-    const systemInstruction = getEnhancedSystemInstruction(persona, knowledgeSources);
-    const contents = [{
-      role: 'user',
-      parts: [{ text: initialPrompt }],
-    }];
-    const response = await axios.post(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${process.env.GEMINI_API_KEY}`,
-      {
-        contents,
-        generationConfig: { temperature },
-        system_instruction: {
-          parts: [{ text: systemInstruction }],
-        },
-      }
-    );
-    res.json(response.data);
+    const provider = createProvider(providerConfig);
+    res.json({ embedding: await provider.embed(text, { signal: controller.signal }) });
   } catch (error) {
+    if (controller.signal.aborted) return;
     res.status(500).json({ error: error.message });
   }
 });
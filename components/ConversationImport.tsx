@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Source } from '../types';
+import {
+  Conversation,
+  buildConversationSources,
+  listAuthors,
+  parseConversation
+} from '../services/conversationImport';
+
+interface ConversationImportProps {
+  files: File[];
+  // Name of the persona being edited, if any; its sources can be extended
+  personaName?: string;
+  onAddToPersona?: (sources: Source[]) => void;
+  onCreatePersona: (sources: Source[]) => void;
+  onCancel: () => void;
+}
+
+const FORMAT_LABELS: Record<Conversation['format'], string> = {
+  email: 'Email',
+  slack: 'Slack export',
+  whatsapp: 'WhatsApp export',
+  telegram: 'Telegram export',
+};
+
+const ConversationImport: React.FC<ConversationImportProps> = ({ files, personaName, onAddToPersona, onCreatePersona, onCancel }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [isReading, setIsReading] = useState(true);
+  const [author, setAuthor] = useState('');
+
+  useEffect(() => {
+    const readFiles = async () => {
+      setIsReading(true);
+      const parsed: Conversation[] = [];
+      const unrecognized: string[] = [];
+      for (const file of files) {
+        try {
+          const conversation = parseConversation(file.name, await file.text());
+          if (conversation) parsed.push(conversation);
+          else unrecognized.push(file.name);
+        } catch (error) {
+          console.error(`Could not read conversation ${file.name}:`, error);
+          unrecognized.push(file.name);
+        }
+      }
+      setConversations(parsed);
+      setSkipped(unrecognized);
+      setIsReading(false);
+    };
+
+    readFiles();
+  }, [files]);
+
+  const authors = useMemo(() => listAuthors(conversations), [conversations]);
+
+  useEffect(() => {
+    if (authors.length > 0 && !authors.some(entry => entry.author === author)) {
+      setAuthor(authors[0].author);
+    }
+  }, [authors, author]);
+
+  const sources = useMemo(
+    () => (author ? buildConversationSources(conversations, author) : []),
+    [conversations, author]
+  );
+  const ownCount = authors.find(entry => entry.author === author)?.count || 0;
+  const totalCount = authors.reduce((sum, entry) => sum + entry.count, 0);
+
+  return (
+    <div className="p-4 bg-slate-900/60 border border-slate-700 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-md font-semibold text-slate-200">Import Messages</h4>
+        <button onClick={onCancel} className="text-xs text-slate-400 hover:text-slate-200">Cancel</button>
+      </div>
+
+      {isReading ? (
+        <p className="text-sm text-slate-400">Reading {files.length} file(s)...</p>
+      ) : conversations.length === 0 ? (
+        <p className="text-sm text-red-400">
+          No messages found. Supported: .eml and .mbox mail, Slack and Telegram JSON exports, WhatsApp text exports.
+        </p>
+      ) : (
+        <>
+          <ul className="text-xs text-slate-400 space-y-1">
+            {conversations.map(conversation => (
+              <li key={conversation.name}>
+                {conversation.name} — {FORMAT_LABELS[conversation.format]}, {conversation.messages.length} message(s)
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Which author is the persona?</label>
+            <select
+              value={author}
+              onChange={e => setAuthor(e.target.value)}
+              className="w-full p-2 bg-slate-900 border border-slate-600 rounded-md text-sm"
+            >
+              {authors.map(entry => (
+                <option key={entry.author} value={entry.author}>
+                  {entry.author} ({entry.count} message{entry.count === 1 ? '' : 's'})
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">
+              {ownCount} of {totalCount} messages are the persona's own writing; the rest are kept as a separate context source.
+            </p>
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            {onAddToPersona && personaName && (
+              <button
+                onClick={() => onAddToPersona(sources)}
+                disabled={sources.length === 0}
+                className="px-3 py-1 bg-indigo-600 text-white text-sm font-semibold rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Add to {personaName}
+              </button>
+            )}
+            <button
+              onClick={() => onCreatePersona(sources)}
+              disabled={sources.length === 0}
+              className="px-3 py-1 bg-green-600 text-white text-sm font-semibold rounded-md hover:bg-green-700 disabled:opacity-50"
+            >
+              Create Persona
+            </button>
+          </div>
+        </>
+      )}
+
+      {!isReading && skipped.length > 0 && (
+        <p className="text-xs text-yellow-500">Not recognized as a conversation: {skipped.join(', ')}</p>
+      )}
+    </div>
+  );
+};
+
+export default ConversationImport;
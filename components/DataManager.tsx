@@ -2,41 +2,63 @@ import React, { useState } from 'react';
 import { Persona, Source } from '../types';
 import CloseIcon from './icons/CloseIcon';
 import DownloadIcon from './icons/DownloadIcon';
-import { downloadData, uploadData } from '../services/dataManager';
+import { downloadData, downloadFullBackup, restoreFullBackup, uploadData, ImportResult } from '../services/dataManager';
+import { MergeItem, MergePlan, MergeResolution, applyMerge, defaultResolution, planMerge } from '../services/importMerge';
 
 interface DataManagerProps {
   personas: Persona[];
   knowledgeSources: Source[];
   onImport: (personas: Persona[], knowledgeSources: Source[]) => void;
+  // Receives the whole merged workspace; the current document is left alone
+  onMerge: (personas: Persona[], knowledgeSources: Source[]) => void;
   onClose: () => void;
 }
 
-const DataManager: React.FC<DataManagerProps> = ({ personas, knowledgeSources, onImport, onClose }) => {
+const RESOLUTION_LABELS: Record<MergeResolution, string> = {
+  keepLocal: 'Keep local',
+  takeIncoming: 'Take incoming',
+  keepBoth: 'Keep both'
+};
+
+const STATUS_STYLES: Record<MergeItem['status'], string> = {
+  new: 'bg-green-900/50 text-green-300',
+  identical: 'bg-slate-700 text-slate-300',
+  conflict: 'bg-amber-900/50 text-amber-300'
+};
+
+const DataManager: React.FC<DataManagerProps> = ({ personas, knowledgeSources, onImport, onMerge, onClose }) => {
   const [isImporting, setIsImporting] = useState(false);
   const [importStatus, setImportStatus] = useState<string>('');
+  const [pendingImport, setPendingImport] = useState<ImportResult | null>(null);
+  const [mergePlan, setMergePlan] = useState<MergePlan | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const [includeDerived, setIncludeDerived] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
 
   const handleExport = () => {
     downloadData(personas, knowledgeSources);
   };
 
+  const handleFullBackup = async () => {
+    try {
+      setIsBackingUp(true);
+      await downloadFullBackup(personas, knowledgeSources, { includeDerived });
+    } catch (error) {
+      setImportStatus(`Error: ${error instanceof Error ? error.message : 'Backup failed'}`);
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
   const handleImport = async () => {
     try {
       setIsImporting(true);
       setImportStatus('Select a backup file...');
 
-      const data = await uploadData();
-      setImportStatus(`Found ${data.personas.length} personas and ${data.knowledgeSources.length} sources`);
-
-      // Confirm import
-      if (window.confirm(`Import ${data.personas.length} personas and ${data.knowledgeSources.length} knowledge sources? This will replace your current data.`)) {
-        onImport(data.personas, data.knowledgeSources);
-        setImportStatus('Import successful!');
-        setTimeout(() => {
-          onClose();
-        }, 1500);
-      } else {
-        setImportStatus('Import cancelled');
-      }
+      // Nothing is replaced until the user has reviewed the validation report
+      const result = await uploadData();
+      setPendingImport(result);
+      setImportStatus(result.report.valid ? 'Review the import report below' : 'Error: the file failed validation');
     } catch (error) {
       setImportStatus(`Error: ${error instanceof Error ? error.message : 'Import failed'}`);
     } finally {
@@ -44,6 +66,87 @@ const DataManager: React.FC<DataManagerProps> = ({ personas, knowledgeSources, o
     }
   };
 
+  const handleConfirmImport = async () => {
+    if (!pendingImport?.data) return;
+    setMergePlan(null);
+
+    if (pendingImport.data.workspace) {
+      try {
+        setIsImporting(true);
+        await restoreFullBackup(pendingImport.data);
+        setImportStatus('Workspace restored, reloading...');
+        window.location.reload();
+      } catch (error) {
+        setImportStatus(`Error: ${error instanceof Error ? error.message : 'Restore failed'}`);
+        setIsImporting(false);
+      }
+      return;
+    }
+
+    onImport(pendingImport.data.personas, pendingImport.data.knowledgeSources);
+    setPendingImport(null);
+    setImportStatus('Import successful!');
+    setTimeout(() => {
+      onClose();
+    }, 1500);
+  };
+
+  const handleCancelImport = () => {
+    setPendingImport(null);
+    setMergePlan(null);
+    setImportStatus('Import cancelled');
+  };
+
+  const handleStartMerge = () => {
+    if (!pendingImport?.data) return;
+    setMergePlan(planMerge({ personas, knowledgeSources }, pendingImport.data));
+    setResolutions({});
+  };
+
+  const handleApplyMerge = () => {
+    if (!mergePlan) return;
+    const merged = applyMerge({ personas, knowledgeSources }, mergePlan, resolutions);
+    onMerge(merged.personas, merged.knowledgeSources);
+    setPendingImport(null);
+    setMergePlan(null);
+    setImportStatus('Merge successful!');
+    setTimeout(() => {
+      onClose();
+    }, 1500);
+  };
+
+  const renderMergeItem = (item: MergeItem) => {
+    const resolution = resolutions[item.key] ?? defaultResolution(item);
+    const options: MergeResolution[] = item.status === 'new' ? ['takeIncoming', 'keepLocal'] : ['keepLocal', 'takeIncoming', 'keepBoth'];
+    return (
+      <li key={item.key} className="flex items-start justify-between gap-3 py-2 border-b border-slate-700/50 last:border-0">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className={`px-1.5 py-0.5 rounded text-xs ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+            <span className="text-sm text-slate-200 truncate">{item.incoming.name}</span>
+          </div>
+          {item.status === 'conflict' && (
+            <p className="text-xs text-slate-400 mt-1">
+              Differs in: {item.changedFields.join(', ')}
+            </p>
+          )}
+        </div>
+        <select
+          value={resolution}
+          onChange={(e) => setResolutions({ ...resolutions, [item.key]: e.target.value as MergeResolution })}
+          className="bg-slate-700 border border-slate-600 rounded-md text-xs text-slate-200 px-2 py-1"
+          aria-label={`Resolution for ${item.incoming.name}`}
+        >
+          {options.map((option) => (
+            <option key={option} value={option}>
+              {item.status === 'new' && option === 'keepLocal' ? 'Skip' : RESOLUTION_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </li>
+    );
+  };
+
   const totalDataSize = JSON.stringify({ personas, knowledgeSources }).length;
   const readableSize = totalDataSize < 1024
     ? `${totalDataSize} bytes`
@@ -53,7 +156,7 @@ const DataManager: React.FC<DataManagerProps> = ({ personas, knowledgeSources, o
 
   return (
     <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl w-full max-w-2xl">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
         <header className="flex items-center justify-between p-4 border-b border-slate-700">
           <h2 className="text-lg font-bold text-slate-100">Data Management</h2>
           <button
@@ -65,7 +168,7 @@ const DataManager: React.FC<DataManagerProps> = ({ personas, knowledgeSources, o
           </button>
         </header>
 
-        <main className="p-6 space-y-6">
+        <main className="p-6 space-y-6 overflow-y-auto">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Current Data Stats */}
             <div className="bg-slate-900/50 p-4 rounded-lg">
@@ -102,6 +205,24 @@ const DataManager: React.FC<DataManagerProps> = ({ personas, knowledgeSources, o
                   Export Data
                 </button>
 
+                <button
+                  onClick={handleFullBackup}
+                  disabled={isBackingUp}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-slate-600 text-white font-semibold rounded-md hover:bg-slate-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <DownloadIcon className="w-4 h-4" />
+                  {isBackingUp ? 'Preparing Backup...' : 'Full Backup'}
+                </button>
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={includeDerived}
+                    onChange={(e) => setIncludeDerived(e.target.checked)}
+                    className="rounded border-slate-600 bg-slate-700"
+                  />
+                  Include derived data (embeddings, processed knowledge, analyses)
+                </label>
+
                 <button
                   onClick={handleImport}
                   disabled={isImporting}
@@ -123,12 +244,129 @@ const DataManager: React.FC<DataManagerProps> = ({ personas, knowledgeSources, o
             </div>
           </div>
 
+          {/* Import Report */}
+          {pendingImport && (
+            <div className="bg-slate-900/50 p-4 rounded-lg">
+              <h3 className="text-md font-semibold text-slate-200 mb-3">Import Report</h3>
+              <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+                <span className="text-slate-400">File version:</span>
+                <span className="text-slate-300">
+                  {pendingImport.report.sourceVersion}
+                  {pendingImport.report.migrationsApplied.length > 0 && ` → ${pendingImport.report.targetVersion}`}
+                </span>
+                <span className="text-slate-400">Contents:</span>
+                <span className="text-slate-300">
+                  {pendingImport.report.counts.personas} personas, {pendingImport.report.counts.knowledgeSources} sources, {pendingImport.report.counts.snapshots} snapshots, {pendingImport.report.counts.guidance} guidance items
+                </span>
+                {pendingImport.data?.workspace && (
+                  <>
+                    <span className="text-slate-400">Full backup:</span>
+                    <span className="text-slate-300">
+                      {pendingImport.report.counts.workspaceRecords} workspace records
+                      {pendingImport.data.workspace.includesDerived ? ', including derived data' : ', without derived data'}
+                    </span>
+                  </>
+                )}
+              </div>
+
+              {pendingImport.report.migrationsApplied.length > 0 && (
+                <div className="mb-3">
+                  <h4 className="text-sm font-semibold text-slate-300 mb-1">Migrations applied</h4>
+                  <ul className="list-disc list-inside text-xs text-slate-400 space-y-1">
+                    {pendingImport.report.migrationsApplied.map((migration) => (
+                      <li key={migration}>{migration}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {pendingImport.report.issues.length > 0 ? (
+                <div className="mb-3 max-h-48 overflow-y-auto">
+                  <h4 className="text-sm font-semibold text-slate-300 mb-1">
+                    {pendingImport.report.issues.filter((i) => i.severity === 'error').length} errors,{' '}
+                    {pendingImport.report.issues.filter((i) => i.severity === 'warning').length} warnings
+                  </h4>
+                  <ul className="text-xs space-y-1">
+                    {pendingImport.report.issues.map((issue, index) => (
+                      <li
+                        key={`${issue.path}-${index}`}
+                        className={issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'}
+                      >
+                        <code className="text-slate-400">{issue.path}</code> {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <p className="text-sm text-green-300 mb-3">No problems found.</p>
+              )}
+
+              {mergePlan && (() => {
+                const items: MergeItem[] = [...mergePlan.personas, ...mergePlan.sources];
+                const pending = items.filter((item) => item.status !== 'identical');
+                const identical = items.length - pending.length;
+                return (
+                  <div className="mb-3">
+                    <h4 className="text-sm font-semibold text-slate-300 mb-1">
+                      Merge: {items.filter((i) => i.status === 'new').length} new,{' '}
+                      {items.filter((i) => i.status === 'conflict').length} conflicting, {identical} identical
+                    </h4>
+                    {pendingImport.data?.workspace && (
+                      <p className="text-xs text-amber-300 mb-1">
+                        Merging only brings in personas and sources; use Replace to restore the full workspace.
+                      </p>
+                    )}
+                    {pending.length > 0 ? (
+                      <ul className="max-h-64 overflow-y-auto">{pending.map(renderMergeItem)}</ul>
+                    ) : (
+                      <p className="text-sm text-slate-400">Everything in this file is already in your workspace.</p>
+                    )}
+                  </div>
+                );
+              })()}
+
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={handleCancelImport}
+                  className="px-4 py-2 text-sm text-slate-300 bg-slate-700 rounded-md hover:bg-slate-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                {mergePlan ? (
+                  <button
+                    onClick={handleApplyMerge}
+                    className="px-4 py-2 text-sm text-white font-semibold bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors"
+                  >
+                    Apply merge
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleStartMerge}
+                    disabled={!pendingImport.report.valid}
+                    className="px-4 py-2 text-sm text-white font-semibold bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Merge…
+                  </button>
+                )}
+                <button
+                  onClick={handleConfirmImport}
+                  disabled={!pendingImport.report.valid}
+                  className="px-4 py-2 text-sm text-white font-semibold bg-red-600 rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Replace current data
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Instructions */}
           <div className="bg-slate-900/30 p-4 rounded-lg">
             <h4 className="text-sm font-semibold text-slate-200 mb-2">How to use:</h4>
             <div className="text-xs text-slate-400 space-y-1">
               <p><strong>Export:</strong> Download your personas and knowledge sources as a backup file.</p>
-              <p><strong>Import:</strong> Restore previously exported data. This will replace your current data.</p>
+              <p><strong>Full Backup:</strong> Also includes ratings, feedback, document versions and analytics; restoring it replaces the whole workspace.</p>
+              <p><strong>Import:</strong> Restore previously exported data, either replacing your current data or merging it in.</p>
+              <p><strong>Merge:</strong> Items are matched by id and by content; choose per item whether to keep yours, take the incoming one, or keep both.</p>
               <p><strong>Tip:</strong> Export regularly to avoid losing your work!</p>
             </div>
           </div>
@@ -143,6 +381,7 @@ const DataManager: React.FC<DataManagerProps> = ({ personas, knowledgeSources, o
                 <li><code className="text-indigo-300">knowledgeSources[]</code> - Your knowledge base documents</li>
                 <li><code className="text-indigo-300">exportDate</code> - When the backup was created</li>
                 <li><code className="text-indigo-300">version</code> - Data format version</li>
+                <li><code className="text-indigo-300">workspace</code> - Full backups only: every service's saved state</li>
               </ul>
             </div>
           </div>
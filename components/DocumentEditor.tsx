@@ -11,6 +11,7 @@ interface DocumentEditorProps {
   onReset: () => void;
   isLoading: boolean;
   isRefining: boolean;
+  onStop?: () => void;
   error: string | null;
   clearError: () => void;
   activePersonaId: string | null;
@@ -25,6 +26,7 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({
   onReset,
   isLoading,
   isRefining,
+  onStop,
   error,
   clearError,
   activePersonaId,
@@ -99,6 +101,15 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({
       <div className="px-4 py-3 border-b border-slate-700 flex justify-between items-center">
         <h2 className="text-lg font-semibold text-slate-100">Document Editor</h2>
         <div className="flex gap-2">
+          {(isLoading || isRefining) && onStop && (
+            <button
+              onClick={onStop}
+              className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+              title="Stop generating and keep the partial content"
+            >
+              Stop
+            </button>
+          )}
           <button
             onClick={() => setShowFeedbackPanel(!showFeedbackPanel)}
             className="px-3 py-1 text-sm bg-slate-700 text-slate-200 rounded-md hover:bg-slate-600"
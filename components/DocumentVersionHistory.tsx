@@ -25,6 +25,7 @@ const DocumentVersionHistory: React.FC<DocumentVersionHistoryProps> = ({
   const loadVersions = async () => {
     try {
       setLoading(true);
+      await structuredDocumentService.loaded;
       const documentVersions = structuredDocumentService.getDocumentVersions(documentId);
       setVersions(documentVersions.sort((a, b) => b.versionNumber - a.versionNumber));
     } catch (err) {
@@ -0,0 +1,44 @@
+import React from 'react';
+import { DuplicateMatch, DuplicateResolution } from '../services/sourceDedup';
+
+interface DuplicateReviewProps {
+  duplicates: DuplicateMatch[];
+  onResolve: (match: DuplicateMatch, resolution: DuplicateResolution) => void;
+}
+
+const RESOLUTIONS: { resolution: DuplicateResolution; label: string; title: string }[] = [
+  { resolution: 'merge', label: 'Merge', title: 'Keep the existing source and add any paragraphs only the new file has' },
+  { resolution: 'replace', label: 'Replace', title: 'Swap the existing source for the new file' },
+  { resolution: 'keep', label: 'Keep both', title: 'Add the new file as a separate source' },
+];
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ duplicates, onResolve }) => (
+  <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-md space-y-3">
+    <h4 className="text-sm font-semibold text-yellow-300">Possible duplicates</h4>
+    {duplicates.map((match, index) => (
+      <div key={`${match.source.id}-${index}`} className="text-xs space-y-1">
+        <p className="text-slate-300">
+          <span className="font-semibold">{match.source.path || match.source.name}</span>{' '}
+          {match.kind === 'exact'
+            ? 'has the same content as'
+            : `is about ${Math.round(match.similarity * 100)}% the same as`}{' '}
+          <span className="font-semibold">{match.existing.path || match.existing.name}</span>
+        </p>
+        <div className="flex gap-2">
+          {RESOLUTIONS.map(({ resolution, label, title }) => (
+            <button
+              key={resolution}
+              onClick={() => onResolve(match, resolution)}
+              title={title}
+              className="px-2 py-0.5 border border-slate-600 rounded text-slate-300 hover:bg-slate-700"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export default DuplicateReview;
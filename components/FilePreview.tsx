@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
-import { Source } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { DataTable, Source } from '../types';
 import CloseIcon from './icons/CloseIcon';
 import DocumentPlusIcon from './icons/DocumentPlusIcon';
-import { parseFiles } from '../services/fileParser';
+import { FileParseOutcome, FileParseProgress, ParseBatch, ParseDiagnostic, parseFiles, startParsing } from '../services/fileParser';
 import ProgressIndicator from './ProgressIndicator';
+import ParseDiagnosticsList from './ParseDiagnosticsList';
 
 interface FilePreviewProps {
   files: File[];
@@ -11,34 +12,116 @@ interface FilePreviewProps {
   onCancel: () => void;
 }
 
+const confidenceClass = (confidence: number) =>
+  confidence >= 80 ? 'bg-green-500/20 text-green-300'
+    : confidence >= 60 ? 'bg-yellow-500/20 text-yellow-300'
+    : 'bg-red-500/20 text-red-300';
+
+interface FilePreviewEntry {
+  file: File;
+  content: string;
+  error?: string;
+  // Spreadsheet, CSV and JSON files are previewed as tables
+  tables?: DataTable[];
+  // Set for files parsed to build the preview, so confirming does not parse them again
+  parsed?: FileParseOutcome;
+}
+
+// Rows shown per table in the preview
+const PREVIEW_ROWS = 10;
+
+const formatCell = (value: DataTable['rows'][number][number]) =>
+  value === null ? '' : typeof value === 'string' ? value : String(value);
+
+const TablePreview: React.FC<{ table: DataTable }> = ({ table }) => (
+  <div className="mb-3 last:mb-0">
+    <p className="text-xs text-slate-400 mb-1">
+      {table.name} — {table.totalRows} row{table.totalRows === 1 ? '' : 's'}
+      {table.totalRows > PREVIEW_ROWS && `, showing first ${PREVIEW_ROWS}`}
+    </p>
+    <div className="overflow-x-auto">
+      <table className="text-xs text-slate-300 border-collapse">
+        <thead>
+          <tr>
+            {table.columns.map((column, i) => (
+              <th key={i} className="px-2 py-1 border border-slate-600 bg-slate-900/50 text-left whitespace-nowrap">
+                {column.name} <span className="text-slate-500 font-normal">{column.type}</span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+            <tr key={i}>
+              {row.map((value, j) => (
+                <td
+                  key={j}
+                  className={`px-2 py-1 border border-slate-700 whitespace-nowrap ${typeof value === 'number' ? 'text-right' : ''}`}
+                >
+                  {formatCell(value)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
 const FilePreview: React.FC<FilePreviewProps> = ({ files, onConfirm, onCancel }) => {
-  const [previews, setPreviews] = useState<{ file: File; content: string; error?: string }[]>([]);
+  const [previews, setPreviews] = useState<FilePreviewEntry[]>([]);
   const [isProcessing, setIsProcessing] = useState(true);
   const [processedSources, setProcessedSources] = useState<Source[]>([]);
   const [showProgress, setShowProgress] = useState(false);
   const [progress, setProgress] = useState({ current: 0, total: 0, message: '' });
+  const [fileProgress, setFileProgress] = useState<FileParseProgress[]>([]);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const batchRef = useRef<ParseBatch | null>(null);
+  const cancelledRef = useRef(false);
+
+  // Stop parsing if the preview closes mid-batch
+  useEffect(() => () => batchRef.current?.cancelAll(), []);
 
   useEffect(() => {
     const generatePreviews = async () => {
       setIsProcessing(true);
-      const previewData: { file: File; content: string; error?: string }[] = [];
+      const previewData: FilePreviewEntry[] = [];
 
       for (const file of files) {
         try {
           let content = '';
 
-          if (file.type === 'application/pdf') {
+          if (/\.(csv|xlsx|json)$/i.test(file.name)) {
+            // Parse structured files up front so their columns and types can be checked
+            const { sources: [source], diagnostics: fileDiagnostics } = await parseFiles([file]);
+            const parsed = { source, diagnostics: fileDiagnostics };
+            if (!source) {
+              previewData.push({ file, content: '', error: fileDiagnostics[0]?.message || 'Could not read file', parsed });
+              continue;
+            }
+            if (source.structured && source.structured.tables.length > 0) {
+              previewData.push({ file, content: source.content, tables: source.structured.tables, parsed });
+              continue;
+            }
+            previewData.push({
+              file,
+              content: source.content.length > 500 ? source.content.substring(0, 500) + '...' : source.content,
+              parsed
+            });
+            continue;
+          } else if (file.type === 'application/pdf') {
             // For PDFs, just show file info
-            content = `[PDF Document: ${file.name}]\n\nThis is a PDF file. Full content will be extracted when processed.`;
-          } else if (file.type.startsWith('text/') || file.name.endsWith('.md') || file.name.endsWith('.json')) {
+            content = `[PDF Document: ${file.name}]\n\nThis is a PDF file. Full content will be extracted when processed; scanned pages are read with OCR.`;
+          } else if (file.type.startsWith('image/') || /\.(png|jpe?g)$/i.test(file.name)) {
+            content = `[Image: ${file.name}]\n\nText in this image will be recognized with OCR on this device when processed.`;
+          } else if (/\.(html?|xhtml|rtf)$/i.test(file.name)) {
+            // Markup is converted to text when processed, so the raw source is not a useful preview
+            content = `[${file.name.split('.').pop()!.toUpperCase()} Document: ${file.name}]\n\nText will be extracted from the markup when processed.`;
+          } else if (file.type.startsWith('text/') || file.name.endsWith('.md')) {
             // For text files, show first 500 characters
             const text = await file.text();
             content = text.length > 500 ? text.substring(0, 500) + '...' : text;
-          } else if (file.name.endsWith('.csv')) {
-            // For CSV, show first few lines
-            const text = await file.text();
-            const lines = text.split('\n').slice(0, 5);
-            content = lines.join('\n') + (lines.length < text.split('\n').length ? '\n...' : '');
           } else {
             // For other formats, show file info
             content = `[${file.type || 'Unknown format'} Document: ${file.name}]\n\nThis document format will be processed when added to the knowledge base.`;
@@ -61,6 +144,8 @@ const FilePreview: React.FC<FilePreviewProps> = ({ files, onConfirm, onCancel })
     generatePreviews();
   }, [files]);
 
+  const ocrSources = processedSources.filter(source => source.pages?.some(page => page.ocrConfidence !== undefined));
+
   const handleConfirm = async () => {
     if (processedSources.length > 0) {
       onConfirm(processedSources);
@@ -69,28 +154,45 @@ const FilePreview: React.FC<FilePreviewProps> = ({ files, onConfirm, onCancel })
       try {
         setShowProgress(true);
         setProgress({ current: 0, total: files.length, message: 'Starting file processing...' });
+        cancelledRef.current = false;
 
-        const sources = await parseFiles(files, (current, total, message) => {
-          setProgress({ current: current + 1, total, message });
+        const parsed = new Map<File, FileParseOutcome>();
+        previews.forEach(preview => {
+          if (preview.parsed) parsed.set(preview.file, preview.parsed);
         });
+        const batch = startParsing(files, {
+          onProgress: (current, total, message) => setProgress({ current, total, message }),
+          onFileProgress: setFileProgress,
+        }, { parsed });
+        batchRef.current = batch;
+        const result = await batch.results;
+        batchRef.current = null;
+        // Nothing to add if the whole batch was cancelled
+        if (cancelledRef.current) return;
 
-        setProcessedSources(sources);
-        onConfirm(sources);
+        setDiagnostics(result.diagnostics);
+        setProcessedSources(result.sources);
+        // Let the user review problems and OCR confidence before adding the sources
+        const needsReview = result.diagnostics.length > 0 ||
+          result.sources.some(source => source.pages?.some(page => page.ocrConfidence !== undefined));
+        if (!needsReview && result.sources.length > 0) {
+          onConfirm(result.sources);
+        }
       } catch (error) {
         console.error('Error processing files:', error);
-        // Still try to create basic sources from previews
-        const basicSources: Source[] = previews.map(preview => ({
-          id: `${preview.file.name}-${preview.file.lastModified}`,
-          name: preview.file.name,
-          content: preview.error || preview.content,
-        }));
-        onConfirm(basicSources);
+        const message = error instanceof Error ? error.message : 'Unknown error occurred';
+        setDiagnostics(files.map(file => ({ severity: 'error', code: 'parse_failed', file: file.name, message })));
       } finally {
         setShowProgress(false);
       }
     }
   };
 
+  const handleCancelAll = () => {
+    cancelledRef.current = true;
+    batchRef.current?.cancelAll();
+  };
+
   return (
     <>
       <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -146,13 +248,50 @@ const FilePreview: React.FC<FilePreviewProps> = ({ files, onConfirm, onCancel })
                     <h3 className="text-md font-semibold text-slate-200">Content Preview</h3>
                     <button
                       onClick={handleConfirm}
-                      disabled={isProcessing || showProgress}
+                      disabled={isProcessing || showProgress || (diagnostics.length > 0 && processedSources.length === 0)}
                       className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       {showProgress ? 'Processing...' : 'Add Files'}
                     </button>
                   </div>
 
+                  {diagnostics.length > 0 && (
+                    <div className="mb-4 space-y-2">
+                      <ParseDiagnosticsList diagnostics={diagnostics} />
+                      <p className="text-xs text-slate-400">
+                        {processedSources.length > 0
+                          ? `Click Add Files again to add the ${processedSources.length} file(s) that were read.`
+                          : 'None of the files could be read.'}
+                      </p>
+                    </div>
+                  )}
+
+                  {ocrSources.length > 0 && (
+                    <div className="mb-4 p-3 border border-amber-500/40 bg-amber-500/10 rounded-lg">
+                      <h4 className="text-sm font-semibold text-amber-300 mb-2">OCR confidence</h4>
+                      <p className="text-xs text-slate-400 mb-2">
+                        Some pages had no text layer and were read with OCR. Review the confidence below, then click Add Files again.
+                      </p>
+                      <div className="space-y-2">
+                        {ocrSources.map(source => (
+                          <div key={source.id}>
+                            <p className="text-xs font-medium text-slate-300">{source.name}</p>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {source.pages!.filter(page => page.ocrConfidence !== undefined).map(page => (
+                                <span
+                                  key={page.pageNumber}
+                                  className={`px-2 py-0.5 rounded text-xs ${confidenceClass(page.ocrConfidence!)}`}
+                                >
+                                  Page {page.pageNumber}: {page.ocrConfidence}%
+                                </span>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="space-y-4">
                     {previews.map((preview, index) => (
                       <div key={index} className="border border-slate-600 rounded-lg overflow-hidden">
@@ -165,6 +304,8 @@ const FilePreview: React.FC<FilePreviewProps> = ({ files, onConfirm, onCancel })
                         <div className="p-3 max-h-40 overflow-y-auto">
                           {preview.error ? (
                             <p className="text-red-400 text-sm">{preview.error}</p>
+                          ) : preview.tables ? (
+                            preview.tables.map((table, i) => <TablePreview key={i} table={table} />)
                           ) : (
                             <pre className="text-xs text-slate-400 whitespace-pre-wrap font-mono">
                               {preview.content}
@@ -186,6 +327,9 @@ const FilePreview: React.FC<FilePreviewProps> = ({ files, onConfirm, onCancel })
           current={progress.current}
           total={progress.total}
           message={progress.message}
+          files={fileProgress}
+          onCancelFile={index => batchRef.current?.cancel(index)}
+          onCancelAll={handleCancelAll}
         />
       )}
     </>
@@ -1,6 +1,13 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Source } from '../types';
 import PlusCircleIcon from './icons/PlusCircleIcon';
+import FilePreview from './FilePreview';
+import DuplicateReview from './DuplicateReview';
+import SourceMetadataEditor from './SourceMetadataEditor';
+import { DuplicateMatch, DuplicateResolution, findDuplicates, resolveDuplicate } from '../services/sourceDedup';
+import { TranslationService, WORKING_LANGUAGE, needsTranslation } from '../services/translationService';
+import { languageName } from '../services/languageDetection';
+import { isAbortError } from '../services/llmProvider';
 
 interface KnowledgePanelProps {
   knowledgeSources: Source[];
@@ -13,6 +20,59 @@ const KnowledgePanel: React.FC<KnowledgePanelProps> = ({
   setKnowledgeSources,
   isLoading,
 }) => {
+  const [pendingFiles, setPendingFiles] = useState<File[] | null>(null);
+  // Uploaded sources that match one already in the knowledge base, awaiting the user's choice
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [translateUploads, setTranslateUploads] = useState(false);
+  const [translatingIds, setTranslatingIds] = useState<string[]>([]);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  // Translations finish long after they start; apply them to the sources as they are then
+  const sourcesRef = useRef(knowledgeSources);
+  sourcesRef.current = knowledgeSources;
+  const translationControllerRef = useRef(new AbortController());
+
+  useEffect(() => () => translationControllerRef.current.abort(), []);
+
+  const translateSources = async (sources: Source[]) => {
+    setTranslationError(null);
+    setTranslatingIds(ids => [...ids, ...sources.map(source => source.id)]);
+    for (const source of sources) {
+      try {
+        const { translation } = await TranslationService.getInstance().translateSource(
+          source, WORKING_LANGUAGE, translationControllerRef.current.signal
+        );
+        setKnowledgeSources(sourcesRef.current.map(candidate => (candidate.id === source.id ? { ...candidate, translation } : candidate)));
+      } catch (error) {
+        if (isAbortError(error, translationControllerRef.current.signal)) return;
+        console.error(`Failed to translate ${source.name}:`, error);
+        setTranslationError(`Could not translate ${source.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        setTranslatingIds(ids => ids.filter(id => id !== source.id));
+      }
+    }
+  };
+
+  const handleConfirmFiles = (sources: Source[]) => {
+    setPendingFiles(null);
+    const { unique, duplicates: found } = findDuplicates(sources, knowledgeSources);
+    if (unique.length > 0) setKnowledgeSources([...knowledgeSources, ...unique]);
+    setDuplicates(found);
+    if (translateUploads) {
+      const foreign = unique.filter(source => needsTranslation(source));
+      if (foreign.length > 0) translateSources(foreign);
+    }
+  };
+
+  const handleResolveDuplicate = (match: DuplicateMatch, resolution: DuplicateResolution) => {
+    setKnowledgeSources(resolveDuplicate(knowledgeSources, match, resolution));
+    setDuplicates(duplicates.filter(candidate => candidate !== match));
+  };
+
+  const handleSaveMetadata = (updated: Source) => {
+    setKnowledgeSources(knowledgeSources.map(source => (source.id === updated.id ? updated : source)));
+  };
+
   return (
     <div className="p-4 flex-grow">
       <h3 className="text-lg font-bold text-slate-100 mb-4">Knowledge Base</h3>
@@ -30,56 +90,105 @@ const KnowledgePanel: React.FC<KnowledgePanelProps> = ({
             type="file"
             multiple
             className="hidden"
-            onChange={(e) =>
-              e.target.files &&
-              setKnowledgeSources([
-                ...knowledgeSources,
-                ...Array.from(e.target.files).map((file) => ({
-                  id: file.name,
-                  name: file.name,
-                  content: '',
-                })),
-              ])
-            }
-            accept=".txt,.md,.pdf,.docx,.xlsx,.csv,.json"
+            onChange={(e) => {
+              if (e.target.files?.length) setPendingFiles(Array.from(e.target.files));
+              e.target.value = '';
+            }}
+            accept=".txt,.md,.pdf,.docx,.xlsx,.csv,.json,.png,.jpg,.jpeg,.html,.htm,.xhtml,.epub,.rtf,.odt,.srt,.vtt,.zip"
             disabled={isLoading}
           />
+          <label className="mt-2 cursor-pointer font-semibold text-indigo-400 hover:text-indigo-300 text-xs block text-center">
+            Or add a whole folder
+            <input
+              type="file"
+              multiple
+              className="hidden"
+              // webkitdirectory is not in React's input attribute types
+              ref={(input) => input?.setAttribute('webkitdirectory', '')}
+              onChange={(e) => {
+                // Subfolders, archives and unsupported files are sorted out by expandUploads when parsing
+                if (e.target.files?.length) setPendingFiles(Array.from(e.target.files));
+                e.target.value = '';
+              }}
+              disabled={isLoading}
+            />
+          </label>
+          <label className="flex items-center gap-2 mt-2 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={translateUploads}
+              onChange={e => setTranslateUploads(e.target.checked)}
+            />
+            Translate files that are not in {languageName(WORKING_LANGUAGE)} (originals are kept for quoting)
+          </label>
         </div>
+        {translationError && <p className="text-xs text-red-400">{translationError}</p>}
+        {duplicates.length > 0 && (
+          <DuplicateReview duplicates={duplicates} onResolve={handleResolveDuplicate} />
+        )}
         <div className="space-y-2">
           {knowledgeSources.map((source) => (
-            <div
-              key={source.id}
-              className="flex items-center justify-between bg-slate-700/50 p-2 rounded-md"
-            >
-              <span className="text-sm text-slate-300 truncate">
-                {source.name}
-              </span>
-              <button
-                onClick={() =>
-                  setKnowledgeSources(
-                    knowledgeSources.filter((s) => s.id !== source.id)
-                  )
-                }
-                className="text-slate-500 hover:text-red-400"
-              >
-                <svg
-                  className="w-4 h-4"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+            <div key={source.id} className="space-y-1">
+              <div className="flex items-center justify-between bg-slate-700/50 p-2 rounded-md">
+                <button
+                  onClick={() => setEditingId(editingId === source.id ? null : source.id)}
+                  className="text-sm text-slate-300 truncate text-left hover:text-slate-100"
+                  title={`${source.path || source.name} — click to edit details`}
+                >
+                  {source.path || source.name}
+                  {source.parseWarnings && source.parseWarnings.length > 0 && (
+                    <span className="ml-1 text-yellow-500" aria-label="Has parse warnings">⚠</span>
+                  )}
+                  {source.language && (
+                    <span className="ml-1 text-xs text-slate-500">
+                      {source.language}{source.translation && ` → ${source.translation.language}`}
+                      {translatingIds.includes(source.id) && ' (translating…)'}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() =>
+                    setKnowledgeSources(
+                      knowledgeSources.filter((s) => s.id !== source.id)
+                    )
+                  }
+                  className="text-slate-500 hover:text-red-400"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth="2"
-                    d="M6 18L18 6M6 6l12 12"
-                  ></path>
-                </svg>
-              </button>
+                  <svg
+                    className="w-4 h-4"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M6 18L18 6M6 6l12 12"
+                    ></path>
+                  </svg>
+                </button>
+              </div>
+              {editingId === source.id && (
+                <SourceMetadataEditor
+                  source={source}
+                  onSave={handleSaveMetadata}
+                  onTranslate={() => translateSources([source])}
+                  isTranslating={translatingIds.includes(source.id)}
+                  onClose={() => setEditingId(null)}
+                />
+              )}
             </div>
           ))}
         </div>
       </div>
+      {pendingFiles && (
+        <FilePreview
+          files={pendingFiles}
+          onConfirm={handleConfirmFiles}
+          onCancel={() => setPendingFiles(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,29 @@
+import React from 'react';
+import { ParseDiagnostic } from '../services/fileParser';
+
+interface ParseDiagnosticsListProps {
+  diagnostics: ParseDiagnostic[];
+}
+
+const ParseDiagnosticsList: React.FC<ParseDiagnosticsListProps> = ({ diagnostics }) => {
+  if (diagnostics.length === 0) return null;
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+
+  return (
+    <div className="p-3 bg-slate-900/60 border border-slate-700 rounded-md text-xs">
+      <p className="font-semibold text-slate-300 mb-1">
+        {errors > 0 ? `${errors} file(s) could not be added` : 'Some files need attention'}
+      </p>
+      <ul className="space-y-1 max-h-40 overflow-y-auto">
+        {diagnostics.map((diagnostic, i) => (
+          <li key={i} className={diagnostic.severity === 'error' ? 'text-red-400' : 'text-yellow-500'}>
+            <span className="font-semibold">{diagnostic.file}</span>
+            {diagnostic.page !== undefined && ` (page ${diagnostic.page})`}: {diagnostic.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ParseDiagnosticsList;
@@ -4,12 +4,15 @@ import CloseIcon from './icons/CloseIcon';
 import PlusCircleIcon from './icons/PlusCircleIcon';
 import TrashIcon from './icons/TrashIcon';
 import SparkleIcon from './icons/SparkleIcon';
-import { parseFiles } from '../services/fileParser';
+import { ParseDiagnostic, parseFiles } from '../services/fileParser';
 import { PersonaCalibrationService } from '../services/personaCalibrationService';
 import { PersonaSynthesisService } from '../services/personaSynthesisService';
 import { DocumentPersonaExtractor, ExtractedPersonaInfo } from '../services/documentPersonaExtractor';
 import { AnalyticsService } from '../services/analyticsService';
 import PersonaWeightsControl from './PersonaWeightsControl';
+import ConversationImport from './ConversationImport';
+import ParseDiagnosticsList from './ParseDiagnosticsList';
+import { listSpeakers } from '../services/transcriptParser';
 
 interface PersonaManagerProps {
   personas: Persona[];
@@ -26,6 +29,11 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
   const [isAutoGenerating, setIsAutoGenerating] = useState(false);
   const [isExtractingInfo, setIsExtractingInfo] = useState(false);
   const [isWeightsControlOpen, setIsWeightsControlOpen] = useState(false);
+  const [conversationFiles, setConversationFiles] = useState<File[] | null>(null);
+  // Transcript speaker to extract persona details from; '' uses everything
+  const [extractionSpeaker, setExtractionSpeaker] = useState('');
+  // What the last shaper upload skipped or failed to parse
+  const [shaperDiagnostics, setShaperDiagnostics] = useState<ParseDiagnostic[]>([]);
   const calibrationService = PersonaCalibrationService.getInstance();
   const synthesisService = PersonaSynthesisService.getInstance();
   const personaExtractor = DocumentPersonaExtractor.getInstance();
@@ -128,7 +136,10 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
     setIsExtractingInfo(true);
     try {
       // Extract persona information from the documents
-      const extractedInfo: ExtractedPersonaInfo = await personaExtractor.extractPersonaInfoFromDocuments(personaSources);
+      const extractedInfo: ExtractedPersonaInfo = await personaExtractor.extractPersonaInfoFromDocuments(
+        personaSources,
+        extractionSpeaker || undefined
+      );
       
       // Update the persona with extracted information
       const updatedPersona = {
@@ -191,7 +202,8 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
   
   const handleAddShaperFiles = async (files: FileList) => {
     if (!selectedPersona) return;
-    const newSources = await parseFiles(files);
+    const { sources: newSources, diagnostics } = await parseFiles(files);
+    setShaperDiagnostics(diagnostics);
     const currentIds = new Set(selectedPersona.shaperSources.map(s => s.id));
     const uniqueNewSources = newSources.filter(s => !currentIds.has(s.id));
     const updatedPersona = {
@@ -201,6 +213,21 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
     handleUpdateSelectedPersona(updatedPersona);
   };
   
+  const handleAddConversationSources = (sources: Source[]) => {
+    if (!selectedPersona) return;
+    const currentIds = new Set(selectedPersona.shaperSources.map(s => s.id));
+    handleUpdateSelectedPersona({
+      ...selectedPersona,
+      shaperSources: [...selectedPersona.shaperSources, ...sources.filter(s => !currentIds.has(s.id))]
+    });
+    setConversationFiles(null);
+  };
+
+  const handleCreatePersonaFromConversations = async (sources: Source[]) => {
+    setConversationFiles(null);
+    await handleCreatePersonaFromSources(sources);
+  };
+
   const handleRemoveShaperFile = (sourceId: string) => {
     if (!selectedPersona) return;
     const updatedPersona = {
@@ -215,11 +242,13 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
       const updatedPersonas = personas.map(p => 
         p.id === activePersonaId ? selectedPersona : p
       );
+      // App persists personas to IndexedDB whenever they change
       setPersonas(updatedPersonas);
-      localStorage.setItem('personas', JSON.stringify(updatedPersonas));
     }
   };
 
+  const transcriptSpeakers = selectedPersona ? listSpeakers(selectedPersona.shaperSources) : [];
+
   return (
     <div
       className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
@@ -259,6 +288,19 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
                   </button>
                 )}
               </div>
+              <label className="mb-4 cursor-pointer block text-center text-sm font-semibold text-indigo-400 hover:text-indigo-300 p-2 border border-dashed border-slate-600 rounded-md hover:border-indigo-500 transition-colors">
+                Import Email / Chat Messages
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files?.length) setConversationFiles(Array.from(e.target.files));
+                    e.target.value = '';
+                  }}
+                  accept=".eml,.mbox,.json,.txt"
+                />
+              </label>
               
               {/* Update with new sources button */}
               {selectedPersona && knowledgeSources.length > 0 && (
@@ -306,6 +348,15 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
 
           {/* Persona Editor */}
           <div className="w-2/3 flex-grow overflow-y-auto p-6 space-y-6">
+            {conversationFiles && (
+              <ConversationImport
+                files={conversationFiles}
+                personaName={selectedPersona ? `${selectedPersona.name} ${selectedPersona.surname}`.trim() : undefined}
+                onAddToPersona={handleAddConversationSources}
+                onCreatePersona={handleCreatePersonaFromConversations}
+                onCancel={() => setConversationFiles(null)}
+              />
+            )}
             {selectedPersona ? (
               <>
                 <div className="grid grid-cols-2 gap-4">
@@ -341,13 +392,28 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
                   <div className="flex justify-between items-center mb-1">
                     <label className="block text-sm font-medium text-slate-300">Biography / Core Principles</label>
                     {selectedPersona.shaperSources.length > 0 && (
-                      <button
-                        onClick={handleExtractPersonaInfo}
-                        disabled={isExtractingInfo}
-                        className="text-xs bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded disabled:opacity-50"
-                      >
-                        {isExtractingInfo ? 'Extracting...' : 'Auto-Fill from Docs'}
-                      </button>
+                      <div className="flex items-center gap-2">
+                        {transcriptSpeakers.length > 0 && (
+                          <select
+                            value={extractionSpeaker}
+                            onChange={e => setExtractionSpeaker(e.target.value)}
+                            className="text-xs p-1 bg-slate-900 border border-slate-600 rounded"
+                            title="Only use this speaker's turns from transcripts"
+                          >
+                            <option value="">All speakers</option>
+                            {transcriptSpeakers.map(speaker => (
+                              <option key={speaker} value={speaker}>{speaker}</option>
+                            ))}
+                          </select>
+                        )}
+                        <button
+                          onClick={handleExtractPersonaInfo}
+                          disabled={isExtractingInfo}
+                          className="text-xs bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded disabled:opacity-50"
+                        >
+                          {isExtractingInfo ? 'Extracting...' : 'Auto-Fill from Docs'}
+                        </button>
+                      </div>
                     )}
                   </div>
                   <textarea 
@@ -356,9 +422,9 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
                     className="w-full h-32 p-2 bg-slate-900 border border-slate-600 rounded-md text-sm resize-y" 
                     placeholder="A detailed description of this persona's background, expertise, and worldview."
                   />
-                  {selectedPersona.shaperSources.some(source => source.content.includes('scanned image')) && (
+                  {selectedPersona.shaperSources.some(source => source.pages?.some(page => page.ocrConfidence !== undefined)) && (
                     <p className="text-xs text-yellow-500 mt-1">
-                      Note: Some documents appear to be scanned images without selectable text. Information extraction may be limited.
+                      Note: Some documents are scanned images read with OCR. Information extraction may be less accurate.
                     </p>
                   )}
                 </div>
@@ -371,14 +437,33 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
                       multiple 
                       className="hidden" 
                       onChange={(e) => e.target.files && handleAddShaperFiles(e.target.files)} 
-                      accept=".txt,.md,.pdf,.docx,.xlsx,.csv,.json" 
+                      accept=".txt,.md,.pdf,.docx,.xlsx,.csv,.json,.png,.jpg,.jpeg,.html,.htm,.xhtml,.epub,.rtf,.odt,.srt,.vtt,.zip" 
                     />
                   </label>
+                  <label className="mt-2 cursor-pointer font-semibold text-indigo-400 hover:text-indigo-300 text-xs block text-center">
+                    Or add a whole folder
+                    <input
+                      type="file"
+                      multiple
+                      className="hidden"
+                      // webkitdirectory is not in React's input attribute types
+                      ref={(input) => input?.setAttribute('webkitdirectory', '')}
+                      onChange={(e) => {
+                        if (e.target.files?.length) handleAddShaperFiles(e.target.files);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  {shaperDiagnostics.length > 0 && (
+                    <div className="mt-2">
+                      <ParseDiagnosticsList diagnostics={shaperDiagnostics} />
+                    </div>
+                  )}
                   {selectedPersona.shaperSources.length > 0 && (
                     <div className="mt-4 space-y-2 max-h-40 overflow-y-auto">
                       {selectedPersona.shaperSources.map(source => (
                         <div key={source.id} className="flex items-center justify-between bg-slate-900/70 p-2 rounded-md text-sm">
-                          <span className="text-slate-300 truncate">{source.name}</span>
+                          <span className="text-slate-300 truncate" title={source.path || source.name}>{source.path || source.name}</span>
                           <button 
                             onClick={() => handleRemoveShaperFile(source.id)} 
                             className="p-1 text-slate-500 hover:text-red-400"
@@ -431,7 +516,7 @@ const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, setPersonas,
                   </div>
                 </div>
               </>
-            ) : (
+            ) : !conversationFiles && (
               <div className="flex items-center justify-center h-full text-slate-500">
                 <p>Select a persona on the left, or create a new one.</p>
               </div>
@@ -1,12 +1,25 @@
 import React from 'react';
+import { FileParseProgress } from '../services/fileParser';
 
 interface ProgressIndicatorProps {
   current: number;
   total: number;
   message: string;
+  // Per-file status, shown when parsing several files at once
+  files?: FileParseProgress[];
+  onCancelFile?: (index: number) => void;
+  onCancelAll?: () => void;
 }
 
-const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ current, total, message }) => {
+const STATUS_LABELS: Record<FileParseProgress['status'], string> = {
+  queued: 'Queued',
+  parsing: 'Parsing',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ current, total, message, files, onCancelFile, onCancelAll }) => {
   const percentage = total > 0 ? (current / total) * 100 : 0;
 
   return (
@@ -34,9 +47,55 @@ const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ current, total, m
           </div>
         </div>
 
+        {files && files.length > 1 && (
+          <ul className="mb-4 max-h-60 overflow-y-auto space-y-2">
+            {files.map((file, index) => {
+              const active = file.status === 'queued' || file.status === 'parsing';
+              return (
+                <li key={index} className="text-xs">
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="truncate text-slate-300" title={file.name}>{file.name}</span>
+                    <span className="flex items-center gap-2 flex-shrink-0">
+                      <span className={file.status === 'error' ? 'text-red-400' : 'text-slate-500'}>
+                        {STATUS_LABELS[file.status]}
+                      </span>
+                      {onCancelFile && active && (
+                        <button
+                          onClick={() => onCancelFile(index)}
+                          className="text-slate-400 hover:text-red-400"
+                          aria-label={`Cancel ${file.name}`}
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                  <div className="w-full bg-slate-700 rounded-full h-1 mt-1">
+                    <div
+                      className="bg-indigo-500 h-1 rounded-full transition-all duration-300 ease-out"
+                      style={{ width: `${file.fraction * 100}%` }}
+                    ></div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
         <div className="text-xs text-slate-400 text-center">
           Please wait while your files are being processed...
         </div>
+
+        {onCancelAll && (
+          <div className="text-center mt-3">
+            <button
+              onClick={onCancelAll}
+              className="px-3 py-1 text-sm text-slate-300 border border-slate-600 rounded-md hover:bg-slate-700"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import CloseIcon from './icons/CloseIcon';
+import {
+  LLMProviderService,
+  LLMProviderConfig,
+  LLMProviderKind,
+  DEFAULT_PROVIDER_CONFIGS,
+  fetchAllowedModels
+} from '../services/llmProvider';
+
+interface ProviderSettingsProps {
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<LLMProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible endpoint',
+  ollama: 'Local model (Ollama via LiteLLM)',
+  fake: 'Deterministic fake (testing)'
+};
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ onClose }) => {
+  const providerService = LLMProviderService.getInstance();
+  const [config, setConfig] = useState<LLMProviderConfig>(providerService.getConfig());
+  // Models enabled on the backend; until they load (or if it is unreachable) only the current one is offered
+  const [allowedModels, setAllowedModels] = useState<Partial<Record<LLMProviderKind, string[]>>>({});
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchAllowedModels(controller.signal)
+      .then(setAllowedModels)
+      .catch(error => {
+        if (!controller.signal.aborted) console.error('Failed to load the enabled models:', error);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const modelOptions = Array.from(new Set([config.model, ...(allowedModels[config.kind] || [])]));
+
+  const handleKindChange = (kind: LLMProviderKind) => {
+    setConfig({ ...DEFAULT_PROVIDER_CONFIGS[kind] });
+  };
+
+  const updateField = (field: keyof LLMProviderConfig, value: string) => {
+    setConfig({ ...config, [field]: value || undefined });
+  };
+
+  const handleSave = () => {
+    providerService.setConfig(config);
+    onClose();
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl w-full max-w-lg">
+        <header className="flex items-center justify-between p-4 border-b border-slate-700">
+          <h2 className="text-lg font-bold text-slate-100">Model Provider</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full text-slate-400 hover:bg-slate-700 hover:text-slate-100"
+            aria-label="Close"
+          >
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </header>
+
+        <main className="p-6 space-y-4">
+          <div>
+            <label htmlFor="provider-kind" className="block text-sm font-medium text-slate-300 mb-1">Provider</label>
+            <select
+              id="provider-kind"
+              value={config.kind}
+              onChange={(e) => handleKindChange(e.target.value as LLMProviderKind)}
+              className={inputClass}
+            >
+              {(Object.keys(PROVIDER_LABELS) as LLMProviderKind[]).map(kind => (
+                <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="provider-model" className="block text-sm font-medium text-slate-300 mb-1">Model</label>
+            <select
+              id="provider-model"
+              value={config.model}
+              onChange={(e) => updateField('model', e.target.value)}
+              className={inputClass}
+            >
+              {modelOptions.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+          </div>
+
+          {config.kind === 'gemini' && (
+            <div>
+              <label htmlFor="provider-embedding-model" className="block text-sm font-medium text-slate-300 mb-1">Embedding model</label>
+              <input
+                id="provider-embedding-model"
+                value={config.embeddingModel || ''}
+                onChange={(e) => updateField('embeddingModel', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          <p className="text-xs text-slate-400">
+            The selected provider is stored with this workspace and used by every generation, embedding and analysis call.
+            API keys, endpoint URLs and the models on offer are configured on the server (<code>.env</code>) and never stored in the browser.
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-md hover:bg-indigo-700 transition-colors text-sm"
+            >
+              Save
+            </button>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettings;
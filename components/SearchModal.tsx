@@ -11,6 +11,18 @@ const SearchIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   </svg>
 );
 
+// Search marks matched words as **word**; split on the markers rather than
+// injecting HTML so source text is never interpreted as markup
+const HighlightedText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split('**').map((part, index) =>
+      index % 2 === 1
+        ? <mark key={index} className="bg-indigo-500/30 text-slate-200 rounded px-0.5">{part}</mark>
+        : <React.Fragment key={index}>{part}</React.Fragment>
+    )}
+  </>
+);
+
 interface SearchModalProps {
   personas: Persona[];
   knowledgeSources: Source[];
@@ -23,6 +35,7 @@ const SearchModal: React.FC<SearchModalProps> = ({ personas, knowledgeSources, o
   const [results, setResults] = useState<SearchResult[]>([]);
   const [filters, setFilters] = useState<SearchFilters>({ type: 'all' });
   const [isSearching, setIsSearching] = useState(false);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
 
   const searchService = useMemo(() => SearchService.getInstance(), []);
 
@@ -30,16 +43,20 @@ const SearchModal: React.FC<SearchModalProps> = ({ personas, knowledgeSources, o
     const performSearch = async () => {
       if (!query.trim()) {
         setResults([]);
+        setSuggestion(null);
         return;
       }
 
       setIsSearching(true);
       try {
+        await searchService.loaded;
         const searchResults = searchService.search(query, personas, knowledgeSources, filters);
         setResults(searchResults);
+        setSuggestion(searchService.suggest(query, personas, knowledgeSources));
       } catch (error) {
         console.error('Search error:', error);
         setResults([]);
+        setSuggestion(null);
       } finally {
         setIsSearching(false);
       }
@@ -111,11 +128,32 @@ const SearchModal: React.FC<SearchModalProps> = ({ personas, knowledgeSources, o
               <option value="sources">Knowledge Sources</option>
               <option value="content">Content</option>
             </select>
+
+            <select
+              value={String(filters.fuzziness ?? 'auto')}
+              onChange={(e) => setFilters({ ...filters, fuzziness: e.target.value === 'auto' ? 'auto' : Number(e.target.value) })}
+              className="px-3 py-2 bg-slate-900 border border-slate-600 rounded-md text-slate-300 text-sm"
+              title="How many typos a search word may contain"
+            >
+              <option value="auto">Typos: auto</option>
+              <option value="0">Exact words</option>
+              <option value="1">Up to 1 typo</option>
+              <option value="2">Up to 2 typos</option>
+            </select>
           </div>
 
           {query && (
             <div className="mt-2 text-sm text-slate-400">
               {isSearching ? 'Searching...' : `${results.length} results found`}
+              {!isSearching && suggestion && (
+                <>
+                  {' · Did you mean '}
+                  <button onClick={() => setQuery(suggestion)} className="text-indigo-400 hover:text-indigo-300 underline">
+                    {suggestion}
+                  </button>
+                  ?
+                </>
+              )}
             </div>
           )}
         </div>
@@ -126,6 +164,9 @@ const SearchModal: React.FC<SearchModalProps> = ({ personas, knowledgeSources, o
               <SearchIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
               <p>Enter a search term to find personas, documents, or content</p>
               <p className="text-xs mt-2">Search across names, roles, biographies, and document content</p>
+              <p className="text-xs mt-4 font-mono">
+                "exact phrase" · climate OR energy · -draft · persona:Ada · source:report · role:economist · tag:policy · after:2020 · before:2023-06 · date:2021
+              </p>
             </div>
           ) : isSearching ? (
             <div className="text-center text-slate-500 py-8">
@@ -167,8 +208,13 @@ const SearchModal: React.FC<SearchModalProps> = ({ personas, knowledgeSources, o
                   </p>
 
                   {result.matches.length > 0 && (
-                    <div className="text-xs text-slate-500">
-                      Matches in: {result.matches.map(m => m.field).join(', ')}
+                    <div className="space-y-1 text-xs text-slate-500">
+                      {result.matches.map(match => (
+                        <p key={match.field} className="line-clamp-2">
+                          <span className="font-medium text-slate-400">{match.field}:</span>{' '}
+                          <HighlightedText text={match.highlighted} />
+                        </p>
+                      ))}
                     </div>
                   )}
                 </div>
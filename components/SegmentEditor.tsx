@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Persona, Source } from '../types';
 import { DocumentEditingService, EditSegmentResult } from '../services/documentEditingService';
+import { isAbortError } from '../services/llmProvider';
 
 interface SegmentEditorProps {
   document: string;
@@ -26,6 +27,7 @@ const SegmentEditor: React.FC<SegmentEditorProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [rating, setRating] = useState<number>(0);
   const [feedback, setFeedback] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const documentEditingService = DocumentEditingService.getInstance();
 
@@ -33,6 +35,9 @@ const SegmentEditor: React.FC<SegmentEditorProps> = ({
     setEditedSegment(selectedSegment);
   }, [selectedSegment]);
 
+  // Abandon an in-flight edit when the editor is closed
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const handleEdit = async () => {
     if (!instruction.trim()) {
       setError('Please provide an instruction for the edit');
@@ -42,25 +47,36 @@ const SegmentEditor: React.FC<SegmentEditorProps> = ({
     setIsEditing(true);
     setError(null);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       const result = await documentEditingService.editSegment({
         document,
         segment: selectedSegment,
         instruction: instruction.trim(),
         persona,
-        knowledgeSources
+        knowledgeSources,
+        signal: controller.signal
       });
 
       setEditedSegment(result.editedSegment);
       setEditResult(result);
     } catch (err) {
-      setError('Failed to edit segment. Please try again.');
-      console.error(err);
+      if (!isAbortError(err, controller.signal)) {
+        setError('Failed to edit segment. Please try again.');
+        console.error(err);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsEditing(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleApply = () => {
     onEditComplete(editedSegment);
   };
@@ -132,6 +148,14 @@ const SegmentEditor: React.FC<SegmentEditorProps> = ({
           >
             {isEditing ? 'Editing...' : 'Edit Segment'}
           </button>
+          {isEditing && (
+            <button
+              onClick={handleStop}
+              className="ml-2 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+            >
+              Stop
+            </button>
+          )}
         </div>
         
         {error && (
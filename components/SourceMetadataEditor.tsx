@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Source } from '../types';
+import { WORKING_LANGUAGE, needsTranslation } from '../services/translationService';
+import { languageName } from '../services/languageDetection';
+
+interface SourceMetadataEditorProps {
+  source: Source;
+  onSave: (source: Source) => void;
+  // Store a translated working copy next to the original content
+  onTranslate?: () => void;
+  isTranslating?: boolean;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+const SourceMetadataEditor: React.FC<SourceMetadataEditorProps> = ({ source, onSave, onTranslate, isTranslating, onClose }) => {
+  const [author, setAuthor] = useState(source.author || '');
+  const [publishedAt, setPublishedAt] = useState(source.publishedAt || '');
+  const [language, setLanguage] = useState(source.language || '');
+  const [tags, setTags] = useState((source.tags || []).join(', '));
+
+  const handleSave = () => {
+    const { author: _author, publishedAt: _publishedAt, language: _language, tags: _tags, ...rest } = source;
+    const tagList = parseTags(tags);
+    // Blank fields are removed from the source rather than stored as empty strings
+    onSave({
+      ...rest,
+      ...(author.trim() ? { author: author.trim() } : {}),
+      ...(publishedAt ? { publishedAt } : {}),
+      ...(language.trim() ? { language: language.trim() } : {}),
+      ...(tagList.length > 0 ? { tags: tagList } : {}),
+    });
+    onClose();
+  };
+
+  const handleRemoveTranslation = () => {
+    const { translation: _translation, ...rest } = source;
+    onSave(rest);
+  };
+
+  const details = [
+    source.mimeType && `Type: ${source.mimeType}`,
+    source.size !== undefined && `Size: ${formatSize(source.size)}`,
+    source.pages && `${source.pages.length} page(s)`,
+    source.sections && `${source.sections.length} section(s)`,
+    source.ingestedAt && `Added ${new Date(source.ingestedAt).toLocaleString()}`,
+  ].filter(Boolean);
+
+  const inputClass = 'w-full p-1 bg-slate-900 border border-slate-600 rounded text-xs text-slate-200';
+
+  return (
+    <div className="p-2 bg-slate-900/60 border border-slate-700 rounded-md space-y-2 text-xs">
+      {details.length > 0 && <p className="text-slate-500">{details.join(' · ')}</p>}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-slate-400">
+          Author
+          <input value={author} onChange={e => setAuthor(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-slate-400">
+          Published
+          <input type="date" value={publishedAt} onChange={e => setPublishedAt(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-slate-400">
+          Language
+          <input value={language} onChange={e => setLanguage(e.target.value)} placeholder="e.g. en, de" className={inputClass} />
+        </label>
+        <label className="text-slate-400">
+          Tags
+          <input value={tags} onChange={e => setTags(e.target.value)} placeholder="comma, separated" className={inputClass} />
+        </label>
+      </div>
+      {source.translation ? (
+        <p className="text-slate-500">
+          Processed in {languageName(source.translation.language)} from a translation made{' '}
+          {new Date(source.translation.translatedAt).toLocaleString()}; quotes use the original.{' '}
+          <button onClick={handleRemoveTranslation} className="text-slate-400 underline hover:text-slate-200">
+            Remove translation
+          </button>
+        </p>
+      ) : (
+        onTranslate && needsTranslation(source) && (
+          <button
+            onClick={onTranslate}
+            disabled={isTranslating}
+            className="text-slate-400 underline hover:text-slate-200 disabled:opacity-50"
+          >
+            {isTranslating ? 'Translating…' : `Create ${languageName(WORKING_LANGUAGE)} working copy`}
+          </button>
+        )
+      )}
+      {source.parseWarnings && source.parseWarnings.length > 0 && (
+        <ul className="text-yellow-500 list-disc list-inside">
+          {source.parseWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+        </ul>
+      )}
+      <div className="flex gap-2 justify-end">
+        <button onClick={onClose} className="px-2 py-0.5 text-slate-400 hover:text-slate-200">Cancel</button>
+        <button onClick={handleSave} className="px-2 py-0.5 bg-indigo-600 text-white rounded hover:bg-indigo-700">Save</button>
+      </div>
+    </div>
+  );
+};
+
+export default SourceMetadataEditor;
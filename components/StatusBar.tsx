@@ -1,5 +1,6 @@
 import React from 'react';
 import { Persona, Source } from '../types';
+import { ContextPackReport, describeContextReport } from '../services/contextPacker';
 
 interface StatusBarProps {
   activePersona: Persona | null;
@@ -9,6 +10,8 @@ interface StatusBarProps {
   isCheckingQuality: boolean;
   isAskingQuestion?: boolean;
   generatedContent: string;
+  contextReport?: ContextPackReport | null;
+  onStop?: () => void;
 }
 
 const StatusBar: React.FC<StatusBarProps> = ({
@@ -18,7 +21,9 @@ const StatusBar: React.FC<StatusBarProps> = ({
   isRefining,
   isCheckingQuality,
   isAskingQuestion = false,
-  generatedContent
+  generatedContent,
+  contextReport = null,
+  onStop
 }) => {
   const getStatusMessage = () => {
     if (isLoading) return 'Generating document...';
@@ -46,8 +51,16 @@ const StatusBar: React.FC<StatusBarProps> = ({
 
   return (
     <div className="border-t border-slate-700 bg-slate-900/50 px-4 py-2 flex items-center justify-between text-xs">
-      <div className={`font-medium ${getStatusColor()}`}>
+      <div className={`font-medium flex items-center gap-3 ${getStatusColor()}`}>
         {getStatusMessage()}
+        {(isLoading || isRefining || isCheckingQuality || isAskingQuestion) && onStop && (
+          <button
+            onClick={onStop}
+            className="px-2 py-0.5 bg-red-600 text-white rounded hover:bg-red-700"
+          >
+            Stop
+          </button>
+        )}
       </div>
 
       <div className="flex items-center gap-4 text-slate-500">
@@ -55,6 +68,16 @@ const StatusBar: React.FC<StatusBarProps> = ({
           <span>Active: {activePersona.name} {activePersona.surname}</span>
         )}
         <span>{stats.sources} sources</span>
+        {contextReport && (
+          <span
+            title={contextReport.sources
+              .filter(s => s.status !== 'full')
+              .map(s => `${s.name}: ${s.status}`)
+              .join('\n') || 'All sources included in full'}
+          >
+            Context {describeContextReport(contextReport)}
+          </span>
+        )}
         {generatedContent && <span>{stats.words} words</span>}
         <span className="text-slate-600">
           {new Date().toLocaleTimeString()}
@@ -1,17 +1,7 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Source } from '../types';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
-
-// Use the newer embedding model
-const embeddingModel = genAI.getGenerativeModel({
-  model: "gemini-embedding-001"
-});
-
-// Use the more capable model for generation
-const generationModel = genAI.getGenerativeModel({
-  model: "gemini-2.0-flash"
-});
+import { LLMProviderService } from './llmProvider';
+import { packContext, DEFAULT_CONTEXT_BUDGET } from './contextPacker';
+import { PersistedService, clearStateStore, loadStateInto, putStateEntries } from './db';
 
 export interface DocumentEmbedding {
   sourceId: string;
@@ -30,12 +20,14 @@ export interface SemanticSearchResult {
   metadata: DocumentEmbedding['metadata'];
 }
 
-export class AdvancedGeminiIntegrationService {
+export class AdvancedGeminiIntegrationService implements PersistedService {
   private static instance: AdvancedGeminiIntegrationService;
   private documentEmbeddings: Map<string, DocumentEmbedding[]> = new Map();
 
+  readonly loaded: Promise<void>;
+
   private constructor() {
-    this.loadEmbeddings();
+    this.loaded = loadStateInto('embeddings', this.documentEmbeddings);
   }
 
   static getInstance(): AdvancedGeminiIntegrationService {
@@ -55,6 +47,8 @@ export class AdvancedGeminiIntegrationService {
       return existing;
     }
 
+    const llm = LLMProviderService.getInstance().getProvider();
+
     // Split document into chunks (simplified for this example)
     const chunks = this.chunkDocument(source.content, 1000);
     
@@ -63,10 +57,9 @@ export class AdvancedGeminiIntegrationService {
     // Generate embedding for each chunk
     for (let i = 0; i < chunks.length; i++) {
       try {
-        const result = await embeddingModel.embedContent(chunks[i]);
         const embeddingData: DocumentEmbedding = {
           sourceId: source.id,
-          embeddings: result.embedding.values,
+          embeddings: await llm.embed(chunks[i]),
           metadata: {
             title: source.name,
             chunkIndex: i,
@@ -91,8 +84,7 @@ export class AdvancedGeminiIntegrationService {
    */
   async semanticSearch(query: string, sources: Source[], topK: number = 5): Promise<SemanticSearchResult[]> {
     // Generate embedding for the query
-    const queryEmbedding = await embeddingModel.embedContent(query);
-    const queryVector = queryEmbedding.embedding.values;
+    const queryVector = await LLMProviderService.getInstance().getProvider().embed(query);
     
     // Collect all document embeddings
     const allEmbeddings: DocumentEmbedding[] = [];
@@ -142,14 +134,24 @@ export class AdvancedGeminiIntegrationService {
   async generateWithRAG(
     query: string,
     sources: Source[],
-    personaContext?: string
+    personaContext?: string,
+    budgetTokens: number = DEFAULT_CONTEXT_BUDGET
   ): Promise<string> {
     // First, perform semantic search to retrieve relevant context
-    const searchResults = await this.semanticSearch(query, sources, 3);
-    
-    // Build context from search results
-    const context = searchResults.map(result => 
-      `Source: ${result.metadata.title}\nContent: ${result.content}`
+    const searchResults = await this.semanticSearch(query, sources, 10);
+    
+    // Keep as many of the retrieved chunks as the budget allows
+    const packed = packContext(
+      searchResults.map(result => ({
+        id: `${result.sourceId}#${result.metadata.chunkIndex}`,
+        name: result.metadata.title,
+        content: result.content
+      })),
+      query,
+      { budgetTokens }
+    );
+    const context = packed.sources.map(chunk => 
+      `Source: ${chunk.name}\nContent: ${chunk.content}`
     ).join('\n\n');
     
     // Generate response using the context
@@ -166,8 +168,7 @@ Please provide a comprehensive answer that references the relevant documents:
 `;
 
     try {
-      const result = await generationModel.generateContent(prompt);
-      return result.response.text();
+      return await LLMProviderService.getInstance().getProvider().generate(prompt);
     } catch (error) {
       console.error('Failed to generate content with RAG:', error);
       throw new Error('Failed to generate content with RAG');
@@ -219,29 +220,15 @@ Please provide a comprehensive answer that references the relevant documents:
   }
 
   private saveEmbeddings() {
-    try {
-      const data = JSON.stringify(Array.from(this.documentEmbeddings.entries()));
-      localStorage.setItem('knowledge-weaver-document-embeddings', data);
-    } catch (error) {
+    putStateEntries('embeddings', this.documentEmbeddings).catch(error => {
       console.error('Failed to save document embeddings:', error);
-    }
-  }
-
-  private loadEmbeddings() {
-    try {
-      const stored = localStorage.getItem('knowledge-weaver-document-embeddings');
-      if (stored) {
-        const entries = JSON.parse(stored);
-        this.documentEmbeddings = new Map(entries);
-      }
-    } catch (error) {
-      console.error('Failed to load document embeddings:', error);
-      this.documentEmbeddings = new Map();
-    }
+    });
   }
 
   clearEmbeddings() {
     this.documentEmbeddings.clear();
-    localStorage.removeItem('knowledge-weaver-document-embeddings');
+    clearStateStore('embeddings').catch(error => {
+      console.error('Failed to clear document embeddings:', error);
+    });
   }
 }
\ No newline at end of file
@@ -1,9 +1,8 @@
 import { Source, Persona } from '../types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { KnowledgeProcessingService, ProcessedKnowledge, KnowledgeRelationship } from './knowledgeProcessingService';
 import { AnalyticsService } from './analyticsService';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService } from './llmProvider';
+import { PersistedService, clearStateStore, loadStateInto, putStateEntries } from './db';
 
 export interface AdvancedProcessedKnowledge extends ProcessedKnowledge {
   // Extended with more detailed analysis
@@ -33,16 +32,18 @@ export interface KnowledgePathwayReference {
   context: string;
 }
 
-export class AdvancedKnowledgeIngestionService {
+export class AdvancedKnowledgeIngestionService implements PersistedService {
   private static instance: AdvancedKnowledgeIngestionService;
   private knowledgeProcessingService: KnowledgeProcessingService;
   private analyticsService: AnalyticsService;
   private processedKnowledge: Map<string, AdvancedProcessedKnowledge> = new Map();
 
+  readonly loaded: Promise<void>;
+
   private constructor() {
     this.knowledgeProcessingService = KnowledgeProcessingService.getInstance();
     this.analyticsService = AnalyticsService.getInstance();
-    this.loadProcessedKnowledge();
+    this.loaded = loadStateInto('advancedKnowledge', this.processedKnowledge);
   }
 
   static getInstance(): AdvancedKnowledgeIngestionService {
@@ -62,7 +63,7 @@ export class AdvancedKnowledgeIngestionService {
     // First, process with the existing service
     const basicProcessed = await this.knowledgeProcessingService.processSource(source);
     
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Extract key points with relevance scoring
     const keyPointsPrompt = `Extract 10-15 key points from this document, each with:
@@ -86,8 +87,7 @@ Respond ONLY with a JSON array in this format:
 
     let keyPoints: AdvancedProcessedKnowledge['keyPoints'] = [];
     try {
-      const keyPointsResult = await model.generateContent(keyPointsPrompt);
-      const keyPointsText = keyPointsResult.response.text();
+      const keyPointsText = await llm.generate(keyPointsPrompt);
       const jsonMatch = keyPointsText.match(/\[[\s\S]*\]/);
       if (jsonMatch) {
         keyPoints = JSON.parse(jsonMatch[0]);
@@ -119,8 +119,7 @@ Respond ONLY with a JSON array in this format:
 
     let pathways: AdvancedProcessedKnowledge['pathways'] = [];
     try {
-      const pathwaysResult = await model.generateContent(pathwaysPrompt);
-      const pathwaysText = pathwaysResult.response.text();
+      const pathwaysText = await llm.generate(pathwaysPrompt);
       const jsonMatch = pathwaysText.match(/\[[\s\S]*\]/);
       if (jsonMatch) {
         pathways = JSON.parse(jsonMatch[0]);
@@ -155,8 +154,7 @@ Respond ONLY with a JSON array in this format:
 ]`;
 
       try {
-        const moralCompassResult = await model.generateContent(moralCompassPrompt);
-        const moralCompassText = moralCompassResult.response.text();
+        const moralCompassText = await llm.generate(moralCompassPrompt);
         const jsonMatch = moralCompassText.match(/\[[\s\S]*\]/);
         if (jsonMatch) {
           moralCompassIndicators = JSON.parse(jsonMatch[0]);
@@ -195,7 +193,7 @@ Respond ONLY with a JSON array in this format:
   }
 
   async findRelevantPathways(sources: Source[], query: string): Promise<KnowledgePathwayReference[]> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     const relevantPathways: KnowledgePathwayReference[] = [];
     
@@ -214,8 +212,7 @@ ${pathway.content}
 Respond with ONLY a number between 0-100:`;
         
         try {
-          const relevanceResult = await model.generateContent(relevancePrompt);
-          const relevanceScore = parseInt(relevanceResult.response.text().trim()) || 0;
+          const relevanceScore = parseInt((await llm.generate(relevancePrompt)).trim()) || 0;
           
           if (relevanceScore > 30) { // Only include pathways with some relevance
             relevantPathways.push({
@@ -246,29 +243,15 @@ Respond with ONLY a number between 0-100:`;
   }
 
   private saveProcessedKnowledge() {
-    try {
-      const data = JSON.stringify(Array.from(this.processedKnowledge.entries()));
-      localStorage.setItem('knowledge-weaver-advanced-processed-knowledge', data);
-    } catch (error) {
+    putStateEntries('advancedKnowledge', this.processedKnowledge).catch(error => {
       console.error('Failed to save advanced processed knowledge:', error);
-    }
-  }
-
-  private loadProcessedKnowledge() {
-    try {
-      const stored = localStorage.getItem('knowledge-weaver-advanced-processed-knowledge');
-      if (stored) {
-        const entries = JSON.parse(stored);
-        this.processedKnowledge = new Map(entries);
-      }
-    } catch (error) {
-      console.error('Failed to load advanced processed knowledge:', error);
-      this.processedKnowledge = new Map();
-    }
+    });
   }
 
   clearProcessedKnowledge() {
     this.processedKnowledge.clear();
-    localStorage.removeItem('knowledge-weaver-advanced-processed-knowledge');
+    clearStateStore('advancedKnowledge').catch(error => {
+      console.error('Failed to clear advanced processed knowledge:', error);
+    });
   }
 }
\ No newline at end of file
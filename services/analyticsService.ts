@@ -1,4 +1,5 @@
 import{ Persona, Source } from '../types';
+import { PersistedService, addAnalyticsEvent, clearStateStore, getAnalyticsEvents } from './db';
 
 export interface PerformanceMetrics {
   // Quality over time
@@ -57,16 +58,18 @@ export interface UsageStats {
   featuresUsed: Record<string, number>;
 }
 
-export class AnalyticsService {
+export class AnalyticsService implements PersistedService {
   private static instance: AnalyticsService;
   private events: AnalyticsEvent[] = [];
   private sessionStartTime: string;
   private currentSessionId: string;
 
+  readonly loaded: Promise<void>;
+
   constructor() {
     this.sessionStartTime = new Date().toISOString();
     this.currentSessionId = `session-${Date.now()}`;
-    this.loadEvents();
+    this.loaded = this.loadEvents();
   }
 
   static getInstance(): AnalyticsService {
@@ -82,7 +85,7 @@ export class AnalyticsService {
       sessionId: event.sessionId || this.currentSessionId
     };
     this.events.push(enhancedEvent);
-    this.saveEvents();
+    this.saveEvent(enhancedEvent);
   }
 
   trackQualityAssessment(assessment: QualityAssessment) {
@@ -322,29 +325,28 @@ export class AnalyticsService {
     return olderPersonas.length > 0 ? (recentPersonas.length / olderPersonas.length) * 100 : 0;
   }
 
-  private saveEvents() {
-    try {
-      localStorage.setItem('knowledge-weaver-analytics', JSON.stringify(this.events));
-    } catch (error) {
-      console.error('Failed to save analytics events:', error);
-    }
+  private saveEvent(event: AnalyticsEvent) {
+    addAnalyticsEvent(event).catch(error => {
+      console.error('Failed to save analytics event:', error);
+    });
   }
 
-private loadEvents() {
+  private async loadEvents() {
     try {
-      const stored = localStorage.getItem('knowledge-weaver-analytics');
-      if (stored) {
-        this.events = JSON.parse(stored);
-      }
+      const stored = await getAnalyticsEvents<AnalyticsEvent>();
+      // The read is queued before any write, so events tracked while loading
+      // are not part of `stored` yet
+      this.events = [...stored, ...this.events];
     } catch (error) {
       console.error('Failed to load analytics events:', error);
-      this.events = [];
     }
- }
+  }
 
   clearAnalytics() {
     this.events = [];
-    localStorage.removeItem('knowledge-weaver-analytics');
+    clearStateStore('analytics').catch(error => {
+      console.error('Failed to clear analytics events:', error);
+    });
   }
 
   exportPerformanceData(): string {
@@ -0,0 +1,136 @@
+export interface TokenUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * Events emitted by the backend over server-sent events.
+ */
+export type StreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+const parseEventBlock = (block: string): StreamEvent | null => {
+  let eventName = 'message';
+  const dataLines: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+  if (dataLines.length === 0) return null;
+
+  const data = JSON.parse(dataLines.join('\n'));
+  switch (eventName) {
+    case 'token':
+      return { type: 'token', text: data.text ?? '' };
+    case 'usage':
+      return { type: 'usage', usage: data };
+    case 'done':
+      return { type: 'done' };
+    case 'error':
+      return { type: 'error', message: data.message ?? 'Unknown streaming error' };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parse a server-sent event stream from the backend into typed events.
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<StreamEvent, void, unknown> {
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (value) {
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    }
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (event) yield event;
+      boundary = buffer.indexOf('\n\n');
+    }
+
+    if (done) break;
+  }
+
+  const trailing = parseEventBlock(buffer.trim());
+  if (trailing) yield trailing;
+}
+
+/**
+ * Yield the text of `token` events, throwing as soon as an `error` event
+ * arrives, or if the stream ends without a `done` event (the connection
+ * dropped and the text is incomplete). Returns the token usage reported by
+ * the backend, if any.
+ */
+export async function* streamTokens(response: Response): AsyncGenerator<string, TokenUsage | undefined, unknown> {
+  let usage: TokenUsage | undefined;
+  for await (const event of readEventStream(response)) {
+    if (event.type === 'token') {
+      yield event.text;
+    } else if (event.type === 'usage') {
+      usage = event.usage;
+    } else if (event.type === 'error') {
+      throw new Error(event.message);
+    } else if (event.type === 'done') {
+      return usage;
+    }
+  }
+  throw new Error('The response stream ended before the generation finished');
+}
+
+export const API_BASE_URL = 'http://localhost:3002/api';
+
+/**
+ * Error body returned by every route, including validation failures.
+ */
+export interface ApiErrorResponse {
+  error: string;
+  details?: string[];
+}
+
+/**
+ * POST a JSON body to a backend route, turning error responses into an Error
+ * carrying the server's message and validation details.
+ */
+export const postToBackend = async (route: string, body: object, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(`${API_BASE_URL}/${route}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    let message = `Request to /api/${route} failed with status ${response.status}`;
+    try {
+      const errorBody: ApiErrorResponse = await response.json();
+      message = errorBody.details?.length
+        ? `${errorBody.error}: ${errorBody.details.join('; ')}`
+        : errorBody.error || message;
+    } catch {
+      // Body was not JSON; keep the status message
+    }
+    throw new Error(message);
+  }
+
+  return response;
+};
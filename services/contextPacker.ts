@@ -0,0 +1,273 @@
+import { Source } from '../types';
+import { isParsePlaceholder } from './sourceMetadata';
+
+export interface ContextPackOptions {
+  budgetTokens?: number;
+  chunkTokens?: number;
+  // Tokens reserved for a stand-in excerpt of a source none of whose chunks made the cut
+  summaryTokens?: number;
+  // Pre-computed summaries (e.g. from KnowledgeProcessingService) keyed by source id
+  summaries?: Record<string, string>;
+}
+
+export type PackedSourceStatus = 'full' | 'partial' | 'summary' | 'dropped';
+
+export interface PackedSourceReport {
+  sourceId: string;
+  name: string;
+  status: PackedSourceStatus;
+  originalTokens: number;
+  includedTokens: number;
+}
+
+export interface ContextPackReport {
+  budgetTokens: number;
+  usedTokens: number;
+  totalTokens: number;
+  sources: PackedSourceReport[];
+}
+
+export interface PackedContext {
+  sources: Source[];
+  report: ContextPackReport;
+}
+
+interface Chunk {
+  sourceIndex: number;
+  position: number;
+  text: string;
+  tokens: number;
+  score: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET = 24000;
+const DEFAULT_CHUNK_TOKENS = 400;
+const DEFAULT_SUMMARY_TOKENS = 120;
+const OMISSION_MARKER = '\n[...]\n';
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our',
+  'out', 'has', 'his', 'how', 'its', 'may', 'new', 'now', 'see', 'who', 'did', 'get', 'him', 'let', 'say',
+  'she', 'too', 'use', 'that', 'with', 'have', 'this', 'will', 'your', 'from', 'they', 'been', 'were',
+  'what', 'when', 'which', 'their', 'there', 'would', 'about', 'into', 'than', 'them', 'then', 'these',
+  'some', 'could', 'other', 'more', 'also', 'only', 'such', 'very', 'based', 'provided', 'please'
+]);
+
+/**
+ * Rough token estimate (about four characters per token for English text).
+ * Good enough for budgeting; no model tokenizer is available in the browser.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 2 && !STOP_WORDS.has(term));
+
+/**
+ * Split text into chunks of roughly `chunkTokens`, breaking on paragraphs
+ * first and on sentences when a single paragraph is too long.
+ */
+export const chunkText = (text: string, chunkTokens: number = DEFAULT_CHUNK_TOKENS): string[] => {
+  const maxChars = chunkTokens * 4;
+  const pieces = text
+    .split(/\n\s*\n/)
+    .flatMap(paragraph =>
+      paragraph.length <= maxChars ? [paragraph] : paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph]
+    )
+    .flatMap(piece => {
+      const parts: string[] = [];
+      for (let i = 0; i < piece.length; i += maxChars) {
+        parts.push(piece.slice(i, i + maxChars));
+      }
+      return parts;
+    });
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (!piece.trim()) continue;
+    if (current && current.length + piece.length > maxChars) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += (current ? '\n\n' : '') + piece.trim();
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+};
+
+const topTerms = (texts: string[], count: number): string[] => {
+  const frequencies = new Map<string, number>();
+  texts.forEach(text => tokenize(text).forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1)));
+  return Array.from(frequencies.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([term]) => term);
+};
+
+const scoreChunks = (chunks: Chunk[], queryTerms: string[]) => {
+  const documentFrequency = new Map<string, number>();
+  const chunkTerms = chunks.map(chunk => {
+    const counts = new Map<string, number>();
+    tokenize(chunk.text).forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    return counts;
+  });
+
+  chunks.forEach((chunk, i) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = chunkTerms[i].get(term) || 0;
+      if (tf === 0) continue;
+      const idf = Math.log(1 + chunks.length / (documentFrequency.get(term) || 1));
+      score += (tf / (tf + 1.2)) * idf;
+    }
+    // Openings usually carry the thesis of a document; favour them slightly
+    chunk.score = score + 0.1 / (chunk.position + 1);
+  });
+};
+
+// Copy of a source with new content; offsets into the old content, its hash and its translation no longer apply to it
+const withContent = (source: Source, content: string): Source => {
+  const { pages: _pages, sections: _sections, transcript: _transcript, contentHash: _contentHash, translation: _translation, ...rest } = source;
+  return { ...rest, content };
+};
+
+const excerpt = (text: string, maxTokens: number): string => {
+  const maxChars = maxTokens * 4;
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, maxChars);
+  const lastStop = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('\n'));
+  return `${lastStop > maxChars / 2 ? cut.slice(0, lastStop + 1) : cut}…`;
+};
+
+/**
+ * Fit knowledge sources into a token budget. When everything fits, sources
+ * pass through untouched; otherwise each source is chunked, chunks are ranked
+ * by relevance to `task`, and the best ones are kept in document order.
+ * Sources that lose every chunk fall back to a short summary if room remains,
+ * and are dropped otherwise. The report says what happened to each source.
+ */
+export const packContext = (
+  sources: Source[],
+  task: string,
+  options: ContextPackOptions = {}
+): PackedContext => {
+  if (sources.some(isParsePlaceholder)) sources = sources.filter(source => !isParsePlaceholder(source));
+  const budgetTokens = options.budgetTokens ?? DEFAULT_CONTEXT_BUDGET;
+  const chunkTokens = options.chunkTokens ?? DEFAULT_CHUNK_TOKENS;
+  const summaryTokens = options.summaryTokens ?? DEFAULT_SUMMARY_TOKENS;
+  const originalTokens = sources.map(source => estimateTokens(source.content));
+  const totalTokens = originalTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+  if (totalTokens <= budgetTokens) {
+    return {
+      sources,
+      report: {
+        budgetTokens,
+        usedTokens: totalTokens,
+        totalTokens,
+        sources: sources.map((source, i) => ({
+          sourceId: source.id,
+          name: source.name,
+          status: 'full',
+          originalTokens: originalTokens[i],
+          includedTokens: originalTokens[i]
+        }))
+      }
+    };
+  }
+
+  const chunks: Chunk[] = sources.flatMap((source, sourceIndex) =>
+    chunkText(source.content, chunkTokens).map((text, position) => ({
+      sourceIndex,
+      position,
+      text,
+      tokens: estimateTokens(text),
+      score: 0
+    }))
+  );
+
+  // With no usable task terms, rank against the collection's dominant vocabulary
+  let queryTerms = Array.from(new Set(tokenize(task)));
+  if (queryTerms.length === 0) {
+    queryTerms = topTerms(sources.map(source => source.content), 20);
+  }
+  scoreChunks(chunks, queryTerms);
+
+  // Kept chunks are joined with omission markers, which take up budget too:
+  // reserve one before each chunk and, for a source's first chunk, one after
+  // its last. The report then counts the text actually packed.
+  const markerTokens = estimateTokens(OMISSION_MARKER);
+  const selected = new Set<Chunk>();
+  const selectedSources = new Set<number>();
+  let usedTokens = 0;
+  for (const chunk of [...chunks].sort((a, b) => b.score - a.score)) {
+    const cost = chunk.tokens + markerTokens + (selectedSources.has(chunk.sourceIndex) ? 0 : markerTokens);
+    if (usedTokens + cost > budgetTokens) continue;
+    selected.add(chunk);
+    selectedSources.add(chunk.sourceIndex);
+    usedTokens += cost;
+  }
+
+  const packedSources: Source[] = [];
+  const reports: PackedSourceReport[] = [];
+
+  sources.forEach((source, sourceIndex) => {
+    const sourceChunks = chunks.filter(chunk => chunk.sourceIndex === sourceIndex);
+    const kept = sourceChunks.filter(chunk => selected.has(chunk));
+    const report: PackedSourceReport = {
+      sourceId: source.id,
+      name: source.name,
+      status: 'dropped',
+      originalTokens: originalTokens[sourceIndex],
+      includedTokens: 0
+    };
+
+    if (kept.length > 0) {
+      // Re-join kept chunks in their original order, marking the gaps
+      let content = '';
+      kept.forEach((chunk, i) => {
+        const gap = i === 0 ? chunk.position > 0 : chunk.position !== kept[i - 1].position + 1;
+        content += (gap ? OMISSION_MARKER : i > 0 ? '\n\n' : '') + chunk.text;
+      });
+      if (kept[kept.length - 1].position < sourceChunks.length - 1) content += OMISSION_MARKER;
+
+      report.status = kept.length === sourceChunks.length ? 'full' : 'partial';
+      report.includedTokens = estimateTokens(content);
+      packedSources.push(withContent(source, content));
+    } else {
+      const summary = `[Summary] ${excerpt(options.summaries?.[source.id] || source.content, summaryTokens)}`;
+      const tokens = estimateTokens(summary);
+      if (usedTokens + tokens <= budgetTokens) {
+        usedTokens += tokens;
+        report.status = 'summary';
+        report.includedTokens = tokens;
+        packedSources.push(withContent(source, summary));
+      }
+    }
+
+    reports.push(report);
+  });
+
+  return {
+    sources: packedSources,
+    report: {
+      budgetTokens,
+      usedTokens: reports.reduce((sum, report) => sum + report.includedTokens, 0),
+      totalTokens,
+      sources: reports
+    }
+  };
+};
+
+/**
+ * One-line description of a pack report for status displays and logs.
+ */
+export const describeContextReport = (report: ContextPackReport): string => {
+  const count = (status: PackedSourceStatus) => report.sources.filter(s => s.status === status).length;
+  const parts = [`${count('full')} full`];
+  if (count('partial')) parts.push(`${count('partial')} partial`);
+  if (count('summary')) parts.push(`${count('summary')} summarized`);
+  if (count('dropped')) parts.push(`${count('dropped')} dropped`);
+  return `~${report.usedTokens.toLocaleString()} / ${report.budgetTokens.toLocaleString()} tokens (${parts.join(', ')})`;
+};
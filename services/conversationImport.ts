@@ -0,0 +1,381 @@
+import { Source } from '../types';
+import { htmlElementToText } from './documentFormats';
+
+export type ConversationFormat = 'email' | 'slack' | 'whatsapp' | 'telegram';
+
+export interface ConversationMessage {
+  author: string;
+  // As written in the export; chat exports use locale-dependent date formats
+  timestamp?: string;
+  subject?: string;
+  text: string;
+}
+
+export interface Conversation {
+  name: string;
+  format: ConversationFormat;
+  messages: ConversationMessage[];
+}
+
+export interface AuthorCount {
+  author: string;
+  count: number;
+}
+
+// ---------------------------------------------------------------------------
+// Email (.eml / .mbox)
+// ---------------------------------------------------------------------------
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const binaryToBytes = (binary: string) => Uint8Array.from(binary, ch => ch.charCodeAt(0) & 0xff);
+
+const decodeQuotedPrintable = (text: string, charset?: string, inHeader = false): string => {
+  const source = (inHeader ? text.replace(/_/g, ' ') : text).replace(/=\r?\n/g, '');
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const hex = source.substr(i + 1, 2);
+    if (source[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...encoder.encode(source[i]));
+    }
+  }
+  return decodeBytes(Uint8Array.from(bytes), charset);
+};
+
+const decodeBase64 = (text: string, charset?: string): string => {
+  try {
+    return decodeBytes(binaryToBytes(atob(text.replace(/\s+/g, ''))), charset);
+  } catch {
+    return text;
+  }
+};
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?...?= in From and Subject
+const decodeHeaderValue = (value: string): string =>
+  value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) =>
+      encoding.toUpperCase() === 'B' ? decodeBase64(text, charset) : decodeQuotedPrintable(text, charset, true)
+    );
+
+const parseMimePart = (raw: string): MimePart => {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const split = normalized.search(/\n\n/);
+  const headerBlock = split === -1 ? normalized : normalized.slice(0, split);
+  const body = split === -1 ? '' : normalized.slice(split + 2);
+
+  const headers = new Map<string, string>();
+  // Continuation lines start with whitespace and belong to the previous header
+  headerBlock.replace(/\n[ \t]+/g, ' ').split('\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  });
+  return { headers, body };
+};
+
+const headerParam = (header: string | undefined, name: string): string | undefined => {
+  const match = header && new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i').exec(header);
+  return match ? match[1] ?? match[2] : undefined;
+};
+
+const decodePartBody = (part: MimePart): string => {
+  const charset = headerParam(part.headers.get('content-type'), 'charset');
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase();
+  if (encoding === 'base64') return decodeBase64(part.body, charset);
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body, charset);
+  return part.body;
+};
+
+/**
+ * The readable body of a message: the first text/plain part, or the first
+ * text/html part converted to text when there is no plain alternative.
+ */
+const extractBody = (part: MimePart): string => {
+  const contentType = (part.headers.get('content-type') || 'text/plain').toLowerCase();
+  const disposition = (part.headers.get('content-disposition') || '').toLowerCase();
+  if (disposition.startsWith('attachment')) return '';
+
+  if (contentType.startsWith('multipart/')) {
+    const boundary = headerParam(part.headers.get('content-type'), 'boundary');
+    if (!boundary) return '';
+    const children = part.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(chunk => !chunk.startsWith('--'))
+      .map(chunk => parseMimePart(chunk.replace(/^\n/, '')));
+    const plain = children.find(child => (child.headers.get('content-type') || 'text/plain').toLowerCase().startsWith('text/plain'));
+    if (plain) return extractBody(plain);
+    for (const child of children) {
+      const text = extractBody(child);
+      if (text) return text;
+    }
+    return '';
+  }
+  if (contentType.startsWith('text/html')) {
+    return htmlElementToText(new DOMParser().parseFromString(decodePartBody(part), 'text/html').body);
+  }
+  if (contentType.startsWith('text/plain')) return decodePartBody(part);
+  return '';
+};
+
+/**
+ * Drop what the author did not write: quoted replies, the "On ... wrote:"
+ * line introducing them, forwarded blocks and the signature.
+ */
+export const stripQuotedText = (body: string): string => {
+  const lines = body.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^-- ?$/.test(line) || /^-{2,}\s*(Original Message|Forwarded message)/i.test(line)) break;
+    if (/^On .+ wrote:\s*$/.test(line) || /^>/.test(line)) continue;
+    // Clients wrap long attributions, e.g. "On <date>, Ada Lovelace" / "<ada@example.org> wrote:"
+    if (/^On .+/.test(line) && /\bwrote:\s*$/.test(lines[i + 1] ?? '')) {
+      i++;
+      continue;
+    }
+    kept.push(line);
+  }
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// "Ada Lovelace <ada@example.org>" -> "Ada Lovelace"; a bare address is kept as is
+const authorFromAddress = (from: string): string => {
+  const match = /^\s*"?([^"<]*?)"?\s*<([^>]+)>/.exec(from);
+  if (!match) return from.trim().toLowerCase();
+  return match[1].trim() || match[2].trim().toLowerCase();
+};
+
+export const parseEml = (raw: string): ConversationMessage | null => {
+  const part = parseMimePart(raw);
+  const from = part.headers.get('from');
+  if (!from) return null;
+  const text = stripQuotedText(extractBody(part));
+  if (!text) return null;
+  return {
+    author: authorFromAddress(decodeHeaderValue(from)),
+    timestamp: part.headers.get('date'),
+    subject: part.headers.get('subject') ? decodeHeaderValue(part.headers.get('subject')!) : undefined,
+    text,
+  };
+};
+
+// An mbox separator: "From <address> <asctime>", e.g. "From ada@example.org Mon Jan  1 10:00:00 2024"
+const MBOX_SEPARATOR = /^From \S+ +[A-Z][a-z]{2} [A-Z][a-z]{2} +\d{1,2} \d{1,2}:\d{2}(?::\d{2})? (?:.* )?\d{4}\b.*\n/m;
+
+/**
+ * Split an mbox archive on its "From " separator lines and parse each message.
+ */
+export const parseMbox = (raw: string): ConversationMessage[] =>
+  raw
+    .replace(/\r\n/g, '\n')
+    .split(MBOX_SEPARATOR)
+    .filter(chunk => chunk.trim())
+    // mboxrd escapes body lines starting with "From " as ">From "
+    .map(chunk => parseEml(chunk.replace(/^>(>*From )/gm, '$1')))
+    .filter((message): message is ConversationMessage => message !== null);
+
+// ---------------------------------------------------------------------------
+// Chat exports
+// ---------------------------------------------------------------------------
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const stringField = (record: Record<string, unknown>, key: string): string | undefined =>
+  typeof record[key] === 'string' ? record[key] : undefined;
+
+// <https://example.org|label>, <@U123|ada>, <#C123|general>
+const cleanSlackMarkup = (text: string, users: Map<string, string>): string =>
+  text
+    .replace(/<@([A-Z0-9]+)(?:\|([^>]+))?>/g, (_, id: string, label?: string) => `@${label || users.get(id) || id}`)
+    .replace(/<#[A-Z0-9]+\|([^>]+)>/g, '#$1')
+    .replace(/<([^>|]+)\|([^>]+)>/g, '$2')
+    .replace(/<([^>]+)>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+/**
+ * A Slack export channel file (an array of messages) or a users.json-style
+ * wrapper `{ users, messages }`. System messages such as joins are skipped.
+ */
+export const parseSlackExport = (data: unknown): ConversationMessage[] => {
+  const list: unknown[] = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.messages) ? data.messages : [];
+  const messages = list.filter(isRecord);
+  const users = new Map<string, string>();
+  (isRecord(data) && Array.isArray(data.users) ? data.users.filter(isRecord) : []).forEach(user => {
+    const id = stringField(user, 'id');
+    const profile = isRecord(user.profile) ? user.profile : {};
+    if (id) users.set(id, stringField(user, 'real_name') || stringField(profile, 'real_name') || stringField(user, 'name') || id);
+  });
+  messages.forEach(message => {
+    const profile = isRecord(message.user_profile) ? message.user_profile : {};
+    const user = stringField(message, 'user');
+    const name = stringField(profile, 'real_name') || stringField(profile, 'display_name');
+    if (user && name) users.set(user, name);
+  });
+
+  return messages.flatMap(message => {
+    const text = stringField(message, 'text');
+    if (message.type !== 'message' || message.subtype || text === undefined) return [];
+    const user = stringField(message, 'user');
+    const ts = stringField(message, 'ts');
+    return [{
+      author: (user && users.get(user)) || stringField(message, 'user_name') || user || 'unknown',
+      timestamp: ts ? new Date(Number(ts) * 1000).toISOString() : undefined,
+      text: cleanSlackMarkup(text, users).trim(),
+    }];
+  }).filter(message => message.text);
+};
+
+// Android: "12/31/23, 9:41 PM - Ada: Hi"; iOS: "[31/12/2023, 21:41:05] Ada: Hi"
+const WHATSAPP_LINE = /^\u200e?\[?(\d{1,4}[./-]\d{1,2}[./-]\d{1,4}),? (\d{1,2}[:.]\d{2}(?:[:.]\d{2})?(?:\s?[APap]\.?\s?[Mm]\.?)?)\]?(?: -|:)? (.*)$/;
+const WHATSAPP_PLACEHOLDERS = /^\u200e?(<Media omitted>|<attached: .*>|image omitted|video omitted|audio omitted|sticker omitted|This message was deleted|You deleted this message)$/i;
+
+export const parseWhatsAppExport = (text: string): ConversationMessage[] => {
+  const messages: ConversationMessage[] = [];
+  let current: ConversationMessage | null = null;
+
+  text.replace(/\r\n/g, '\n').split('\n').forEach(line => {
+    const match = WHATSAPP_LINE.exec(line);
+    if (!match) {
+      // Multi-line messages continue on the following lines
+      if (current) current.text += `\n${line}`;
+      return;
+    }
+    const [, date, time, rest] = match;
+    const colon = rest.indexOf(': ');
+    // Lines without "Author: " are system notices (joins, encryption banners)
+    current = colon === -1 ? null : { author: rest.slice(0, colon).trim(), timestamp: `${date} ${time}`, text: rest.slice(colon + 2) };
+    if (current) messages.push(current);
+  });
+
+  return messages
+    .map(message => ({ ...message, text: message.text.trim() }))
+    .filter(message => message.text && !WHATSAPP_PLACEHOLDERS.test(message.text));
+};
+
+/**
+ * Telegram Desktop's JSON export (result.json). Message text is either a
+ * string or an array of plain strings and formatted entities.
+ */
+export const parseTelegramExport = (data: unknown): ConversationMessage[] => {
+  const messages = isRecord(data) && Array.isArray(data.messages) ? data.messages.filter(isRecord) : [];
+  return messages
+    .filter(message => message.type === 'message' && message.from)
+    .map(message => ({
+      author: String(message.from),
+      timestamp: stringField(message, 'date'),
+      text: (Array.isArray(message.text)
+        ? message.text.map((entity: unknown) =>
+            typeof entity === 'string' ? entity : (isRecord(entity) && stringField(entity, 'text')) || ''
+          ).join('')
+        : String(message.text ?? '')
+      ).trim(),
+    }))
+    .filter(message => message.text);
+};
+
+// ---------------------------------------------------------------------------
+// Detection and shaper sources
+// ---------------------------------------------------------------------------
+
+/**
+ * Recognize a mail archive or chat export from its name and content.
+ * Returns null when the file is not a conversation this module understands.
+ */
+export const parseConversation = (name: string, content: string): Conversation | null => {
+  const lowerName = name.toLowerCase();
+  const conversation = (format: ConversationFormat, messages: ConversationMessage[]) =>
+    messages.length > 0 ? { name, format, messages } : null;
+
+  if (lowerName.endsWith('.eml')) {
+    const message = parseEml(content);
+    return conversation('email', message ? [message] : []);
+  }
+  if (lowerName.endsWith('.mbox')) {
+    return conversation('email', parseMbox(content));
+  }
+  // Mail archives saved without the extension; a text merely starting "From Paris, ..." is not one
+  if (MBOX_SEPARATOR.test(`${content.split('\n', 1)[0]}\n`)) {
+    const messages = parseMbox(content);
+    if (messages.length > 0) return conversation('email', messages);
+  }
+  if (lowerName.endsWith('.json')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return null;
+    }
+    if (isRecord(data) && Array.isArray(data.messages) && data.messages.some((message: unknown) => isRecord(message) && 'from' in message)) {
+      return conversation('telegram', parseTelegramExport(data));
+    }
+    return conversation('slack', parseSlackExport(data));
+  }
+  return conversation('whatsapp', parseWhatsAppExport(content));
+};
+
+/**
+ * Authors in one or more conversations, most prolific first.
+ */
+export const listAuthors = (conversations: Conversation[]): AuthorCount[] => {
+  const counts = new Map<string, number>();
+  conversations.forEach(conversation =>
+    conversation.messages.forEach(message => counts.set(message.author, (counts.get(message.author) || 0) + 1))
+  );
+  return Array.from(counts, ([author, count]) => ({ author, count })).sort((a, b) => b.count - a.count);
+};
+
+const formatMessage = (message: ConversationMessage, withAuthor: boolean) => {
+  const header = [withAuthor ? message.author : '', message.subject ? `Subject: ${message.subject}` : '']
+    .filter(Boolean)
+    .join(' — ');
+  return header ? `${header}\n${message.text}` : message.text;
+};
+
+/**
+ * Shaper sources for a persona built from conversations: one source with
+ * only the chosen author's own messages, which is what shapes the persona's
+ * voice, and one with everyone else's messages for context.
+ */
+export const buildConversationSources = (conversations: Conversation[], personaAuthor: string): Source[] => {
+  const label = conversations.length === 1 ? conversations[0].name : `${conversations.length} conversations`;
+  const idBase = `conversation-${label}-${personaAuthor}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  const messages = conversations.flatMap(conversation => conversation.messages);
+  const own = messages.filter(message => message.author === personaAuthor);
+  const others = messages.filter(message => message.author !== personaAuthor);
+
+  const sources: Source[] = [];
+  if (own.length > 0) {
+    sources.push({
+      id: `${idBase}-own`,
+      name: `${label} — written by ${personaAuthor}`,
+      content: `Messages written by ${personaAuthor} (${own.length}):\n\n${own.map(message => formatMessage(message, false)).join('\n\n')}`,
+    });
+  }
+  if (others.length > 0) {
+    sources.push({
+      id: `${idBase}-others`,
+      name: `${label} — others' messages`,
+      content: `Messages from other participants in conversation with ${personaAuthor} (${others.length}); these are not ${personaAuthor}'s own words:\n\n${others.map(message => formatMessage(message, true)).join('\n\n')}`,
+    });
+  }
+  return sources;
+};
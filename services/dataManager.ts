@@ -1,4 +1,10 @@
 import { Persona, Source } from '../types';
+import { CURRENT_DATA_VERSION, ImportReport, migrateAndValidate, unreadableFileReport } from './dataSchema';
+import {
+  WorkspaceState,
+  exportWorkspaceState,
+  restoreWorkspaceState
+} from './db';
 
 export interface KnowledgeWeaverData {
   personas: Persona[];
@@ -13,9 +19,18 @@ export interface KnowledgeWeaverData {
     totalSnapshots: number;
     lastEvolutionUpdate: string;
   };
+  // Present in full backups only: every service's persisted state
+  workspace?: WorkspaceState & {
+    includesDerived: boolean;
+  };
 }
 
-export const exportData = (personas: Persona[], knowledgeSources: Source[]): string => {
+export interface FullBackupOptions {
+  // Include embeddings, processed knowledge and analyses that can be regenerated
+  includeDerived?: boolean;
+}
+
+const buildData = (personas: Persona[], knowledgeSources: Source[]): KnowledgeWeaverData => {
   const calibratedPersonas = personas
     .filter(p => p.calibrationStatus === 'calibrated')
     .map(p => p.id);
@@ -26,7 +41,7 @@ export const exportData = (personas: Persona[], knowledgeSources: Source[]): str
     personas,
     knowledgeSources,
     exportDate: new Date().toISOString(),
-    version: '1.2.0',
+    version: CURRENT_DATA_VERSION,
     calibrationData: {
       lastCalibrationCheck: new Date().toISOString(),
       calibratedPersonas
@@ -37,68 +52,115 @@ export const exportData = (personas: Persona[], knowledgeSources: Source[]): str
     }
   };
 
-  return JSON.stringify(data, null, 2);
+  return data;
 };
 
-export const importData = (jsonData: string): { personas: Persona[], knowledgeSources: Source[] } => {
-  try {
-    const data: KnowledgeWeaverData = JSON.parse(jsonData);
-
-    // Basic validation
-    if (!data.personas || !Array.isArray(data.personas)) {
-      throw new Error('Invalid data format: missing personas array');
-    }
-
-    if (!data.knowledgeSources || !Array.isArray(data.knowledgeSources)) {
-      throw new Error('Invalid data format: missing knowledgeSources array');
-    }
-
-    // Validate and migrate persona structure
-    const migratedPersonas = data.personas.map((persona, index) => {
-      if (!persona.id || !persona.name || !persona.role) {
-        throw new Error(`Invalid persona at index ${index}: missing required fields`);
-      }
+export const exportData = (personas: Persona[], knowledgeSources: Source[]): string => {
+  return JSON.stringify(buildData(personas, knowledgeSources), null, 2);
+};
 
-      // Add calibrationStatus if missing (for backward compatibility)
-      const migratedPersona: Persona = {
-        ...persona,
-        calibrationStatus: persona.calibrationStatus || 'uncalibrated'
-      };
+/**
+ * Export personas and sources together with the state of every service, so
+ * a restore brings back ratings, versions, analytics and (optionally) the
+ * derived data that would otherwise have to be regenerated.
+ */
+export const exportFullBackup = async (
+  personas: Persona[],
+  knowledgeSources: Source[],
+  options: FullBackupOptions = {}
+): Promise<string> => {
+  const includeDerived = options.includeDerived ?? true;
+  const workspace = await exportWorkspaceState(includeDerived);
+  const data: KnowledgeWeaverData = {
+    ...buildData(personas, knowledgeSources),
+    workspace: { ...workspace, includesDerived: includeDerived }
+  };
+  return JSON.stringify(data);
+};
 
-      return migratedPersona;
-    });
+/**
+ * Write a full backup straight to IndexedDB, replacing personas, sources and
+ * every store in its workspace section in a single transaction. Services
+ * cache their state in memory, so the app must reload afterwards.
+ */
+export const restoreFullBackup = async (data: KnowledgeWeaverData) => {
+  await restoreWorkspaceState(data.workspace || { stores: {} }, {
+    personas: data.personas,
+    knowledgeSources: data.knowledgeSources
+  });
+};
 
-    // Validate source structure
-    data.knowledgeSources.forEach((source, index) => {
-      if (!source.id || !source.name || !source.content) {
-        throw new Error(`Invalid source at index ${index}: missing required fields`);
-      }
-    });
+export interface ImportResult {
+  // Migrated data, or null when the report contains errors
+  data: KnowledgeWeaverData | null;
+  report: ImportReport;
+}
 
+/**
+ * Parse, migrate and validate an exported file without touching any state,
+ * so the caller can show the report before anything is overwritten.
+ */
+export const parseImportData = (jsonData: string): ImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonData);
+  } catch (error) {
     return {
-      personas: migratedPersonas,
-      knowledgeSources: data.knowledgeSources
+      data: null,
+      report: unreadableFileReport(`is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`)
     };
-  } catch (error) {
-    throw new Error(`Failed to import data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
+  return migrateAndValidate(raw);
 };
 
-export const downloadData = (personas: Persona[], knowledgeSources: Source[], filename?: string) => {
-  const data = exportData(personas, knowledgeSources);
+export const importData = (jsonData: string): { personas: Persona[], knowledgeSources: Source[] } => {
+  const { data, report } = parseImportData(jsonData);
+  if (!data) {
+    const errors = report.issues
+      .filter(issue => issue.severity === 'error')
+      .map(issue => `${issue.path} ${issue.message}`);
+    throw new Error(`Failed to import data: ${errors.join('; ')}`);
+  }
+
+  return {
+    personas: data.personas,
+    knowledgeSources: data.knowledgeSources
+  };
+};
+
+const downloadJson = (data: string, filename: string) => {
   const blob = new Blob([data], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
 
   const a = document.createElement('a');
   a.href = url;
-  a.download = filename || `knowledge-weaver-backup-${new Date().toISOString().split('T')[0]}.json`;
+  a.download = filename;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 };
 
-export const uploadData = (): Promise<{ personas: Persona[], knowledgeSources: Source[] }> => {
+export const downloadData = (personas: Persona[], knowledgeSources: Source[], filename?: string) => {
+  downloadJson(
+    exportData(personas, knowledgeSources),
+    filename || `knowledge-weaver-backup-${new Date().toISOString().split('T')[0]}.json`
+  );
+};
+
+export const downloadFullBackup = async (
+  personas: Persona[],
+  knowledgeSources: Source[],
+  options: FullBackupOptions = {},
+  filename?: string
+) => {
+  downloadJson(
+    await exportFullBackup(personas, knowledgeSources, options),
+    filename || `knowledge-weaver-full-backup-${new Date().toISOString().split('T')[0]}.json`
+  );
+};
+
+export const uploadData = (): Promise<ImportResult> => {
   return new Promise((resolve, reject) => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -113,13 +175,7 @@ export const uploadData = (): Promise<{ personas: Persona[], knowledgeSources: S
 
       const reader = new FileReader();
       reader.onload = (e) => {
-        try {
-          const content = e.target?.result as string;
-          const data = importData(content);
-          resolve(data);
-        } catch (error) {
-          reject(error);
-        }
+        resolve(parseImportData(e.target?.result as string));
       };
       reader.onerror = () => reject(new Error('Failed to read file'));
       reader.readAsText(file);
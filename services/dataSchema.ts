@@ -0,0 +1,562 @@
+import type { KnowledgeWeaverData } from './dataManager';
+import { isStateStoreName } from './db';
+import { isLegacyParsePlaceholder } from './sourceMetadata';
+
+/**
+ * Export format version written by `exportData`. Bump it together with a new
+ * entry in MIGRATIONS whenever the shape of KnowledgeWeaverData changes.
+ */
+export const CURRENT_DATA_VERSION = '1.6.0';
+
+// Exports made before the version field existed
+const UNVERSIONED_DATA_VERSION = '1.0.0';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  // Location in the imported file, e.g. `personas[2].documentSnapshots[0].version`
+  path: string;
+  message: string;
+}
+
+export interface ImportReport {
+  sourceVersion: string;
+  targetVersion: string;
+  migrationsApplied: string[];
+  issues: ValidationIssue[];
+  // False when any issue is an error; the data must not be imported then
+  valid: boolean;
+  counts: {
+    personas: number;
+    knowledgeSources: number;
+    snapshots: number;
+    guidance: number;
+    // Records in the full-backup workspace section, 0 for plain exports
+    workspaceRecords: number;
+  };
+}
+
+// An imported JSON object before validation: every value still has to be checked
+type UntrustedRecord = Record<string, unknown>;
+
+interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: UntrustedRecord) => UntrustedRecord;
+}
+
+const isObject = (value: unknown): value is UntrustedRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOneOf = (values: string[], value: unknown): boolean => typeof value === 'string' && values.includes(value);
+
+const lengthOf = (value: unknown): number => (Array.isArray(value) ? value.length : 0);
+
+const mapPersonas = (data: UntrustedRecord, fn: (persona: UntrustedRecord) => UntrustedRecord): UntrustedRecord =>
+  Array.isArray(data.personas)
+    ? { ...data, personas: data.personas.map((p: unknown) => (isObject(p) ? fn(p) : p)) }
+    : data;
+
+const flagPlaceholders = (sources: unknown): unknown =>
+  Array.isArray(sources)
+    ? sources.map((source: unknown) =>
+        isObject(source) && typeof source.content === 'string' && isLegacyParsePlaceholder(source.content)
+          ? { ...source, parseFailed: true }
+          : source
+      )
+    : sources;
+
+/**
+ * Forward migrations, applied in order from the file's version up to
+ * CURRENT_DATA_VERSION. Each one only fills in what its version introduced.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Added calibration status and default persona fields',
+    migrate: (data) =>
+      mapPersonas(data, (persona) => ({
+        ...persona,
+        surname: persona.surname ?? '',
+        bio: persona.bio ?? '',
+        shaperSources: persona.shaperSources ?? [],
+        calibrationStatus: persona.calibrationStatus || 'uncalibrated',
+      })),
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Added calibration and evolution summaries; guidance gained an applied flag',
+    migrate: (data) => {
+      const migrated = mapPersonas(data, (persona) => ({
+        ...persona,
+        developmentGuidance: Array.isArray(persona.developmentGuidance)
+          ? persona.developmentGuidance.map((g: unknown) => (isObject(g) ? { applied: false, ...g } : g))
+          : persona.developmentGuidance,
+      }));
+      const personas = Array.isArray(migrated.personas) ? migrated.personas.filter(isObject) : [];
+      return {
+        ...migrated,
+        calibrationData: migrated.calibrationData ?? {
+          lastCalibrationCheck: migrated.exportDate ?? new Date().toISOString(),
+          calibratedPersonas: personas.filter((p) => p.calibrationStatus === 'calibrated').map((p) => p.id),
+        },
+        evolutionData: migrated.evolutionData ?? {
+          totalSnapshots: personas.reduce((sum, p) => sum + lengthOf(p.documentSnapshots), 0),
+          lastEvolutionUpdate: migrated.exportDate ?? new Date().toISOString(),
+        },
+      };
+    },
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Added the optional full-backup workspace section',
+    migrate: (data) => data,
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    description: 'Added optional source metadata (type, size, sections, author, dates, language, tags, parse warnings)',
+    migrate: (data) => data,
+  },
+  {
+    from: '1.4.0',
+    to: '1.5.0',
+    description: 'Added optional translated working copies of sources',
+    migrate: (data) => data,
+  },
+  {
+    from: '1.5.0',
+    to: '1.6.0',
+    description: 'Flagged sources that stood in for files that failed to parse',
+    migrate: (data) => ({
+      ...mapPersonas(data, (persona) => ({ ...persona, shaperSources: flagPlaceholders(persona.shaperSources) })),
+      knowledgeSources: flagPlaceholders(data.knowledgeSources),
+    }),
+  },
+];
+
+const compareVersions = (a: string, b: string): number => {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+class IssueCollector {
+  issues: ValidationIssue[] = [];
+
+  error(path: string, message: string) {
+    this.issues.push({ severity: 'error', path, message });
+  }
+
+  warning(path: string, message: string) {
+    this.issues.push({ severity: 'warning', path, message });
+  }
+}
+
+const requireString = (record: UntrustedRecord, key: string, path: string, issues: IssueCollector, allowEmpty = false) => {
+  const value = record[key];
+  if (typeof value !== 'string') {
+    issues.error(`${path}.${key}`, value === undefined ? 'is required' : 'must be a string');
+  } else if (!allowEmpty && value.trim() === '') {
+    issues.error(`${path}.${key}`, 'must not be empty');
+  }
+};
+
+const optionalString = (record: UntrustedRecord, key: string, path: string, issues: IssueCollector) => {
+  if (record[key] !== undefined && typeof record[key] !== 'string') {
+    issues.error(`${path}.${key}`, 'must be a string');
+  }
+};
+
+const requireNumber = (record: UntrustedRecord, key: string, path: string, issues: IssueCollector, min?: number, max?: number) => {
+  const value = record[key];
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    issues.error(`${path}.${key}`, value === undefined ? 'is required' : 'must be a number');
+  } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    issues.error(`${path}.${key}`, max === undefined ? `must be at least ${min}` : `must be between ${min} and ${max}`);
+  }
+};
+
+const requireStringArray = (record: UntrustedRecord, key: string, path: string, issues: IssueCollector) => {
+  const value = record[key];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    issues.error(`${path}.${key}`, 'must be an array of strings');
+  }
+};
+
+const checkTimestamp = (record: UntrustedRecord, key: string, path: string, issues: IssueCollector) => {
+  requireString(record, key, path, issues);
+  if (typeof record[key] === 'string' && Number.isNaN(Date.parse(record[key]))) {
+    issues.warning(`${path}.${key}`, 'is not a valid date');
+  }
+};
+
+const checkUniqueIds = (records: unknown[], path: string, issues: IssueCollector) => {
+  const seen = new Set<string>();
+  records.forEach((record, index) => {
+    if (!isObject(record) || typeof record.id !== 'string') return;
+    if (seen.has(record.id)) issues.warning(`${path}[${index}].id`, `duplicates id "${record.id}"; the later record wins`);
+    seen.add(record.id);
+  });
+};
+
+const validateSource = (source: unknown, path: string, issues: IssueCollector) => {
+  if (!isObject(source)) {
+    issues.error(path, 'must be an object');
+    return;
+  }
+  requireString(source, 'id', path, issues);
+  requireString(source, 'name', path, issues);
+  requireString(source, 'content', path, issues, true);
+  ['path', 'contentHash', 'mimeType', 'author', 'language'].forEach(key => optionalString(source, key, path, issues));
+  if (source.size !== undefined) requireNumber(source, 'size', path, issues, 0);
+  if (source.publishedAt !== undefined) checkTimestamp(source, 'publishedAt', path, issues);
+  if (source.ingestedAt !== undefined) checkTimestamp(source, 'ingestedAt', path, issues);
+  if (source.tags !== undefined) requireStringArray(source, 'tags', path, issues);
+  if (source.parseWarnings !== undefined) requireStringArray(source, 'parseWarnings', path, issues);
+  if (source.parseFailed !== undefined && typeof source.parseFailed !== 'boolean') {
+    issues.error(`${path}.parseFailed`, 'must be a boolean');
+  }
+  if (source.translation !== undefined) {
+    if (!isObject(source.translation)) {
+      issues.error(`${path}.translation`, 'must be an object');
+    } else {
+      requireString(source.translation, 'language', `${path}.translation`, issues);
+      requireString(source.translation, 'content', `${path}.translation`, issues, true);
+      checkTimestamp(source.translation, 'translatedAt', `${path}.translation`, issues);
+    }
+  }
+  if (source.sections !== undefined) {
+    if (!Array.isArray(source.sections)) {
+      issues.error(`${path}.sections`, 'must be an array');
+    } else {
+      source.sections.forEach((section: unknown, i: number) => {
+        if (!isObject(section)) {
+          issues.error(`${path}.sections[${i}]`, 'must be an object');
+          return;
+        }
+        requireString(section, 'title', `${path}.sections[${i}]`, issues, true);
+        requireNumber(section, 'level', `${path}.sections[${i}]`, issues, 1, 6);
+        ['start', 'end'].forEach(key => requireNumber(section, key, `${path}.sections[${i}]`, issues, 0));
+      });
+    }
+  }
+  if (typeof source.content === 'string' && source.content.trim() === '') {
+    issues.warning(`${path}.content`, 'is empty');
+  }
+  if (source.pages !== undefined) {
+    if (!Array.isArray(source.pages)) {
+      issues.error(`${path}.pages`, 'must be an array');
+    } else {
+      source.pages.forEach((page: unknown, i: number) => {
+        if (!isObject(page)) {
+          issues.error(`${path}.pages[${i}]`, 'must be an object');
+          return;
+        }
+        ['pageNumber', 'start', 'end'].forEach(key => requireNumber(page, key, `${path}.pages[${i}]`, issues, 0));
+        if (page.ocrConfidence !== undefined) {
+          requireNumber(page, 'ocrConfidence', `${path}.pages[${i}]`, issues, 0, 100);
+        }
+      });
+    }
+  }
+  if (source.transcript !== undefined) {
+    if (!Array.isArray(source.transcript)) {
+      issues.error(`${path}.transcript`, 'must be an array');
+    } else {
+      source.transcript.forEach((segment: unknown, i: number) => {
+        if (!isObject(segment)) {
+          issues.error(`${path}.transcript[${i}]`, 'must be an object');
+          return;
+        }
+        ['startTime', 'endTime', 'start', 'end'].forEach(key => requireNumber(segment, key, `${path}.transcript[${i}]`, issues, 0));
+        optionalString(segment, 'speaker', `${path}.transcript[${i}]`, issues);
+      });
+    }
+  }
+  if (source.structured !== undefined) {
+    validateStructured(source.structured, `${path}.structured`, issues);
+  }
+};
+
+const STRUCTURED_KINDS = ['spreadsheet', 'csv', 'json'];
+const COLUMN_TYPES = ['number', 'boolean', 'date', 'text', 'empty'];
+
+const validateStructured = (structured: unknown, path: string, issues: IssueCollector) => {
+  if (!isObject(structured)) {
+    issues.error(path, 'must be an object');
+    return;
+  }
+  if (!isOneOf(STRUCTURED_KINDS, structured.kind)) {
+    issues.error(`${path}.kind`, `must be one of ${STRUCTURED_KINDS.join(', ')}`);
+  }
+  if (!Array.isArray(structured.tables)) {
+    issues.error(`${path}.tables`, 'must be an array');
+  } else {
+    structured.tables.forEach((table: unknown, i: number) => {
+      const tablePath = `${path}.tables[${i}]`;
+      if (!isObject(table)) {
+        issues.error(tablePath, 'must be an object');
+        return;
+      }
+      requireString(table, 'name', tablePath, issues, true);
+      requireNumber(table, 'totalRows', tablePath, issues, 0);
+      if (!Array.isArray(table.columns) || table.columns.some((column: unknown) =>
+        !isObject(column) || typeof column.name !== 'string' || !isOneOf(COLUMN_TYPES, column.type)
+      )) {
+        issues.error(`${tablePath}.columns`, `must be an array of { name, type } with type one of ${COLUMN_TYPES.join(', ')}`);
+      }
+      if (!Array.isArray(table.rows) || table.rows.some((row: unknown) => !Array.isArray(row))) {
+        issues.error(`${tablePath}.rows`, 'must be an array of rows');
+      }
+    });
+  }
+  if (structured.paths !== undefined && (!Array.isArray(structured.paths) ||
+    structured.paths.some((entry: unknown) => !isObject(entry) || typeof entry.path !== 'string'))) {
+    issues.error(`${path}.paths`, 'must be an array of { path, value }');
+  }
+};
+
+const validateSnapshot = (snapshot: unknown, path: string, issues: IssueCollector) => {
+  if (!isObject(snapshot)) {
+    issues.error(path, 'must be an object');
+    return;
+  }
+  requireString(snapshot, 'id', path, issues);
+  checkTimestamp(snapshot, 'timestamp', path, issues);
+  requireString(snapshot, 'content', path, issues, true);
+  requireNumber(snapshot, 'version', path, issues, 0);
+  requireStringArray(snapshot, 'changes', path, issues);
+  requireString(snapshot, 'contextSummary', path, issues, true);
+};
+
+const GUIDANCE_TYPES = ['suggestion', 'improvement', 'refinement', 'validation'];
+
+const validateGuidance = (guidance: unknown, path: string, issues: IssueCollector) => {
+  if (!isObject(guidance)) {
+    issues.error(path, 'must be an object');
+    return;
+  }
+  requireString(guidance, 'id', path, issues);
+  checkTimestamp(guidance, 'timestamp', path, issues);
+  if (!isOneOf(GUIDANCE_TYPES, guidance.type)) {
+    issues.error(`${path}.type`, `must be one of ${GUIDANCE_TYPES.join(', ')}`);
+  }
+  requireString(guidance, 'content', path, issues);
+  if (typeof guidance.applied !== 'boolean') issues.error(`${path}.applied`, 'must be a boolean');
+  requireNumber(guidance, 'confidence', path, issues, 0, 100);
+};
+
+const CALIBRATION_STATUSES = ['uncalibrated', 'calibrating', 'calibrated'];
+
+const validatePersona = (persona: unknown, path: string, issues: IssueCollector) => {
+  if (!isObject(persona)) {
+    issues.error(path, 'must be an object');
+    return;
+  }
+  requireString(persona, 'id', path, issues);
+  requireString(persona, 'name', path, issues);
+  requireString(persona, 'surname', path, issues, true);
+  requireString(persona, 'role', path, issues);
+  requireString(persona, 'bio', path, issues, true);
+  if (!isOneOf(CALIBRATION_STATUSES, persona.calibrationStatus)) {
+    issues.error(`${path}.calibrationStatus`, `must be one of ${CALIBRATION_STATUSES.join(', ')}`);
+  } else if (persona.calibrationStatus === 'calibrating') {
+    issues.warning(`${path}.calibrationStatus`, 'was exported mid-calibration');
+  }
+  optionalString(persona, 'lastCalibrated', path, issues);
+
+  if (!Array.isArray(persona.shaperSources)) {
+    issues.error(`${path}.shaperSources`, 'must be an array');
+  } else {
+    persona.shaperSources.forEach((source: unknown, i: number) => validateSource(source, `${path}.shaperSources[${i}]`, issues));
+  }
+
+  if (persona.personalityProfile !== undefined) {
+    const profilePath = `${path}.personalityProfile`;
+    if (!isObject(persona.personalityProfile)) {
+      issues.error(profilePath, 'must be an object');
+    } else {
+      const profile = persona.personalityProfile;
+      ['coreTraits', 'expertiseAreas', 'behavioralPatterns', 'valueSystem'].forEach((key) =>
+        requireStringArray(profile, key, profilePath, issues)
+      );
+      ['communicationStyle', 'decisionFramework', 'worldview'].forEach((key) =>
+        requireString(profile, key, profilePath, issues, true)
+      );
+    }
+  }
+
+  if (persona.weights !== undefined) {
+    if (!isObject(persona.weights)) {
+      issues.error(`${path}.weights`, 'must be an object');
+    } else {
+      const weights = persona.weights;
+      ['personality', 'knowledge', 'documentContext'].forEach((key) =>
+        requireNumber(weights, key, `${path}.weights`, issues, 0, 1)
+      );
+    }
+  }
+
+  if (persona.documentSnapshots !== undefined) {
+    if (!Array.isArray(persona.documentSnapshots)) {
+      issues.error(`${path}.documentSnapshots`, 'must be an array');
+    } else {
+      persona.documentSnapshots.forEach((snapshot: unknown, i: number) =>
+        validateSnapshot(snapshot, `${path}.documentSnapshots[${i}]`, issues)
+      );
+      checkUniqueIds(persona.documentSnapshots, `${path}.documentSnapshots`, issues);
+    }
+  }
+
+  if (persona.developmentGuidance !== undefined) {
+    if (!Array.isArray(persona.developmentGuidance)) {
+      issues.error(`${path}.developmentGuidance`, 'must be an array');
+    } else {
+      persona.developmentGuidance.forEach((guidance: unknown, i: number) =>
+        validateGuidance(guidance, `${path}.developmentGuidance[${i}]`, issues)
+      );
+    }
+  }
+};
+
+const validateWorkspace = (workspace: unknown, issues: IssueCollector) => {
+  if (!isObject(workspace)) {
+    issues.error('workspace', 'must be an object');
+    return;
+  }
+  if (typeof workspace.includesDerived !== 'boolean') {
+    issues.error('workspace.includesDerived', 'must be a boolean');
+  }
+  if (!isObject(workspace.stores)) {
+    issues.error('workspace.stores', 'must be an object');
+  } else {
+    Object.entries(workspace.stores).forEach(([name, entries]) => {
+      const path = `workspace.stores.${name}`;
+      if (!isStateStoreName(name)) {
+        issues.warning(path, 'is not a known store and will be ignored');
+      } else if (!Array.isArray(entries)) {
+        issues.error(path, 'must be an array of [key, value] entries');
+      } else {
+        entries.forEach((entry, i) => {
+          if (!Array.isArray(entry) || entry.length !== 2 || typeof entry[0] !== 'string') {
+            issues.error(`${path}[${i}]`, 'must be a [key, value] entry with a string key');
+          }
+        });
+      }
+    });
+  }
+  if (workspace.analytics !== undefined && !Array.isArray(workspace.analytics)) {
+    issues.error('workspace.analytics', 'must be an array');
+  }
+};
+
+/**
+ * Validate data already migrated to CURRENT_DATA_VERSION.
+ */
+export const validateData = (data: unknown): ValidationIssue[] => {
+  const issues = new IssueCollector();
+  if (!isObject(data)) {
+    issues.error('$', 'must be a JSON object');
+    return issues.issues;
+  }
+
+  if (!Array.isArray(data.personas)) {
+    issues.error('personas', 'must be an array');
+  } else {
+    data.personas.forEach((persona: unknown, i: number) => validatePersona(persona, `personas[${i}]`, issues));
+    checkUniqueIds(data.personas, 'personas', issues);
+  }
+
+  if (!Array.isArray(data.knowledgeSources)) {
+    issues.error('knowledgeSources', 'must be an array');
+  } else {
+    data.knowledgeSources.forEach((source: unknown, i: number) => validateSource(source, `knowledgeSources[${i}]`, issues));
+    checkUniqueIds(data.knowledgeSources, 'knowledgeSources', issues);
+  }
+
+  if (data.exportDate !== undefined) checkTimestamp(data, 'exportDate', '$', issues);
+  if (data.workspace !== undefined) validateWorkspace(data.workspace, issues);
+  return issues.issues;
+};
+
+const emptyReport = (sourceVersion: string): ImportReport => ({
+  sourceVersion,
+  targetVersion: CURRENT_DATA_VERSION,
+  migrationsApplied: [],
+  issues: [],
+  valid: false,
+  counts: { personas: 0, knowledgeSources: 0, snapshots: 0, guidance: 0, workspaceRecords: 0 },
+});
+
+/**
+ * Report for a file that could not be read as JSON at all.
+ */
+export const unreadableFileReport = (message: string): ImportReport => ({
+  ...emptyReport('unknown'),
+  issues: [{ severity: 'error', path: '$', message }],
+});
+
+/**
+ * Bring parsed export data up to CURRENT_DATA_VERSION and validate it.
+ * Never throws for bad input: problems are reported in `report.issues`, and
+ * `data` is only returned when the report is valid.
+ */
+export const migrateAndValidate = (raw: unknown): { data: KnowledgeWeaverData | null; report: ImportReport } => {
+  const sourceVersion = isObject(raw) && typeof raw.version === 'string' ? raw.version : UNVERSIONED_DATA_VERSION;
+  const report = emptyReport(sourceVersion);
+
+  if (!isObject(raw)) {
+    report.issues.push({ severity: 'error', path: '$', message: 'must be a JSON object' });
+    return { data: null, report };
+  }
+  if (!/^\d+\.\d+\.\d+$/.test(sourceVersion)) {
+    report.issues.push({ severity: 'error', path: 'version', message: `"${sourceVersion}" is not a recognised version` });
+    return { data: null, report };
+  }
+  if (compareVersions(sourceVersion, CURRENT_DATA_VERSION) > 0) {
+    report.issues.push({
+      severity: 'error',
+      path: 'version',
+      message: `was written by a newer release (${sourceVersion}); this app reads up to ${CURRENT_DATA_VERSION}`,
+    });
+    return { data: null, report };
+  }
+
+  let data: UntrustedRecord = raw;
+  MIGRATIONS.forEach((migration) => {
+    if (compareVersions(sourceVersion, migration.to) < 0) {
+      data = migration.migrate(data);
+      report.migrationsApplied.push(`${migration.from} → ${migration.to}: ${migration.description}`);
+    }
+  });
+  data = { ...data, version: CURRENT_DATA_VERSION };
+
+  report.issues = validateData(data);
+  report.valid = !report.issues.some((issue) => issue.severity === 'error');
+
+  const personas = Array.isArray(data.personas) ? data.personas.filter(isObject) : [];
+  const { workspace } = data;
+  report.counts = {
+    personas: personas.length,
+    knowledgeSources: lengthOf(data.knowledgeSources),
+    snapshots: personas.reduce((sum, p) => sum + lengthOf(p.documentSnapshots), 0),
+    guidance: personas.reduce((sum, p) => sum + lengthOf(p.developmentGuidance), 0),
+    workspaceRecords: isObject(workspace)
+      ? Object.values(isObject(workspace.stores) ? workspace.stores : {}).reduce<number>((sum, entries) => sum + lengthOf(entries), 0) +
+        lengthOf(workspace.analytics)
+      : 0,
+  };
+
+  // validateData has checked every field KnowledgeWeaverData declares
+  return { data: report.valid ? (data as unknown as KnowledgeWeaverData) : null, report };
+};
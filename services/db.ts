@@ -1,29 +1,376 @@
-import { openDB } from 'idb';
+import { openDB, IDBPDatabase, IDBPTransaction } from 'idb';
 import { Persona, Source } from '../types';
+import { isLegacyParsePlaceholder } from './sourceMetadata';
 
-const dbPromise = openDB('knowledge-weaver-db', 1, {
-  upgrade(db) {
-    db.createObjectStore('personas', { keyPath: 'id' });
-    db.createObjectStore('knowledgeSources', { keyPath: 'id' });
+const DB_NAME = 'knowledge-weaver-db';
+const DB_VERSION = 4;
+
+/**
+ * Stores holding service state as key/value records, keyed the same way the
+ * owning service keys its in-memory map (source id, edit id, document id...).
+ */
+export type StateStoreName =
+  | 'embeddings'
+  | 'processedKnowledge'
+  | 'advancedKnowledge'
+  | 'editRatings'
+  | 'improvementSuggestions'
+  | 'feedback'
+  | 'processingHistory'
+  | 'documentVersions'
+  | 'searchIndex';
+
+const STATE_STORES: StateStoreName[] = [
+  'embeddings',
+  'processedKnowledge',
+  'advancedKnowledge',
+  'editRatings',
+  'improvementSuggestions',
+  'feedback',
+  'processingHistory',
+  'documentVersions',
+  'searchIndex',
+];
+
+// localStorage keys written before version 2. Map-backed services stored
+// `[key, value]` entry arrays; feedback and analytics stored plain arrays.
+const LEGACY_ENTRY_KEYS: Record<string, StateStoreName> = {
+  'knowledge-weaver-document-embeddings': 'embeddings',
+  'knowledge-weaver-processed-knowledge': 'processedKnowledge',
+  'knowledge-weaver-advanced-processed-knowledge': 'advancedKnowledge',
+  'knowledge-weaver-edit-ratings': 'editRatings',
+  'knowledge-weaver-improvement-suggestions': 'improvementSuggestions',
+  'knowledge-weaver-selective-processing-history': 'processingHistory',
+};
+const LEGACY_FEEDBACK_KEY = 'knowledge-weaver-feedbacks';
+const LEGACY_ANALYTICS_KEY = 'knowledge-weaver-analytics';
+const LEGACY_VERSIONS_PREFIX = 'document-versions-';
+
+const readLegacy = (key: string): unknown => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error(`Failed to read legacy data from ${key}:`, error);
+    return null;
+  }
+};
+
+const isLegacyEntry = (value: unknown): value is [string, unknown] =>
+  Array.isArray(value) && value.length === 2 && typeof value[0] === 'string';
+
+const hasStringId = (value: unknown): value is { id: string } =>
+  !!value && typeof value === 'object' && typeof (value as { id?: unknown }).id === 'string';
+
+let migratedLegacyKeys: string[] = [];
+
+/**
+ * Copy everything the services used to keep in localStorage into the new
+ * stores. Runs inside the upgrade transaction, so it happens exactly once.
+ */
+const migrateFromLocalStorage = (tx: IDBPTransaction<unknown, string[], 'versionchange'>) => {
+  if (typeof localStorage === 'undefined') return;
+  const migrated: string[] = [];
+
+  Object.entries(LEGACY_ENTRY_KEYS).forEach(([key, storeName]) => {
+    const entries = readLegacy(key);
+    if (!Array.isArray(entries)) return;
+    const store = tx.objectStore(storeName);
+    entries.filter(isLegacyEntry).forEach(([entryKey, value]) => store.put(value, entryKey));
+    migrated.push(key);
+  });
+
+  const feedbacks = readLegacy(LEGACY_FEEDBACK_KEY);
+  if (Array.isArray(feedbacks)) {
+    const store = tx.objectStore('feedback');
+    feedbacks.filter(hasStringId).forEach((feedback) => store.put(feedback, feedback.id));
+    migrated.push(LEGACY_FEEDBACK_KEY);
+  }
+
+  const events = readLegacy(LEGACY_ANALYTICS_KEY);
+  if (Array.isArray(events)) {
+    const store = tx.objectStore('analytics');
+    events.forEach((event: unknown) => store.add(event));
+    migrated.push(LEGACY_ANALYTICS_KEY);
+  }
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(LEGACY_VERSIONS_PREFIX)) continue;
+    const versions = readLegacy(key);
+    if (!Array.isArray(versions)) continue;
+    tx.objectStore('documentVersions').put(versions, key.slice(LEGACY_VERSIONS_PREFIX.length));
+    migrated.push(key);
+  }
+
+  migratedLegacyKeys = migrated;
+};
+
+const flagPlaceholder = (source: Source): Source =>
+  !source.parseFailed && isLegacyParsePlaceholder(source.content) ? { ...source, parseFailed: true } : source;
+
+/**
+ * Before version 4, files that failed to parse were saved as sources whose
+ * content was the error message. Flag them once so prompts can skip them.
+ */
+const flagLegacyPlaceholders = async (tx: IDBPTransaction<unknown, string[], 'versionchange'>) => {
+  let sourceCursor = await tx.objectStore('knowledgeSources').openCursor();
+  while (sourceCursor) {
+    const flagged = flagPlaceholder(sourceCursor.value);
+    if (flagged !== sourceCursor.value) await sourceCursor.update(flagged);
+    sourceCursor = await sourceCursor.continue();
+  }
+
+  let personaCursor = await tx.objectStore('personas').openCursor();
+  while (personaCursor) {
+    const persona: Persona = personaCursor.value;
+    const shaperSources = (persona.shaperSources || []).map(flagPlaceholder);
+    if (shaperSources.some((source, i) => source !== persona.shaperSources[i])) {
+      await personaCursor.update({ ...persona, shaperSources });
+    }
+    personaCursor = await personaCursor.continue();
+  }
+};
+
+let dbPromise: Promise<IDBPDatabase> | null = null;
+
+const getDB = (): Promise<IDBPDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDB(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion, _newVersion, tx) {
+        if (oldVersion < 1) {
+          db.createObjectStore('personas', { keyPath: 'id' });
+          db.createObjectStore('knowledgeSources', { keyPath: 'id' });
+        }
+        if (oldVersion < 2) {
+          STATE_STORES.forEach((name) => db.createObjectStore(name));
+          db.createObjectStore('analytics', { autoIncrement: true });
+          migrateFromLocalStorage(tx);
+        }
+        // Older databases got it with the other state stores above
+        if (oldVersion === 2) {
+          db.createObjectStore('searchIndex');
+        }
+        if (oldVersion >= 1 && oldVersion < 4) {
+          flagLegacyPlaceholders(tx).catch((error) => console.error('Failed to flag placeholder sources:', error));
+        }
+      },
+    }).then((db) => {
+      // Only drop the old keys once the upgrade transaction has committed
+      migratedLegacyKeys.forEach((key) => localStorage.removeItem(key));
+      migratedLegacyKeys = [];
+      return db;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * CRUD access to a store of records keyed by `id`.
+ */
+export interface Repository<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  // Rejects if a record with the same id already exists
+  create(record: T): Promise<void>;
+  update(record: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Persist the difference between two versions of the collection: records
+  // missing from `next` are deleted, new or replaced records are written
+  sync(previous: T[], next: T[]): Promise<void>;
+  // Make the store hold exactly `records`
+  replaceAll(records: T[]): Promise<void>;
+}
+
+const createRepository = <T extends { id: string }>(storeName: 'personas' | 'knowledgeSources'): Repository<T> => ({
+  async list() {
+    return (await getDB()).getAll(storeName);
+  },
+  async get(id) {
+    return (await getDB()).get(storeName, id);
+  },
+  async create(record) {
+    await (await getDB()).add(storeName, record);
+  },
+  async update(record) {
+    await (await getDB()).put(storeName, record);
+  },
+  async delete(id) {
+    await (await getDB()).delete(storeName, id);
+  },
+  async sync(previous, next) {
+    const nextIds = new Set(next.map((record) => record.id));
+    const previousById = new Map(previous.map((record) => [record.id, record]));
+    const removed = previous.filter((record) => !nextIds.has(record.id));
+    // Unchanged records keep their identity through immutable updates
+    const changed = next.filter((record) => previousById.get(record.id) !== record);
+    if (removed.length === 0 && changed.length === 0) return;
+
+    const tx = (await getDB()).transaction(storeName, 'readwrite');
+    await Promise.all([
+      ...removed.map((record) => tx.store.delete(record.id)),
+      ...changed.map((record) => tx.store.put(record)),
+    ]);
+    await tx.done;
+  },
+  async replaceAll(records) {
+    const tx = (await getDB()).transaction(storeName, 'readwrite');
+    await tx.store.clear();
+    await Promise.all(records.map((record) => tx.store.put(record)));
+    await tx.done;
   },
 });
 
-export const getPersonas = async (): Promise<Persona[]> => {
-  return (await dbPromise).getAll('personas');
-};
+export const personaRepository = createRepository<Persona>('personas');
+export const knowledgeSourceRepository = createRepository<Source>('knowledgeSources');
 
-export const savePersonas = async (personas: Persona[]) => {
-  const tx = (await dbPromise).transaction('personas', 'readwrite');
-  await Promise.all(personas.map((persona) => tx.store.put(persona)));
+/**
+ * Read every record of a state store as `[key, value]` entries, ready to be
+ * passed to `new Map(...)`.
+ */
+export const getStateEntries = async <T>(storeName: StateStoreName): Promise<[string, T][]> => {
+  const tx = (await getDB()).transaction(storeName, 'readonly');
+  const [keys, values] = await Promise.all([tx.store.getAllKeys(), tx.store.getAll()]);
   await tx.done;
+  return keys.map((key, i) => [String(key), values[i] as T]);
 };
 
-export const getKnowledgeSources = async (): Promise<Source[]> => {
-  return (await dbPromise).getAll('knowledgeSources');
+/**
+ * Upsert entries into a state store in a single transaction.
+ */
+export const putStateEntries = async <T>(storeName: StateStoreName, entries: Iterable<[string, T]>) => {
+  const tx = (await getDB()).transaction(storeName, 'readwrite');
+  await Promise.all(Array.from(entries, ([key, value]) => tx.store.put(value, key)));
+  await tx.done;
 };
 
-export const saveKnowledgeSources = async (sources: Source[]) => {
-  const tx = (await dbPromise).transaction('knowledgeSources', 'readwrite');
-  await Promise.all(sources.map((source) => tx.store.put(source)));
+/**
+ * Delete entries from a state store in a single transaction.
+ */
+export const deleteStateEntries = async (storeName: StateStoreName, keys: Iterable<string>) => {
+  const tx = (await getDB()).transaction(storeName, 'readwrite');
+  await Promise.all(Array.from(keys, (key) => tx.store.delete(key)));
   await tx.done;
 };
+
+/**
+ * Implemented by services that keep their state in IndexedDB. `loaded`
+ * resolves once that state has been read back; until then the service only
+ * sees what was recorded in this session.
+ */
+export interface PersistedService {
+  readonly loaded: Promise<void>;
+}
+
+/**
+ * Read a state store into a service's in-memory map. Entries the service set
+ * while the store was still loading take precedence, unless `merge` combines
+ * them with the stored value. Failures are logged and leave the map as it was.
+ */
+export const loadStateInto = async <T>(
+  storeName: StateStoreName,
+  map: Map<string, T>,
+  merge: (stored: T, current: T) => T = (_stored, current) => current
+): Promise<void> => {
+  try {
+    const entries = await getStateEntries<T>(storeName);
+    entries.forEach(([key, stored]) => map.set(key, map.has(key) ? merge(stored, map.get(key)!) : stored));
+  } catch (error) {
+    console.error(`Failed to load the ${storeName} store:`, error);
+  }
+};
+
+export const clearStateStore = async (storeName: StateStoreName | 'analytics') => {
+  await (await getDB()).clear(storeName);
+};
+
+export const getAnalyticsEvents = async <T>(): Promise<T[]> => {
+  return (await getDB()).getAll('analytics');
+};
+
+export const addAnalyticsEvent = async <T>(event: T) => {
+  await (await getDB()).add('analytics', event);
+};
+
+/**
+ * State stores whose contents can be regenerated from personas and sources
+ * (by re-running embedding, processing, analysis or search indexing), mostly
+ * at the cost of model calls.
+ */
+export const DERIVED_STATE_STORES: StateStoreName[] = [
+  'embeddings',
+  'processedKnowledge',
+  'advancedKnowledge',
+  'processingHistory',
+  'improvementSuggestions',
+  'searchIndex',
+];
+
+export const isStateStoreName = (name: string): name is StateStoreName =>
+  (STATE_STORES as string[]).includes(name);
+
+/**
+ * Raw contents of the service state stores, as written to full backups.
+ */
+export interface WorkspaceState {
+  stores: Partial<Record<StateStoreName, [string, unknown][]>>;
+  analytics?: unknown[];
+}
+
+export const exportWorkspaceState = async (includeDerived: boolean): Promise<WorkspaceState> => {
+  const names = STATE_STORES.filter((name) => includeDerived || !DERIVED_STATE_STORES.includes(name));
+  const stores: WorkspaceState['stores'] = {};
+  for (const name of names) {
+    stores[name] = await getStateEntries(name);
+  }
+  return { stores, analytics: await getAnalyticsEvents() };
+};
+
+/**
+ * Replace personas, sources and every store present in `state`, in one
+ * transaction, so a failed restore leaves the previous workspace intact.
+ * Derived stores missing from the backup are cleared rather than kept, since
+ * their entries describe the sources being replaced; other stores missing
+ * from it are left as they are.
+ */
+export const restoreWorkspaceState = async (
+  state: WorkspaceState,
+  records: { personas: Persona[]; knowledgeSources: Source[] }
+) => {
+  const names = Object.keys(state.stores).filter(isStateStoreName);
+  const staleDerived = DERIVED_STATE_STORES.filter((name) => !names.includes(name));
+  const storeNames = [
+    'personas',
+    'knowledgeSources',
+    ...names,
+    ...staleDerived,
+    ...(state.analytics ? ['analytics'] : []),
+  ];
+
+  const tx = (await getDB()).transaction(storeNames, 'readwrite');
+  const writes: Promise<unknown>[] = [];
+  try {
+    (['personas', 'knowledgeSources'] as const).forEach((name) => {
+      const store = tx.objectStore(name);
+      writes.push(store.clear());
+      records[name].forEach((record) => writes.push(store.put(record)));
+    });
+    names.forEach((name) => {
+      const store = tx.objectStore(name);
+      writes.push(store.clear());
+      (state.stores[name] || []).forEach(([key, value]) => writes.push(store.put(value, key)));
+    });
+    staleDerived.forEach((name) => writes.push(tx.objectStore(name).clear()));
+    if (state.analytics) {
+      const store = tx.objectStore('analytics');
+      writes.push(store.clear());
+      state.analytics.forEach((event) => writes.push(store.add(event)));
+    }
+  } catch (error) {
+    // A value that cannot be stored throws before it is queued; undo what already was
+    tx.abort();
+    await Promise.allSettled([...writes, tx.done]);
+    throw error;
+  }
+  await Promise.all([...writes, tx.done]);
+};
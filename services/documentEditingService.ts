@@ -1,9 +1,9 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Persona, Source } from '../types';
 import { PersonaCalibrationService } from './personaCalibrationService';
 import { AnalyticsService } from './analyticsService';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService, isAbortError } from './llmProvider';
+import { packContext, ContextPackReport } from './contextPacker';
+import { PersistedService, clearStateStore, loadStateInto, putStateEntries } from './db';
 
 export interface EditSegmentRequest {
   document: string;
@@ -11,12 +11,14 @@ export interface EditSegmentRequest {
   instruction: string;
   persona: Persona;
   knowledgeSources: Source[];
+  signal?: AbortSignal;
 }
 
 export interface EditSegmentResult {
   editedSegment: string;
   confidence: number;
   reasoning: string;
+  contextReport: ContextPackReport;
 }
 
 export interface EditRating {
@@ -27,16 +29,20 @@ export interface EditRating {
   timestamp: string;
 }
 
-export class DocumentEditingService {
+const SEGMENT_EDIT_CONTEXT_BUDGET = 6000;
+
+export class DocumentEditingService implements PersistedService {
   private static instance: DocumentEditingService;
   private analyticsService: AnalyticsService;
   private calibrationService: PersonaCalibrationService;
   private editRatings: Map<string, EditRating> = new Map();
 
+  readonly loaded: Promise<void>;
+
   private constructor() {
     this.analyticsService = AnalyticsService.getInstance();
     this.calibrationService = PersonaCalibrationService.getInstance();
-    this.loadRatings();
+    this.loaded = loadStateInto('editRatings', this.editRatings);
   }
 
   static getInstance(): DocumentEditingService {
@@ -50,16 +56,21 @@ export class DocumentEditingService {
    * Edit a specific segment of a document based on user instruction, persona, and knowledge sources
    */
   async editSegment(request: EditSegmentRequest): Promise<EditSegmentResult> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
-    // Prepare knowledge context
-    const knowledgeContext = request.knowledgeSources.map(source => 
-      `${source.name}: ${source.content.substring(0, 500)}...`
+    // Prepare knowledge context, keeping the passages most relevant to this edit
+    const packed = packContext(
+      request.knowledgeSources,
+      `${request.instruction}\n${request.segment}`,
+      { budgetTokens: SEGMENT_EDIT_CONTEXT_BUDGET }
+    );
+    const knowledgeContext = packed.sources.map(source =>
+      `${source.name}: ${source.content}`
     ).join('\n\n');
     
     // Get persona instruction
     const personaInstruction = this.calibrationService.isPersonaCalibrated(request.persona)
-      ? this.calibrationService.generateEnhancedSystemInstruction(request.persona, request.knowledgeSources)
+      ? this.calibrationService.generateEnhancedSystemInstruction(request.persona, packed.sources)
       : `You are ${request.persona.name} ${request.persona.surname}, a ${request.persona.role}.`;
     
     const prompt = `${personaInstruction}
@@ -88,8 +99,7 @@ INSTRUCTIONS:
 EDITED SEGMENT:`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const editedSegment = result.response.text().trim();
+      const editedSegment = (await llm.generate(prompt, { signal: request.signal })).trim();
       
       // Generate confidence score
       const confidencePrompt = `Rate your confidence in this edit on a scale of 1-100:
@@ -106,9 +116,9 @@ Respond with ONLY a number between 1-100:`;
       
       let confidence = 80;
       try {
-        const confidenceResult = await model.generateContent(confidencePrompt);
-        confidence = parseInt(confidenceResult.response.text().trim()) || 80;
+        confidence = parseInt((await llm.generate(confidencePrompt, { signal: request.signal })).trim()) || 80;
       } catch (error) {
+        if (isAbortError(error, request.signal)) throw error;
         console.error('Failed to generate confidence score:', error);
       }
       
@@ -125,9 +135,9 @@ Instruction: ${request.instruction}`;
       
       let reasoning = 'Edit completed based on instruction and persona expertise.';
       try {
-        const reasoningResult = await model.generateContent(reasoningPrompt);
-        reasoning = reasoningResult.response.text().trim();
+        reasoning = (await llm.generate(reasoningPrompt, { signal: request.signal })).trim();
       } catch (error) {
+        if (isAbortError(error, request.signal)) throw error;
         console.error('Failed to generate reasoning:', error);
       }
       
@@ -147,9 +157,11 @@ Instruction: ${request.instruction}`;
       return {
         editedSegment,
         confidence,
-        reasoning
+        reasoning,
+        contextReport: packed.report
       };
     } catch (error) {
+      if (isAbortError(error, request.signal)) throw error;
       console.error('Failed to edit segment:', error);
       throw new Error('Failed to edit document segment');
     }
@@ -194,29 +206,15 @@ Instruction: ${request.instruction}`;
   }
 
   private saveRatings() {
-    try {
-      const data = JSON.stringify(Array.from(this.editRatings.entries()));
-      localStorage.setItem('knowledge-weaver-edit-ratings', data);
-    } catch (error) {
+    putStateEntries('editRatings', this.editRatings).catch(error => {
       console.error('Failed to save edit ratings:', error);
-    }
-  }
-
-  private loadRatings() {
-    try {
-      const stored = localStorage.getItem('knowledge-weaver-edit-ratings');
-      if (stored) {
-        const entries = JSON.parse(stored);
-        this.editRatings = new Map(entries);
-      }
-    } catch (error) {
-      console.error('Failed to load edit ratings:', error);
-      this.editRatings = new Map();
-    }
+    });
   }
 
   clearRatings() {
     this.editRatings.clear();
-    localStorage.removeItem('knowledge-weaver-edit-ratings');
+    clearStateStore('editRatings').catch(error => {
+      console.error('Failed to clear edit ratings:', error);
+    });
   }
 }
\ No newline at end of file
@@ -1,7 +1,5 @@
 import { Persona, DocumentSnapshot, DevelopmentGuidance, Source } from '../types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService } from './llmProvider';
 
 export class DocumentEvolutionService {
   private static instance: DocumentEvolutionService;
@@ -40,7 +38,7 @@ export class DocumentEvolutionService {
   private async analyzeChanges(oldContent: string, newContent: string): Promise<string[]> {
     if (oldContent === newContent) return ['No changes detected'];
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
 
     const prompt = `Compare the old and new document versions and identify the key changes:
 
@@ -59,8 +57,7 @@ List the main changes in bullet points, focusing on:
 Be concise but specific.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
+      const response = await llm.generate(prompt);
 
       // Parse the response into bullet points
       const changes = response
@@ -76,7 +73,7 @@ Be concise but specific.`;
   }
 
   private async generateContextSummary(content: string, persona: Persona): Promise<string> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
 
     const prompt = `Create a concise summary of the current document context for ${persona.name} ${persona.surname} (${persona.role}):
 
@@ -91,8 +88,7 @@ Provide a 2-3 sentence summary that captures:
 This summary will help maintain context continuity in future interactions.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      return result.response.text().trim();
+      return (await llm.generate(prompt)).trim();
     } catch (error) {
       console.error('Failed to generate context summary:', error);
       return 'Document context summary unavailable';
@@ -105,7 +101,7 @@ This summary will help maintain context continuity in future interactions.`;
     knowledgeSources: Source[],
     snapshots: DocumentSnapshot[]
   ): Promise<DevelopmentGuidance[]> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
 
     const recentSnapshots = snapshots.slice(-3); // Last 3 snapshots for context
     const evolutionContext = recentSnapshots.map(s =>
@@ -141,8 +137,7 @@ Format as JSON array with objects containing:
 Return only the JSON array.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
+      const response = await llm.generate(prompt);
 
       const jsonMatch = response.match(/\[[\s\S]*\]/);
       if (!jsonMatch) throw new Error('No JSON array found');
@@ -172,7 +167,7 @@ Return only the JSON array.`;
       return { alignmentScore: 0, recommendations: ['Persona not calibrated'] };
     }
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
 
     const profile = persona.personalityProfile;
     const knowledgeContext = knowledgeSources.map(s =>
@@ -203,8 +198,7 @@ Analyze the alignment and provide:
 Format as JSON with "alignmentScore" and "recommendations" array.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
+      const response = await llm.generate(prompt);
 
       const jsonMatch = response.match(/\{[\s\S]*\}/);
       if (!jsonMatch) throw new Error('No JSON found');
@@ -0,0 +1,559 @@
+/**
+ * Text extraction for HTML, EPUB, RTF and ODT. These helpers work on the
+ * already-unpacked markup so they can be used without touching files; the
+ * archive handling lives in fileParser.ts.
+ */
+
+const ODF_OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+const ODF_TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+
+/**
+ * Collects text into blocks separated by blank lines. Inline text is
+ * whitespace-collapsed; `start` sets a prefix (heading marker, bullet) that
+ * applies to the next non-empty block until `end` closes the element.
+ */
+const createBlockWriter = () => {
+  const blocks: string[] = [];
+  let inline = '';
+  let prefix = '';
+
+  const flush = () => {
+    const text = inline.replace(/\s+/g, ' ').trim();
+    inline = '';
+    if (!text) return;
+    blocks.push(prefix + text);
+    prefix = '';
+  };
+
+  return {
+    text: (text: string) => { inline += text; },
+    start: (blockPrefix: string) => { flush(); prefix = blockPrefix; },
+    end: () => { flush(); prefix = ''; },
+    push: (block: string) => { flush(); if (block.trim()) blocks.push(block); },
+    flush,
+    result: () => { flush(); return blocks.join('\n\n'); },
+  };
+};
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const SKIPPED_HTML_TAGS = new Set(['script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'head', 'button', 'select']);
+
+const BLOCK_HTML_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'section', 'summary', 'table', 'tbody', 'thead', 'tfoot', 'ul',
+]);
+
+// Page furniture that is never the main content
+const NON_CONTENT_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'form', 'nav', 'header', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[aria-hidden="true"]',
+].join(', ');
+
+// class/id names that mark boilerplate blocks
+const BOILERPLATE_HINT = /(^|[-_\s])(comments?|sidebar|menu|nav|share|social|related|promo|advert|ads?|cookie|banner|breadcrumbs?|popup|modal|newsletter|subscribe)([-_\s]|$)/i;
+
+/**
+ * Convert an element's content to plain text, keeping headings as markdown
+ * `#` markers, list items as `- ` bullets and table rows as `a | b` lines.
+ */
+export const htmlElementToText = (root: Element): string => {
+  const writer = createBlockWriter();
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      writer.text(node.textContent || '');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.localName.toLowerCase();
+    if (SKIPPED_HTML_TAGS.has(tag)) return;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      writer.start(`${'#'.repeat(Number(heading[1]))} `);
+      element.childNodes.forEach(walk);
+      writer.end();
+    } else if (tag === 'li') {
+      writer.start('- ');
+      element.childNodes.forEach(walk);
+      writer.end();
+    } else if (tag === 'pre') {
+      writer.push((element.textContent || '').replace(/^\n+|\s+$/g, ''));
+    } else if (tag === 'tr') {
+      const cells = Array.from(element.children)
+        .filter(cell => /^t[dh]$/i.test(cell.localName))
+        .map(cell => htmlElementToText(cell).replace(/\s+/g, ' '));
+      writer.push(cells.filter(Boolean).join(' | '));
+    } else if (tag === 'br') {
+      writer.flush();
+    } else if (tag === 'img') {
+      const alt = element.getAttribute('alt');
+      if (alt) writer.text(` ${alt} `);
+    } else if (BLOCK_HTML_TAGS.has(tag)) {
+      writer.flush();
+      element.childNodes.forEach(walk);
+      writer.flush();
+    } else {
+      element.childNodes.forEach(walk);
+    }
+  };
+
+  walk(root);
+  return writer.result();
+};
+
+const textLength = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim().length;
+
+const linkDensity = (element: Element) => {
+  const length = textLength(element);
+  if (length === 0) return 0;
+  const linkLength = Array.from(element.querySelectorAll('a')).reduce((sum, link) => sum + textLength(link), 0);
+  return linkLength / length;
+};
+
+/**
+ * Pick the element most likely to hold the article, readability-style: each
+ * paragraph scores its parent (and half that for its grandparent) by length
+ * and comma count, and the best-scoring container after discounting link-
+ * heavy blocks wins. Falls back to the whole body.
+ */
+const findMainContent = (body: HTMLElement): Element => {
+  const scores = new Map<Element, number>();
+  const addScore = (element: Element | null, score: number) => {
+    if (element) scores.set(element, (scores.get(element) || 0) + score);
+  };
+
+  body.querySelectorAll('p, pre, td, blockquote').forEach(paragraph => {
+    const length = textLength(paragraph);
+    if (length < 25) return;
+    const commas = (paragraph.textContent || '').match(/,/g)?.length || 0;
+    const score = 1 + commas + Math.min(Math.floor(length / 100), 3);
+    addScore(paragraph.parentElement, score);
+    addScore(paragraph.parentElement?.parentElement || null, score / 2);
+  });
+
+  let best: Element = body;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+
+  // A lone winning paragraph usually means the article is split across siblings
+  return best !== body && best.parentElement && textLength(best) < textLength(best.parentElement) * 0.25
+    ? best.parentElement
+    : best;
+};
+
+/**
+ * Extract the readable main content of a saved web page: navigation,
+ * sidebars, comments and other boilerplate are dropped and the page title
+ * becomes a top-level heading.
+ */
+export const extractHtmlText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const title = (
+    doc.querySelector('meta[property="og:title"]')?.getAttribute('content') ||
+    doc.title ||
+    doc.querySelector('h1')?.textContent ||
+    ''
+  ).replace(/\s+/g, ' ').trim();
+
+  doc.body.querySelectorAll(NON_CONTENT_SELECTOR).forEach(element => element.remove());
+  doc.body.querySelectorAll('[class], [id]').forEach(element => {
+    const hint = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+    if (BOILERPLATE_HINT.test(hint) && !element.querySelector('article, main')) element.remove();
+  });
+
+  const main = doc.querySelector('article, main, [role="main"]');
+  const text = htmlElementToText(main && textLength(main) > 0 ? main : findMainContent(doc.body));
+
+  if (!title || text.startsWith(`# ${title}`)) return text;
+  return text ? `# ${title}\n\n${text}` : '';
+};
+
+// ---------------------------------------------------------------------------
+// EPUB
+// ---------------------------------------------------------------------------
+
+export interface EpubPackage {
+  title: string;
+  // Archive paths of the reading-order documents
+  spine: string[];
+  // Archive path of the EPUB 3 nav document or EPUB 2 NCX, if any
+  tocPath?: string;
+}
+
+/**
+ * Resolve an href found in `fromPath` to an archive path.
+ */
+export const resolveArchivePath = (fromPath: string, href: string): string => {
+  const parts = fromPath.split('/').slice(0, -1);
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+const parseXml = (xml: string, description: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Could not read ${description}: malformed XML`);
+  }
+  return doc;
+};
+
+const elementsByLocalName = (root: Document | Element, localName: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', localName));
+
+/**
+ * Path of the package (OPF) document named in META-INF/container.xml.
+ */
+export const parseEpubContainer = (xml: string): string => {
+  const rootfile = elementsByLocalName(parseXml(xml, 'EPUB container'), 'rootfile')[0];
+  const path = rootfile?.getAttribute('full-path');
+  if (!path) throw new Error('EPUB container does not name a package document');
+  return path;
+};
+
+export const parseEpubPackage = (xml: string, opfPath: string): EpubPackage => {
+  const doc = parseXml(xml, 'EPUB package document');
+  const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+  elementsByLocalName(doc, 'item').forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) {
+      manifest.set(id, {
+        href: resolveArchivePath(opfPath, href),
+        mediaType: item.getAttribute('media-type') || '',
+        properties: item.getAttribute('properties') || '',
+      });
+    }
+  });
+
+  const spineElement = elementsByLocalName(doc, 'spine')[0];
+  const spine = elementsByLocalName(doc, 'itemref')
+    .filter(ref => ref.getAttribute('linear') !== 'no')
+    .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+    .filter((item): item is NonNullable<typeof item> => !!item && /html/.test(item.mediaType))
+    .map(item => item.href);
+
+  const nav = Array.from(manifest.values()).find(item => item.properties.split(/\s+/).includes('nav'));
+  const ncx = manifest.get(spineElement?.getAttribute('toc') || '');
+
+  return {
+    title: elementsByLocalName(doc, 'title')[0]?.textContent?.trim() || '',
+    spine,
+    tocPath: nav?.href || ncx?.href,
+  };
+};
+
+/**
+ * Chapter titles keyed by archive path, from an EPUB 3 nav document or an
+ * EPUB 2 NCX. The first entry pointing into a document names it.
+ */
+export const parseEpubToc = (xml: string, tocPath: string): Map<string, string> => {
+  const titles = new Map<string, string>();
+  const add = (href: string | null, title: string | null | undefined) => {
+    const label = title?.replace(/\s+/g, ' ').trim();
+    if (!href || !label) return;
+    const path = resolveArchivePath(tocPath, href);
+    if (!titles.has(path)) titles.set(path, label);
+  };
+
+  if (/\.ncx$/i.test(tocPath)) {
+    elementsByLocalName(parseXml(xml, 'EPUB table of contents'), 'navPoint').forEach(point => {
+      const label = elementsByLocalName(point, 'text')[0]?.textContent;
+      add(elementsByLocalName(point, 'content')[0]?.getAttribute('src') || null, label);
+    });
+  } else {
+    const doc = new DOMParser().parseFromString(xml, 'text/html');
+    const toc = Array.from(doc.querySelectorAll('nav')).find(nav =>
+      (nav.getAttribute('epub:type') || nav.getAttribute('type') || '').includes('toc')
+    ) || doc.querySelector('nav');
+    toc?.querySelectorAll('a[href]').forEach(link => add(link.getAttribute('href'), link.textContent));
+  }
+
+  return titles;
+};
+
+/**
+ * Join chapter documents in reading order under the book title. Chapters
+ * that do not open with their own heading get one from the table of
+ * contents; chapters with no text (cover images, blank pages) are dropped.
+ */
+export const assembleEpub = (
+  pkg: EpubPackage,
+  chapters: { path: string; html: string }[],
+  tocTitles: Map<string, string>
+): string => {
+  const sections = chapters
+    .map(({ path, html }) => {
+      const body = new DOMParser().parseFromString(html, 'text/html').body;
+      const text = htmlElementToText(body);
+      const title = tocTitles.get(path);
+      if (!text) return '';
+      return title && !text.startsWith('#') ? `## ${title}\n\n${text}` : text;
+    })
+    .filter(Boolean);
+
+  return [pkg.title ? `# ${pkg.title}` : '', ...sections].filter(Boolean).join('\n\n');
+};
+
+// ---------------------------------------------------------------------------
+// RTF
+// ---------------------------------------------------------------------------
+
+// Groups whose content is metadata or binary rather than document text
+const SKIPPED_RTF_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'listtable', 'listoverridetable', 'rsidtbl', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'generator', 'xmlnstbl', 'fldinst', 'filetbl', 'revtbl',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n\n', page: '\n\n', row: '\n', cell: ' | ', tab: '\t',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’',
+  ldblquote: '“', rdblquote: '”', emspace: ' ', enspace: ' ', qmspace: ' ',
+};
+
+const CONTROL_WORD = /\\([a-zA-Z]+)(-?\d+)? ?/y;
+
+// `\fcharsetN` values and the Windows code page each stands for; ANSI and
+// default charsets are absent so they fall back to the document's `\ansicpg`
+const RTF_CHARSET_CODE_PAGES: Record<number, number> = {
+  77: 10000, 128: 932, 129: 949, 134: 936, 136: 950, 161: 1253, 162: 1254, 163: 1258,
+  177: 1255, 178: 1256, 186: 1257, 204: 1251, 222: 874, 238: 1250,
+};
+
+const CODE_PAGE_LABELS: Record<number, string> = {
+  932: 'shift_jis', 936: 'gbk', 949: 'euc-kr', 950: 'big5', 10000: 'macintosh', 65001: 'utf-8',
+};
+
+const codePageDecoders = new Map<number, TextDecoder>();
+const decodeCodePage = (bytes: number[], codePage: number) => {
+  let decoder = codePageDecoders.get(codePage);
+  if (!decoder) {
+    try {
+      decoder = new TextDecoder(CODE_PAGE_LABELS[codePage] ?? `windows-${codePage}`);
+    } catch {
+      // Code page the runtime has no decoder for
+      decoder = new TextDecoder('windows-1252');
+    }
+    codePageDecoders.set(codePage, decoder);
+  }
+  return decoder.decode(new Uint8Array(bytes));
+};
+
+/**
+ * Plain text from an RTF document. Handles groups, escaped characters,
+ * `\'hh` code-page bytes (in the current font's `\fcharset`, else the
+ * document's `\ansicpg`) and `\uN` Unicode escapes with their `\ucN`
+ * fallback characters; formatting is discarded.
+ */
+export const rtfToText = (rtf: string): string => {
+  interface GroupState { skip: boolean; unicodeSkip: number; font: number; fontTable: boolean }
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1, font: 0, fontTable: false };
+  let fallbackToSkip = 0;
+  let output = '';
+
+  let documentCodePage = 1252;
+  const fontCodePages = new Map<number, number>();
+  let definedFont = 0;
+
+  // Consecutive `\'hh` bytes decode together so double-byte code pages work
+  let pendingBytes: number[] = [];
+  let pendingCodePage = documentCodePage;
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    output += decodeCodePage(pendingBytes, pendingCodePage);
+    pendingBytes = [];
+  };
+
+  const skipFallback = () => {
+    if (fallbackToSkip === 0) return false;
+    fallbackToSkip--;
+    return true;
+  };
+
+  const emit = (text: string) => {
+    if (state.skip || skipFallback()) return;
+    output += text;
+  };
+
+  const emitByte = (byte: number) => {
+    if (state.skip || skipFallback()) return;
+    pendingCodePage = fontCodePages.get(state.font) ?? documentCodePage;
+    pendingBytes.push(byte);
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+    if (ch !== '\\' || rtf[i + 1] !== "'") flushBytes();
+
+    if (ch === '{') {
+      stack.push(state);
+      state = { ...state };
+      i++;
+    } else if (ch === '}') {
+      state = stack.pop() || state;
+      fallbackToSkip = 0;
+      i++;
+    } else if (ch === '\\') {
+      const next = rtf[i + 1];
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i += 2;
+      } else if (next === "'") {
+        emitByte(parseInt(rtf.substr(i + 2, 2), 16));
+        i += 4;
+      } else if (next === '*') {
+        // Ignorable destination: skip unless we understand it, and we don't
+        state.skip = true;
+        i += 2;
+      } else if (next === '~') {
+        emit(' ');
+        i += 2;
+      } else if (next === '_') {
+        emit('-');
+        i += 2;
+      } else if (next === '\n' || next === '\r') {
+        emit('\n');
+        i += 2;
+      } else {
+        CONTROL_WORD.lastIndex = i;
+        const match = CONTROL_WORD.exec(rtf);
+        if (!match) {
+          // Unknown control symbol such as \- (optional hyphen)
+          i += 2;
+          continue;
+        }
+        i = CONTROL_WORD.lastIndex;
+        const [, word, param] = match;
+        if (word === 'u' && param !== undefined) {
+          const code = Number(param);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          fallbackToSkip = state.unicodeSkip;
+        } else if (word === 'uc' && param !== undefined) {
+          state.unicodeSkip = Number(param);
+        } else if (word === 'bin' && param !== undefined) {
+          i += Number(param);
+        } else if (word === 'ansicpg' && param !== undefined) {
+          documentCodePage = Number(param);
+        } else if ((word === 'f' || word === 'deff') && param !== undefined) {
+          if (state.fontTable) definedFont = Number(param);
+          else state.font = Number(param);
+        } else if (word === 'fcharset' && param !== undefined && state.fontTable) {
+          const codePage = RTF_CHARSET_CODE_PAGES[Number(param)];
+          if (codePage) fontCodePages.set(definedFont, codePage);
+        } else if (word === 'fonttbl') {
+          state.skip = true;
+          state.fontTable = true;
+        } else if (SKIPPED_RTF_DESTINATIONS.has(word)) {
+          state.skip = true;
+        } else if (RTF_SYMBOLS[word]) {
+          emit(RTF_SYMBOLS[word]);
+        }
+      }
+    } else {
+      // Raw line breaks in RTF source are not content
+      if (ch !== '\n' && ch !== '\r') emit(ch);
+      i++;
+    }
+  }
+  flushBytes();
+
+  return output
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/g, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// ---------------------------------------------------------------------------
+// ODT
+// ---------------------------------------------------------------------------
+
+/**
+ * Plain text from an ODT `content.xml`, with headings at their outline level
+ * as markdown `#` markers, list items as bullets and table rows as `a | b`.
+ */
+export const odtContentToText = (xml: string): string => {
+  const doc = parseXml(xml, 'ODT content');
+  const body = doc.getElementsByTagNameNS(ODF_OFFICE_NS, 'text')[0];
+  if (!body) return '';
+
+  const writer = createBlockWriter();
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      writer.text(node.textContent || '');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    if (element.namespaceURI !== ODF_TEXT_NS && element.namespaceURI !== null) {
+      // Tables, frames and drawings: only table rows need special handling
+      if (element.localName === 'table-row') {
+        const cells = Array.from(element.children)
+          .filter(cell => cell.localName === 'table-cell')
+          .map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim());
+        writer.push(cells.filter(Boolean).join(' | '));
+        return;
+      }
+      element.childNodes.forEach(walk);
+      return;
+    }
+
+    switch (element.localName) {
+      case 'h': {
+        const level = Math.min(Number(element.getAttributeNS(ODF_TEXT_NS, 'outline-level')) || 1, 6);
+        writer.start(`${'#'.repeat(level)} `);
+        element.childNodes.forEach(walk);
+        writer.end();
+        break;
+      }
+      case 'p':
+        writer.flush();
+        element.childNodes.forEach(walk);
+        writer.flush();
+        break;
+      case 'list-item':
+        writer.start('- ');
+        element.childNodes.forEach(walk);
+        writer.end();
+        break;
+      case 's':
+      case 'tab':
+        writer.text(' ');
+        break;
+      case 'line-break':
+        writer.flush();
+        break;
+      // Declarations and change-tracking records are not document text
+      case 'sequence-decls':
+      case 'tracked-changes':
+      case 'note-citation':
+        break;
+      default:
+        element.childNodes.forEach(walk);
+    }
+  };
+
+  walk(body);
+  return writer.result();
+};
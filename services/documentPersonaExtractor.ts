@@ -1,7 +1,9 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Source } from '../types';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService } from './llmProvider';
+import { restrictToSpeaker } from './transcriptParser';
+import { isParsePlaceholder } from './sourceMetadata';
+import { WORKING_LANGUAGE, needsTranslation, workingText } from './translationService';
+import { languageName } from './languageDetection';
 
 export interface ExtractedPersonaInfo {
   name: string;
@@ -39,9 +41,10 @@ export class DocumentPersonaExtractor {
   /**
    * Check if document content is likely to be extractable
    */
-  private isContentExtractable(content: string): boolean {
+  private isContentExtractable(source: Source): boolean {
+    const content = workingText(source);
     // Check if content exists and has meaningful length
-    if (!content || content.trim().length < 50) {
+    if (!content || content.trim().length < 50 || isParsePlaceholder(source)) {
       return false;
     }
     
@@ -51,13 +54,33 @@ export class DocumentPersonaExtractor {
   }
 
   /**
-   * Extract persona information from a single document
+   * Tell the model whose words transcripts were narrowed to
+   */
+  private speakerInstruction(speaker?: string): string {
+    return speaker
+      ? `\nTranscripts below contain only what ${speaker} said. The persona is ${speaker}; describe them, not the other people in the conversation.\n`
+      : '';
+  }
+
+  /**
+   * Keep persona details in the working language when documents are not
+   */
+  private languageInstruction(sources: Source[]): string {
+    return sources.some(source => needsTranslation(source))
+      ? `\nSome documents are not in ${languageName(WORKING_LANGUAGE)}. Write all persona information in ${languageName(WORKING_LANGUAGE)}.\n`
+      : '';
+  }
+
+  /**
+   * Extract persona information from a single document. With `speaker`, a
+   * transcript is reduced to that speaker's turns first.
    */
-  async extractPersonaInfoFromDocument(source: Source): Promise<ExtractedPersonaInfo> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+  async extractPersonaInfoFromDocument(source: Source, speaker?: string): Promise<ExtractedPersonaInfo> {
+    const llm = LLMProviderService.getInstance().getProvider();
+    if (speaker) source = restrictToSpeaker(source, speaker);
     
     // Check if content is extractable
-    if (!this.isContentExtractable(source.content)) {
+    if (!this.isContentExtractable(source)) {
       // Return default values with informative message
       const fileName = source.name.replace(/\.pdf$/, '').replace(/_/g, ' ');
       return {
@@ -69,11 +92,11 @@ export class DocumentPersonaExtractor {
     }
     
     // Use a portion of the document content for analysis and clean it
-    const cleanedContent = this.cleanDocumentContent(source.content);
+    const cleanedContent = this.cleanDocumentContent(workingText(source));
     const documentContent = cleanedContent.substring(0, 3000);
 
     const prompt = `Based on the following document, extract persona information that would best represent the subject of this document.
-    
+${this.speakerInstruction(speaker)}${this.languageInstruction([source])}
 Document Title: ${source.name}
 Document Content:
 ${documentContent}
@@ -91,8 +114,7 @@ If the document is about a specific person, extract information about that perso
 Respond ONLY with the JSON object. Do not include any other text.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
+      const responseText = await llm.generate(prompt);
       
       // Extract JSON from response
       const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -132,15 +154,18 @@ Respond ONLY with the JSON object. Do not include any other text.`;
   }
 
   /**
-   * Extract persona information from multiple documents
+   * Extract persona information from multiple documents. With `speaker`,
+   * transcripts are reduced to that speaker's turns; other documents are
+   * used as they are.
    */
-  async extractPersonaInfoFromDocuments(sources: Source[]): Promise<ExtractedPersonaInfo> {
+  async extractPersonaInfoFromDocuments(sources: Source[], speaker?: string): Promise<ExtractedPersonaInfo> {
     if (sources.length === 0) {
       throw new Error('At least one source document is required');
     }
+    if (speaker) sources = sources.map(source => restrictToSpeaker(source, speaker));
 
     // Check if any content is extractable
-    const extractableSources = sources.filter(source => this.isContentExtractable(source.content));
+    const extractableSources = sources.filter(source => this.isContentExtractable(source));
     
     if (extractableSources.length === 0) {
       // If no extractable content, create a generic persona
@@ -155,19 +180,19 @@ Respond ONLY with the JSON object. Do not include any other text.`;
 
     // If only one document is extractable, use the single document extraction
     if (extractableSources.length === 1) {
-      return this.extractPersonaInfoFromDocument(extractableSources[0]);
+      return this.extractPersonaInfoFromDocument(extractableSources[0], speaker);
     }
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Combine sources content for analysis (clean each one)
     const combinedContent = extractableSources.map(source => {
-      const cleanedContent = this.cleanDocumentContent(source.content);
+      const cleanedContent = this.cleanDocumentContent(workingText(source));
       return `Document: ${source.name}\nContent: ${cleanedContent.substring(0, 1500)}`;
     }).join('\n\n---\n\n');
 
     const prompt = `Based on the following documents, create persona information that best represents the collective knowledge and perspective contained within them.
-    
+${this.speakerInstruction(speaker)}${this.languageInstruction(extractableSources)}
 Documents:
 ${combinedContent}
 
@@ -184,8 +209,7 @@ If the documents are about a specific person, focus on that person. If they cove
 Respond ONLY with the JSON object. Do not include any other text.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
+      const responseText = await llm.generate(prompt);
       
       // Extract JSON from response
       const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -218,7 +242,7 @@ Respond ONLY with the JSON object. Do not include any other text.`;
    */
   async updatePersonaInfoWithNewDocuments(existingInfo: ExtractedPersonaInfo, newSources: Source[]): Promise<ExtractedPersonaInfo> {
     // Check if any new sources have extractable content
-    const extractableSources = newSources.filter(source => this.isContentExtractable(source.content));
+    const extractableSources = newSources.filter(source => this.isContentExtractable(source));
     
     if (extractableSources.length === 0) {
       // If no extractable content, return existing info with a note
@@ -228,11 +252,11 @@ Respond ONLY with the JSON object. Do not include any other text.`;
       };
     }
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Combine new sources content for analysis (clean each one)
     const newContent = extractableSources.map(source => {
-      const cleanedContent = this.cleanDocumentContent(source.content);
+      const cleanedContent = this.cleanDocumentContent(workingText(source));
       return `Document: ${source.name}\nContent: ${cleanedContent.substring(0, 1000)}`;
     }).join('\n\n---\n\n');
 
@@ -243,7 +267,7 @@ Name: ${existingInfo.name}
 Surname: ${existingInfo.surname}
 Role: ${existingInfo.role}
 Bio: ${existingInfo.bio}
-
+${this.languageInstruction(extractableSources)}
 New Documents:
 ${newContent}
 
@@ -258,8 +282,7 @@ Please provide updated persona information in JSON format that incorporates insi
 Respond ONLY with the JSON object. Do not include any other text.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
+      const responseText = await llm.generate(prompt);
       
       // Extract JSON from response
       const jsonMatch = responseText.match(/\{[\s\S]*\}/);
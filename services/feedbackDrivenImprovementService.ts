@@ -1,8 +1,7 @@
 import { Persona } from '../types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { AnalyticsService } from './analyticsService';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService } from './llmProvider';
+import { PersistedService, clearStateStore, loadStateInto, putStateEntries } from './db';
 
 export interface EditRating {
   id: string;
@@ -27,15 +26,20 @@ export interface EditImprovementSuggestion {
   implementation: string; // How to implement the suggestion
 }
 
-export class FeedbackDrivenImprovementService {
+export class FeedbackDrivenImprovementService implements PersistedService {
   private static instance: FeedbackDrivenImprovementService;
   private analyticsService: AnalyticsService;
   private editRatings: Map<string, EditRating> = new Map();
   private improvementSuggestions: Map<string, EditImprovementSuggestion[]> = new Map();
 
+  readonly loaded: Promise<void>;
+
   private constructor() {
     this.analyticsService = AnalyticsService.getInstance();
-    this.loadRatings();
+    this.loaded = Promise.all([
+      loadStateInto('editRatings', this.editRatings),
+      loadStateInto('improvementSuggestions', this.improvementSuggestions),
+    ]).then(() => undefined);
   }
 
   static getInstance(): FeedbackDrivenImprovementService {
@@ -46,7 +50,7 @@ export class FeedbackDrivenImprovementService {
   }
 
   async rateEdit(editId: string, rating: number, detailedFeedback?: string): Promise<EditRating> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Generate quality metrics based on the rating and feedback
     const metricsPrompt = `Based on a ${rating}/5 star rating and the following feedback, generate quality metrics (0-100) for this edit:
@@ -71,8 +75,7 @@ Respond ONLY with a JSON object in this format:
     };
 
     try {
-      const metricsResult = await model.generateContent(metricsPrompt);
-      const metricsText = metricsResult.response.text();
+      const metricsText = await llm.generate(metricsPrompt);
       const jsonMatch = metricsText.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
         qualityMetrics = { ...qualityMetrics, ...JSON.parse(jsonMatch[0]) };
@@ -116,7 +119,7 @@ Respond ONLY with a JSON object in this format:
   }
 
   async generateImprovementSuggestions(editId: string, content: string, persona: Persona): Promise<EditImprovementSuggestion[]> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     const prompt = `As an expert editor, analyze this content and provide specific improvement suggestions for ${persona.name} ${persona.surname} (${persona.role}).
 
@@ -137,8 +140,7 @@ Format your response as a JSON array with objects containing:
 Respond ONLY with the JSON array:`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
+      const response = await llm.generate(prompt);
       
       const jsonMatch = response.match(/\[[\s\S]*\]/);
       if (!jsonMatch) throw new Error('No JSON array found');
@@ -209,56 +211,28 @@ Respond ONLY with the JSON array:`;
   }
 
   private saveRatings() {
-    try {
-      const data = JSON.stringify(Array.from(this.editRatings.entries()));
-      localStorage.setItem('knowledge-weaver-edit-ratings', data);
-    } catch (error) {
+    putStateEntries('editRatings', this.editRatings).catch(error => {
       console.error('Failed to save edit ratings:', error);
-    }
-  }
-
-  private loadRatings() {
-    try {
-      const stored = localStorage.getItem('knowledge-weaver-edit-ratings');
-      if (stored) {
-        const entries = JSON.parse(stored);
-        this.editRatings = new Map(entries);
-      }
-    } catch (error) {
-      console.error('Failed to load edit ratings:', error);
-      this.editRatings = new Map();
-    }
+    });
   }
 
   private saveSuggestions() {
-    try {
-      const data = JSON.stringify(Array.from(this.improvementSuggestions.entries()));
-      localStorage.setItem('knowledge-weaver-improvement-suggestions', data);
-    } catch (error) {
+    putStateEntries('improvementSuggestions', this.improvementSuggestions).catch(error => {
       console.error('Failed to save improvement suggestions:', error);
-    }
-  }
-
-  private loadSuggestions() {
-    try {
-      const stored = localStorage.getItem('knowledge-weaver-improvement-suggestions');
-      if (stored) {
-        const entries = JSON.parse(stored);
-        this.improvementSuggestions = new Map(entries);
-      }
-    } catch (error) {
-      console.error('Failed to load improvement suggestions:', error);
-      this.improvementSuggestions = new Map();
-    }
+    });
   }
 
   clearRatings() {
     this.editRatings.clear();
-    localStorage.removeItem('knowledge-weaver-edit-ratings');
+    clearStateStore('editRatings').catch(error => {
+      console.error('Failed to clear edit ratings:', error);
+    });
   }
 
   clearSuggestions() {
     this.improvementSuggestions.clear();
-    localStorage.removeItem('knowledge-weaver-improvement-suggestions');
+    clearStateStore('improvementSuggestions').catch(error => {
+      console.error('Failed to clear improvement suggestions:', error);
+    });
   }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { AnalyticsService } from './analyticsService';
+import { PersistedService, clearStateStore, getStateEntries, putStateEntries } from './db';
 
 export interface EditQualityMetrics {
   clarity: number; // 0-100
@@ -19,14 +20,16 @@ export interface UserFeedback {
   sessionId: string;
 }
 
-export class FeedbackService {
+export class FeedbackService implements PersistedService {
   private static instance: FeedbackService;
   private feedbacks: UserFeedback[] = [];
   private analyticsService: AnalyticsService;
 
+  readonly loaded: Promise<void>;
+
   private constructor() {
     this.analyticsService = AnalyticsService.getInstance();
-    this.loadFeedbacks();
+    this.loaded = this.loadFeedbacks();
   }
 
   static getInstance(): FeedbackService {
@@ -166,27 +169,28 @@ export class FeedbackService {
   }
 
   private saveFeedbacks() {
-    try {
-      localStorage.setItem('knowledge-weaver-feedbacks', JSON.stringify(this.feedbacks));
-    } catch (error) {
+    const entries = this.feedbacks.map((feedback): [string, UserFeedback] => [feedback.id, feedback]);
+    putStateEntries('feedback', entries).catch(error => {
       console.error('Failed to save feedbacks:', error);
-    }
+    });
   }
 
-  private loadFeedbacks() {
+  private async loadFeedbacks() {
     try {
-      const stored = localStorage.getItem('knowledge-weaver-feedbacks');
-      if (stored) {
-        this.feedbacks = JSON.parse(stored);
-      }
+      const entries = await getStateEntries<UserFeedback>('feedback');
+      const known = new Set(this.feedbacks.map(feedback => feedback.id));
+      const stored = entries.map(([, feedback]) => feedback).filter(feedback => !known.has(feedback.id));
+      this.feedbacks = [...stored, ...this.feedbacks]
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
     } catch (error) {
       console.error('Failed to load feedbacks:', error);
-      this.feedbacks = [];
     }
   }
 
   clearFeedbacks() {
     this.feedbacks = [];
-    localStorage.removeItem('knowledge-weaver-feedbacks');
+    clearStateStore('feedback').catch(error => {
+      console.error('Failed to clear feedbacks:', error);
+    });
   }
 }
\ No newline at end of file
@@ -1,78 +1,208 @@
-import { Source } from '../types';
+import type JSZip from 'jszip';
+import { Source, SourcePage, StructuredData, TranscriptSegment } from '../types';
+import { PdfTextItem, assemblePages, layoutPdfPage } from './pdfLayout';
+import { OcrResult, OcrService } from './ocrService';
+import {
+  assembleEpub,
+  extractHtmlText,
+  odtContentToText,
+  parseEpubContainer,
+  parseEpubPackage,
+  parseEpubToc,
+  rtfToText
+} from './documentFormats';
+import { assembleTranscript, parseSpeakerTranscript, parseSrt, parseVtt } from './transcriptParser';
+import { buildTable, capRows, findJsonTables, flattenJson, renderTable } from './structuredData';
+import { ParserPool, WorkerParseResult } from './parserPool';
+import { hashContent } from './sourceDedup';
+import { DocumentMetadata, extractHtmlMetadata, findSections, normalizeDate, parseDublinCore, pdfInfoMetadata } from './sourceMetadata';
+import { isAbortError } from './llmProvider';
+import { detectLanguage } from './languageDetection';
 
 // This is available globally from the script tag in index.html
 declare const pdfjsLib: any;
 
-// Configure the worker source for pdf.js to ensure it runs in a separate thread.
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.5.136/pdf.worker.mjs`;
+const PDFJS_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.5.136/pdf.mjs';
+const PDFJS_WORKER_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.5.136/pdf.worker.mjs';
+
+// Parser workers have no script tag, so they load the same pdf.js build themselves
+const getPdfjs = async () => {
+  if (typeof pdfjsLib === 'undefined') await import(/* @vite-ignore */ PDFJS_URL);
+  // Configure the worker source for pdf.js to ensure it runs in a separate thread.
+  pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+  return pdfjsLib;
+};
+
+export interface ParseContext {
+  signal?: AbortSignal;
+  // Fraction of the file parsed so far, 0-1, for parsers that can tell
+  onProgress?: (fraction: number) => void;
+}
 
 // Import additional parsers (these would be imported when available)
-const readDocxFile = async (file: File): Promise<string> => {
+const readDocxFile = async (file: File): Promise<ParsedContent> => {
+  let content: string;
   try {
     // Dynamic import to handle potential missing library
     const mammoth = await import('mammoth');
     const arrayBuffer = await file.arrayBuffer();
     const result = await mammoth.extractRawText({ arrayBuffer });
-    return result.value;
+    content = result.value;
   } catch (error) {
     throw new Error(`DOCX parsing not available: ${error}`);
   }
+  return { content, metadata: await readZipMetadata(file, 'docProps/core.xml') };
 };
 
-const readXlsxFile = async (file: File): Promise<string> => {
+const readXlsxFile = async (file: File): Promise<ParsedContent> => {
   try {
     // Dynamic import to handle potential missing library
     const XLSX = await import('xlsx');
     const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    let content = '';
-
-    workbook.SheetNames.forEach(sheetName => {
-      const worksheet = workbook.Sheets[sheetName];
-      content += `=== ${sheetName} ===\n`;
-      content += XLSX.utils.sheet_to_csv(worksheet);
-      content += '\n\n';
+    // cellDates keeps date cells as dates instead of serial numbers
+    const workbook = XLSX.read(arrayBuffer, { type: 'array', cellDates: true });
+
+    const tables = workbook.SheetNames.map(sheetName => {
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, raw: true, defval: null, blankrows: false });
+      return buildTable(sheetName, rows, false);
     });
 
-    return content;
+    return {
+      content: tables.map(renderTable).join('\n\n'),
+      structured: { kind: 'spreadsheet', tables: tables.map(capRows) },
+      metadata: {
+        ...(workbook.Props?.Author ? { author: workbook.Props.Author } : {}),
+        ...(workbook.Props?.CreatedDate ? { publishedAt: normalizeDate(workbook.Props.CreatedDate.toISOString()) } : {}),
+      },
+    };
   } catch (error) {
     throw new Error(`XLSX parsing not available: ${error}`);
   }
 };
 
-const readCsvFile = async (file: File): Promise<string> => {
+const readCsvFile = async (file: File): Promise<ParsedContent> => {
   try {
     // Dynamic import to handle potential missing library
     const Papa = await import('csv-parse');
     const text = await readTextFile(file);
 
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<string[][]>((resolve, reject) => {
       Papa.parse(text, {
         skip_empty_lines: true,
         columns: false,
         delimiter: ','
       }, (err, records) => {
         if (err) reject(err);
-        else resolve(records.map((row: any[]) => row.join(', ')).join('\n'));
+        else resolve(records);
       });
     });
+
+    const table = buildTable(file.name, records, true);
+    return { content: renderTable(table), structured: { kind: 'csv', tables: [capRows(table)] } };
   } catch (error) {
     throw new Error(`CSV parsing not available: ${error}`);
   }
 };
 
-const readJsonFile = async (file: File): Promise<string> => {
+const readJsonFile = async (file: File): Promise<ParsedContent> => {
   try {
     // Dynamic import to handle potential missing library
     const JSON5 = await import('json5');
     const text = await readTextFile(file);
     const parsed = JSON5.parse(text);
-    return JSON.stringify(parsed, null, 2);
+    return {
+      content: JSON.stringify(parsed, null, 2),
+      structured: { kind: 'json', tables: findJsonTables(parsed).map(capRows), paths: flattenJson(parsed) },
+    };
   } catch (error) {
     throw new Error(`JSON parsing not available: ${error}`);
   }
 };
 
+const loadZip = async (file: File, format: string) => {
+  try {
+    const JSZip = (await import('jszip')).default;
+    return await JSZip.loadAsync(await file.arrayBuffer());
+  } catch (error) {
+    throw new Error(`${format} file could not be opened: ${error}`);
+  }
+};
+
+const readZipEntry = async (zip: Awaited<ReturnType<typeof loadZip>>, path: string, format: string): Promise<string> => {
+  const entry = zip.file(path);
+  if (!entry) throw new Error(`${format} file is missing ${path}`);
+  return entry.async('string');
+};
+
+// Document properties from an XML part of an Office or OpenDocument archive; missing or broken properties are not an error
+const readZipMetadata = async (file: File, path: string): Promise<DocumentMetadata> => {
+  try {
+    const entry = (await loadZip(file, 'Archive')).file(path);
+    return entry ? parseDublinCore(await entry.async('string')) : {};
+  } catch {
+    return {};
+  }
+};
+
+const readHtmlFile = async (file: File): Promise<ParsedContent> => {
+  const html = await readTextFile(file);
+  return { content: extractHtmlText(html), metadata: extractHtmlMetadata(html) };
+};
+
+const readEpubFile = async (file: File): Promise<ParsedContent> => {
+  const zip = await loadZip(file, 'EPUB');
+  const opfPath = parseEpubContainer(await readZipEntry(zip, 'META-INF/container.xml', 'EPUB'));
+  const opf = await readZipEntry(zip, opfPath, 'EPUB');
+  const pkg = parseEpubPackage(opf, opfPath);
+  const warnings: ParseWarning[] = [];
+
+  let tocTitles = new Map<string, string>();
+  if (pkg.tocPath && zip.file(pkg.tocPath)) {
+    try {
+      tocTitles = parseEpubToc(await readZipEntry(zip, pkg.tocPath, 'EPUB'), pkg.tocPath);
+    } catch (error) {
+      // Chapters still read fine without titles from a broken table of contents
+      console.warn(`Ignoring unreadable table of contents in ${file.name}:`, error);
+      warnings.push({ code: 'toc_unreadable', message: 'The table of contents could not be read, so chapters are untitled' });
+    }
+  }
+
+  const chapters = [];
+  for (const path of pkg.spine) {
+    chapters.push({ path, html: await readZipEntry(zip, path, 'EPUB') });
+  }
+  return { content: assembleEpub(pkg, chapters, tocTitles), metadata: parseDublinCore(opf), warnings };
+};
+
+const readRtfFile = async (file: File): Promise<string> => {
+  return rtfToText(await readTextFile(file));
+};
+
+const readOdtFile = async (file: File): Promise<ParsedContent> => {
+  const zip = await loadZip(file, 'ODT');
+  return {
+    content: odtContentToText(await readZipEntry(zip, 'content.xml', 'ODT')),
+    metadata: await readZipMetadata(file, 'meta.xml'),
+  };
+};
+
+const readSrtFile = async (file: File): Promise<ParsedContent> => {
+  return assembleTranscript(parseSrt(await readTextFile(file)));
+};
+
+const readVttFile = async (file: File): Promise<ParsedContent> => {
+  const text = await readTextFile(file);
+  if (!/^\uFEFF?WEBVTT/.test(text)) throw new Error('Not a WebVTT file: missing WEBVTT header');
+  return assembleTranscript(parseVtt(text));
+};
+
+// Plain text that turns out to be a speaker-labelled transcript keeps its turns
+const readPlainTextFile = async (file: File): Promise<string | ParsedContent> => {
+  const text = await readTextFile(file);
+  const cues = parseSpeakerTranscript(text);
+  return cues ? assembleTranscript(cues) : text;
+};
+
 const readTextFile = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -82,42 +212,200 @@ const readTextFile = (file: File): Promise<string> => {
   });
 };
 
-const readPdfFile = async (file: File): Promise<string> => {
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-  let fullText = '';
+// Parsers that know the document's page or transcript structure, or its
+// author and date, return them alongside the text
+export interface ParsedContent {
+  content: string;
+  pages?: SourcePage[];
+  transcript?: TranscriptSegment[];
+  structured?: StructuredData;
+  metadata?: DocumentMetadata;
+  // Problems that did not stop parsing
+  warnings?: ParseWarning[];
+}
+
+export type ParseDiagnosticCode =
+  | 'unsupported_type'
+  | 'file_too_large'
+  | 'archive_too_large'
+  | 'archive_unreadable'
+  | 'too_many_files'
+  | 'parse_failed'
+  | 'no_text'
+  | 'page_unreadable'
+  | 'low_ocr_confidence'
+  | 'toc_unreadable';
+
+// A problem a parser noticed in a file it still read
+export interface ParseWarning {
+  code: ParseDiagnosticCode;
+  message: string;
+  page?: number;
+}
+
+/**
+ * Something that went wrong while reading an upload. Errors mean the file
+ * produced no source; warnings accompany a source or mark a skipped entry.
+ * Diagnostics are shown to the user and never become source content.
+ */
+export interface ParseDiagnostic extends ParseWarning {
+  severity: 'error' | 'warning';
+  // Relative path for files from folders and archives, otherwise the file name
+  file: string;
+}
+
+// OCR results below this mean confidence are flagged for review
+const LOW_OCR_CONFIDENCE = 60;
+
+// Scanned pages are rendered at twice their nominal size; Tesseract is far
+// more accurate at ~150-300 DPI than at the 72 DPI of a 1x viewport
+const OCR_RENDER_SCALE = 2;
+
+/** The subset of a pdf.js `PDFPageProxy` used to render a page for OCR. */
+interface PdfRenderablePage {
+  getViewport(params: { scale: number }): PdfViewport;
+  render(params: { canvasContext: CanvasRenderingContext2D | null; viewport: PdfViewport }): { promise: Promise<void> };
+}
+
+interface PdfViewport {
+  width: number;
+  height: number;
+}
+
+const renderPdfPage = async (page: PdfRenderablePage): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+  return canvas;
+};
+
+export interface PdfText {
+  // Laid-out text of each page; '' for pages without a text layer
+  pageTexts: string[];
+  metadata: DocumentMetadata;
+}
+
+const extractPdfText = async (file: File, context: ParseContext): Promise<PdfText> => {
+  const pdfjs = await getPdfjs();
+  const pdf = await pdfjs.getDocument(await file.arrayBuffer()).promise;
+  let metadata: DocumentMetadata = {};
+  try {
+    metadata = pdfInfoMetadata((await pdf.getMetadata())?.info);
+  } catch (error) {
+    console.warn(`Could not read PDF metadata of ${file.name}:`, error);
+  }
+  const pageTexts: string[] = [];
   for (let i = 1; i <= pdf.numPages; i++) {
+    context.signal?.throwIfAborted();
     const page = await pdf.getPage(i);
     const textContent = await page.getTextContent();
-    const pageText = textContent.items.map((item: any) => item.str).join(' ');
-    
-    // If no text content found, add a note about it being a scanned document
-    if (!pageText || pageText.trim().length === 0) {
-      fullText += `[Note: Page ${i} appears to be a scanned image with no extractable text. Please ensure the PDF contains selectable text for proper processing.]\n\n`;
-    } else {
-      fullText += pageText + '\n\n'; // Add newlines to separate page content
+    pageTexts.push(layoutPdfPage(textContent.items as PdfTextItem[]));
+    context.onProgress?.(i / pdf.numPages);
+  }
+  return { pageTexts, metadata };
+};
+
+/**
+ * Read pages without a text layer (probably scans) with OCR, then join all
+ * pages. Runs on the main thread: rendering a page for OCR needs a canvas.
+ */
+const completePdf = async (file: File, { pageTexts, metadata }: PdfText, context: ParseContext): Promise<ParsedContent> => {
+  const ocrResults = new Map<number, OcrResult>();
+  const scannedPages = pageTexts.map((text, i) => (text ? 0 : i + 1)).filter(Boolean);
+
+  if (scannedPages.length > 0) {
+    const pdfjs = await getPdfjs();
+    const pdf = await pdfjs.getDocument(await file.arrayBuffer()).promise;
+    for (const pageNumber of scannedPages) {
+      context.signal?.throwIfAborted();
+      try {
+        const page = await pdf.getPage(pageNumber);
+        ocrResults.set(pageNumber, await OcrService.getInstance().recognize(await renderPdfPage(page)));
+      } catch (error) {
+        console.error(`OCR failed for page ${pageNumber} of ${file.name}:`, error);
+      }
     }
   }
-  return fullText;
+
+  const texts = pageTexts.map((text, i) => text || ocrResults.get(i + 1)?.text || '');
+  // A PDF with no text on any page is reported as empty
+  if (!texts.some(Boolean)) return { content: '' };
+
+  const warnings: ParseWarning[] = [];
+  texts.forEach((text, i) => {
+    const page = i + 1;
+    const ocr = ocrResults.get(page);
+    if (!text) {
+      warnings.push({ code: 'page_unreadable', page, message: `Page ${page} appears to be a scanned image and no text could be recognized in it` });
+    } else if (ocr?.text && ocr.confidence < LOW_OCR_CONFIDENCE) {
+      warnings.push({ code: 'low_ocr_confidence', page, message: `Page ${page} was read with OCR at only ${ocr.confidence}% confidence` });
+    }
+  });
+
+  // Unreadable pages keep their [Page N] marker so page numbers stay right
+  const { content, pages } = assemblePages(texts);
+  return {
+    content,
+    pages: pages.map(page => {
+      const ocr = ocrResults.get(page.pageNumber);
+      return ocr?.text ? { ...page, ocrConfidence: ocr.confidence } : page;
+    }),
+    metadata,
+    warnings,
+  };
+};
+
+const readPdfFile = async (file: File, context: ParseContext): Promise<ParsedContent> => {
+  return completePdf(file, await extractPdfText(file, context), context);
 };
 
-// File type configurations
-const FILE_TYPE_CONFIG = {
-  'application/pdf': { parser: readPdfFile, maxSize: 50 * 1024 * 1024 }, // 50MB
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { parser: readDocxFile, maxSize: 25 * 1024 * 1024 }, // 25MB
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { parser: readXlsxFile, maxSize: 25 * 1024 * 1024 }, // 25MB
-  'text/csv': { parser: readCsvFile, maxSize: 10 * 1024 * 1024 }, // 10MB
-  'application/json': { parser: readJsonFile, maxSize: 10 * 1024 * 1024 }, // 10MB
-  'text/plain': { parser: readTextFile, maxSize: 10 * 1024 * 1024 }, // 10MB
-  'text/markdown': { parser: readTextFile, maxSize: 10 * 1024 * 1024 }, // 10MB
-} as const;
+const readImageFile = async (file: File): Promise<ParsedContent> => {
+  const { text, confidence } = await OcrService.getInstance().recognize(file);
+  if (!text) return { content: '' };
+  return {
+    content: text,
+    pages: [{ pageNumber: 1, start: 0, end: text.length, ocrConfidence: confidence }],
+    warnings: confidence < LOW_OCR_CONFIDENCE
+      ? [{ code: 'low_ocr_confidence', page: 1, message: `Text was read with OCR at only ${confidence}% confidence` }]
+      : [],
+  };
+};
+
+// File type configurations. `inWorker` parsers need no DOM and run in the
+// parser worker pool; the rest run on the main thread, one file at a time.
+const FILE_TYPE_CONFIG: Record<string, {
+  parser: (file: File, context: ParseContext) => Promise<string | ParsedContent>;
+  maxSize: number;
+  inWorker: boolean;
+}> = {
+  'application/pdf': { parser: readPdfFile, maxSize: 50 * 1024 * 1024, inWorker: true }, // 50MB
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { parser: readDocxFile, maxSize: 25 * 1024 * 1024, inWorker: true }, // 25MB
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { parser: readXlsxFile, maxSize: 25 * 1024 * 1024, inWorker: true }, // 25MB
+  'text/csv': { parser: readCsvFile, maxSize: 10 * 1024 * 1024, inWorker: true }, // 10MB
+  'application/json': { parser: readJsonFile, maxSize: 10 * 1024 * 1024, inWorker: true }, // 10MB
+  'text/plain': { parser: readPlainTextFile, maxSize: 10 * 1024 * 1024, inWorker: true }, // 10MB
+  'text/markdown': { parser: readTextFile, maxSize: 10 * 1024 * 1024, inWorker: true }, // 10MB
+  'text/html': { parser: readHtmlFile, maxSize: 10 * 1024 * 1024, inWorker: false }, // 10MB
+  'application/epub+zip': { parser: readEpubFile, maxSize: 50 * 1024 * 1024, inWorker: false }, // 50MB
+  'application/rtf': { parser: readRtfFile, maxSize: 25 * 1024 * 1024, inWorker: true }, // 25MB
+  'application/vnd.oasis.opendocument.text': { parser: readOdtFile, maxSize: 25 * 1024 * 1024, inWorker: false }, // 25MB
+  'application/x-subrip': { parser: readSrtFile, maxSize: 10 * 1024 * 1024, inWorker: true }, // 10MB
+  'text/vtt': { parser: readVttFile, maxSize: 10 * 1024 * 1024, inWorker: true }, // 10MB
+  'image/png': { parser: readImageFile, maxSize: 20 * 1024 * 1024, inWorker: false }, // 20MB
+  'image/jpeg': { parser: readImageFile, maxSize: 20 * 1024 * 1024, inWorker: false }, // 20MB
+};
 
 // Supported file extensions as fallback
-const SUPPORTED_EXTENSIONS = ['.pdf', '.docx', '.xlsx', '.csv', '.json', '.txt', '.md'];
+const SUPPORTED_EXTENSIONS = [
+  '.pdf', '.docx', '.xlsx', '.csv', '.json', '.txt', '.md', '.png', '.jpg', '.jpeg',
+  '.html', '.htm', '.xhtml', '.epub', '.rtf', '.odt', '.srt', '.vtt'
+];
 
-const getFileType = (file: File): string => {
+const getFileType = (file: Pick<File, 'name' | 'type'>): string => {
   // First check MIME type
-  if (FILE_TYPE_CONFIG[file.type as keyof typeof FILE_TYPE_CONFIG]) {
+  if (FILE_TYPE_CONFIG[file.type]) {
     return file.type;
   }
 
@@ -125,12 +413,24 @@ const getFileType = (file: File): string => {
   const extension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
   if (SUPPORTED_EXTENSIONS.includes(extension)) {
     switch (extension) {
+      case '.pdf': return 'application/pdf';
       case '.docx': return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
       case '.xlsx': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
       case '.csv': return 'text/csv';
       case '.json': return 'application/json';
       case '.txt': return 'text/plain';
       case '.md': return 'text/markdown';
+      case '.png': return 'image/png';
+      case '.jpg':
+      case '.jpeg': return 'image/jpeg';
+      case '.html':
+      case '.htm':
+      case '.xhtml': return 'text/html';
+      case '.epub': return 'application/epub+zip';
+      case '.rtf': return 'application/rtf';
+      case '.odt': return 'application/vnd.oasis.opendocument.text';
+      case '.srt': return 'application/x-subrip';
+      case '.vtt': return 'text/vtt';
       default: return '';
     }
   }
@@ -138,76 +438,375 @@ const getFileType = (file: File): string => {
   return '';
 };
 
-export const parseFiles = async (
-  files: FileList,
-  onProgress?: (current: number, total: number, message: string) => void
-): Promise<Source[]> => {
-  const parsedSources: Source[] = [];
-  const fileArray = Array.from(files);
+const isZipArchive = (file: Pick<File, 'name' | 'type'>) =>
+  file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || /\.zip$/i.test(file.name);
 
-  for (let i = 0; i < fileArray.length; i++) {
-    const file = fileArray[i];
+// OS metadata such as .DS_Store, Thumbs.db and __MACOSX/ resource forks
+const isSystemEntry = (path: string) =>
+  path.split('/').some(part => part.startsWith('.') || part === '__MACOSX' || /^(thumbs\.db|desktop\.ini)$/i.test(part));
 
-    if (onProgress) {
-      onProgress(i, fileArray.length, `Processing ${file.name}...`);
-    }
+const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024; // 200MB
+// Uncompressed bytes read out of one archive, nested archives included
+const MAX_ARCHIVE_EXPANDED_SIZE = 500 * 1024 * 1024; // 500MB
+// Keeps archives of whole drives from flooding the knowledge base
+const MAX_UPLOAD_ENTRIES = 1000;
 
-    try {
-      // File validation
-      const fileType = getFileType(file);
-      if (!fileType) {
-        console.warn(`Unsupported file type: ${file.type || 'unknown'}. Skipping file: ${file.name}`);
-        parsedSources.push({
-          id: `${file.name}-${file.lastModified}`,
-          name: file.name,
-          content: `Error: Unsupported file type. Supported formats: PDF, DOCX, XLSX, CSV, JSON, TXT, MD`,
+// ZipObject#internalStream is documented JSZip API its type definitions leave out
+interface ZipEntryStream {
+  on(event: 'data', listener: (chunk: Uint8Array) => void): ZipEntryStream;
+  on(event: 'error', listener: (error: Error) => void): ZipEntryStream;
+  on(event: 'end', listener: () => void): ZipEntryStream;
+  pause(): ZipEntryStream;
+  resume(): ZipEntryStream;
+}
+
+/**
+ * Decompress an archive entry, stopping as soon as it has produced more than
+ * `limit` bytes so a small archive cannot expand into gigabytes in memory.
+ * Resolves to null for entries over the limit.
+ */
+const readZipEntryBytes = (entry: JSZip.JSZipObject, limit: number): Promise<Uint8Array | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    const stream = (entry as unknown as { internalStream(type: 'uint8array'): ZipEntryStream }).internalStream('uint8array');
+    stream
+      .on('data', chunk => {
+        total += chunk.length;
+        if (total > limit) {
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => {
+        const bytes = new Uint8Array(total);
+        let offset = 0;
+        chunks.forEach(chunk => {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
         });
-        continue;
+        resolve(bytes);
+      })
+      .resume();
+  });
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+
+// One file to parse, with where it came from when it was inside a folder or archive
+interface UploadEntry {
+  file: File;
+  path?: string;
+}
+
+/**
+ * Flatten a selection into the files to parse. Files from a directory
+ * upload keep their relative path; zip archives, including archives inside
+ * folders or other archives, are opened and their entries listed under the
+ * archive's path. Unsupported files inside folders and archives are skipped
+ * rather than reported as failed sources.
+ */
+const expandUploads = async (files: File[], signal: AbortSignal): Promise<{ entries: UploadEntry[]; diagnostics: ParseDiagnostic[] }> => {
+  const entries: UploadEntry[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const skip = (file: string, code: ParseDiagnosticCode, message: string) =>
+    diagnostics.push({ severity: 'warning', code, file, message });
+
+  // `budget` is the uncompressed bytes the outermost archive still has left
+  const add = async (file: File, path: string | undefined, budget?: { remaining: number }) => {
+    signal.throwIfAborted();
+    const displayPath = path || file.name;
+    if (path && isSystemEntry(path)) return;
+    if (entries.length >= MAX_UPLOAD_ENTRIES) {
+      skip(displayPath, 'too_many_files', `Skipped: more than ${MAX_UPLOAD_ENTRIES} files in one upload`);
+      return;
+    }
+
+    if (isZipArchive(file)) {
+      if (file.size > MAX_ARCHIVE_SIZE) {
+        skip(displayPath, 'archive_too_large', `Archive too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum size: ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB`);
+        return;
+      }
+      let zip: Awaited<ReturnType<typeof loadZip>>;
+      try {
+        zip = await loadZip(file, 'ZIP');
+      } catch (error) {
+        skip(displayPath, 'archive_unreadable', error instanceof Error ? error.message : 'Archive could not be opened');
+        return;
       }
+      const archiveBudget = budget || { remaining: MAX_ARCHIVE_EXPANDED_SIZE };
+      for (const entry of Object.values(zip.files)) {
+        if (entry.dir) continue;
+        const entryPath = `${displayPath}/${entry.name}`;
+        const name = entry.name.split('/').pop() || entry.name;
+        if (isSystemEntry(entry.name)) continue;
+        const entryType = getFileType({ name, type: '' });
+        if (!isZipArchive({ name, type: '' }) && !entryType) {
+          skip(entryPath, 'unsupported_type', 'Skipped: unsupported file type');
+          continue;
+        }
 
-      const config = FILE_TYPE_CONFIG[fileType as keyof typeof FILE_TYPE_CONFIG];
-      if (file.size > config.maxSize) {
-        console.warn(`File too large: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB). Max size: ${(config.maxSize / 1024 / 1024).toFixed(0)}MB`);
-        parsedSources.push({
-          id: `${file.name}-${file.lastModified}`,
-          name: file.name,
-          content: `Error: File too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum size: ${(config.maxSize / 1024 / 1024).toFixed(0)}MB`,
-        });
-        continue;
+        const maxSize = entryType ? FILE_TYPE_CONFIG[entryType].maxSize : MAX_ARCHIVE_SIZE;
+        let data: Uint8Array | null;
+        try {
+          data = await readZipEntryBytes(entry, Math.min(maxSize, archiveBudget.remaining));
+        } catch (error) {
+          skip(entryPath, 'archive_unreadable', error instanceof Error ? error.message : 'Archive entry could not be read');
+          continue;
+        }
+        if (!data) {
+          if (maxSize <= archiveBudget.remaining) {
+            skip(entryPath, 'file_too_large', `Skipped: file too large. Maximum size: ${formatMB(maxSize)}`);
+          } else {
+            skip(entryPath, 'archive_too_large', `Skipped: archive expands to more than ${formatMB(MAX_ARCHIVE_EXPANDED_SIZE)}`);
+          }
+          continue;
+        }
+        archiveBudget.remaining -= data.length;
+        await add(new File([data], name, { lastModified: entry.date.getTime() }), entryPath, archiveBudget);
       }
+      return;
+    }
 
-      // Parse the file
-      const content = await config.parser(file);
+    if (path && !getFileType(file)) {
+      skip(path, 'unsupported_type', 'Skipped: unsupported file type');
+      return;
+    }
+    entries.push({ file, path });
+  };
 
-      if (!content || content.trim().length === 0) {
-        parsedSources.push({
-          id: `${file.name}-${file.lastModified}`,
-          name: file.name,
-          content: `Warning: No readable content found in file. For PDF files, this may indicate a scanned document without selectable text.`,
-        });
-      } else {
-        parsedSources.push({
-          id: `${file.name}-${file.lastModified}`,
-          name: file.name,
-          content: content,
-        });
-      }
+  for (const file of files) {
+    // Set by the browser for files picked with a webkitdirectory input
+    await add(file, file.webkitRelativePath || undefined);
+  }
+  return { entries, diagnostics };
+};
+
+/**
+ * Parse one file inside a parser worker. PDFs stop at their page texts;
+ * `completePdf` finishes them on the main thread.
+ */
+export const parseInWorker = async (
+  file: File,
+  fileType: string,
+  onProgress: (fraction: number) => void
+): Promise<WorkerParseResult> => {
+  if (fileType === 'application/pdf') {
+    return { kind: 'pdfText', pdf: await extractPdfText(file, { onProgress }) };
+  }
+  return { kind: 'parsed', result: await FILE_TYPE_CONFIG[fileType].parser(file, { onProgress }) };
+};
+
+// Main-thread parsing is serialized so two large files never compete for the UI thread
+let mainThreadQueue: Promise<unknown> = Promise.resolve();
+const onMainThread = <T>(run: () => Promise<T>): Promise<T> => {
+  const result = mainThreadQueue.then(run);
+  mainThreadQueue = result.catch(() => undefined);
+  return result;
+};
+
+const parseContent = async (file: File, fileType: string, context: ParseContext): Promise<string | ParsedContent> => {
+  const config = FILE_TYPE_CONFIG[fileType];
+  const pool = ParserPool.getInstance();
 
+  if (config.inWorker && pool.isAvailable()) {
+    try {
+      const result = await pool.parse(file, fileType, fraction => context.onProgress?.(fraction), context.signal);
+      if (result.kind === 'parsed') return result.result;
+      const pdf = result.pdf;
+      return onMainThread(() => completePdf(file, pdf, context));
     } catch (error) {
-      console.error(`Error parsing file ${file.name}:`, error);
-      // Create a source with an error message to inform the user
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      parsedSources.push({
-        id: `${file.name}-${file.lastModified}`,
-        name: file.name,
-        content: `Error: ${errorMessage}`,
-      });
+      // A worker that failed to start leaves the pool unavailable; fall back to parsing here
+      if (isAbortError(error, context.signal) || pool.isAvailable()) throw error;
     }
   }
 
-  if (onProgress) {
-    onProgress(fileArray.length, fileArray.length, 'Processing complete!');
+  return onMainThread(() => {
+    context.signal?.throwIfAborted();
+    context.onProgress?.(0);
+    return config.parser(file, context);
+  });
+};
+
+export interface FileParseOutcome {
+  source?: Source;
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Parse one file into a source. Problems are returned as diagnostics rather
+ * than thrown; null means the file was cancelled.
+ */
+const parseFile = async ({ file, path }: UploadEntry, context: ParseContext): Promise<FileParseOutcome | null> => {
+  const displayPath = path || file.name;
+  const fail = (code: ParseDiagnosticCode, message: string): FileParseOutcome => ({
+    diagnostics: [{ severity: 'error', code, file: displayPath, message }],
+  });
+
+  try {
+    // File validation
+    const fileType = getFileType(file);
+    if (!fileType) {
+      console.warn(`Unsupported file type: ${file.type || 'unknown'}. Skipping file: ${file.name}`);
+      return fail('unsupported_type', `Unsupported file type. Supported formats: PDF, DOCX, XLSX, CSV, JSON, TXT, MD, PNG, JPEG, HTML, EPUB, RTF, ODT, SRT, VTT, and ZIP archives of these`);
+    }
+
+    const config = FILE_TYPE_CONFIG[fileType];
+    if (file.size > config.maxSize) {
+      console.warn(`File too large: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB). Max size: ${(config.maxSize / 1024 / 1024).toFixed(0)}MB`);
+      return fail('file_too_large', `File too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Maximum size: ${(config.maxSize / 1024 / 1024).toFixed(0)}MB`);
+    }
+
+    // Parse the file
+    const parsed = await parseContent(file, fileType, context);
+    const { content, pages, transcript, structured, metadata, warnings = [] }: ParsedContent =
+      typeof parsed === 'string' ? { content: parsed } : parsed;
+
+    if (!content || content.trim().length === 0) {
+      return fail('no_text', 'No readable content found in file. For scanned PDFs and images, OCR could not recognize any text.');
+    }
+    const sections = findSections(content);
+    // Declared languages are often just the authoring template's default, so
+    // the text itself wins when it is clear enough
+    const detected = detectLanguage(content);
+    const language = detected && detected.confidence >= 0.5 ? detected.language : metadata?.language || detected?.language;
+    return {
+      source: {
+        // The path keeps same-named files from different folders apart
+        id: `${displayPath}-${file.lastModified}`,
+        name: file.name,
+        content: content,
+        contentHash: hashContent(content),
+        mimeType: fileType,
+        size: file.size,
+        ingestedAt: new Date().toISOString(),
+        ...(path ? { path } : {}),
+        ...metadata,
+        ...(language ? { language } : {}),
+        ...(pages ? { pages } : {}),
+        ...(sections.length > 0 ? { sections } : {}),
+        ...(transcript ? { transcript } : {}),
+        ...(structured ? { structured } : {}),
+        ...(warnings.length > 0 ? { parseWarnings: warnings.map(warning => warning.message) } : {}),
+      },
+      diagnostics: warnings.map(warning => ({ ...warning, severity: 'warning', file: displayPath })),
+    };
+  } catch (error) {
+    if (context.signal?.aborted) return null;
+    console.error(`Error parsing file ${file.name}:`, error);
+    return fail('parse_failed', error instanceof Error ? error.message : 'Unknown error occurred');
   }
+};
+
+export type FileParseStatus = 'queued' | 'parsing' | 'done' | 'error' | 'cancelled';
+
+export interface FileParseProgress {
+  name: string;
+  status: FileParseStatus;
+  // 0-1; only some parsers (PDF) report progress within a file
+  fraction: number;
+}
+
+export interface ParseCallbacks {
+  // Files finished so far, out of the total
+  onProgress?: (current: number, total: number, message: string) => void;
+  onFileProgress?: (files: FileParseProgress[]) => void;
+}
+
+export interface ParseResult {
+  // In the order the files were given, without failed or cancelled files
+  sources: Source[];
+  diagnostics: ParseDiagnostic[];
+}
+
+export interface ParseOptions {
+  // Outcomes of files already parsed (e.g. for a preview), used instead of parsing them again
+  parsed?: ReadonlyMap<File, FileParseOutcome>;
+}
+
+export interface ParseBatch {
+  results: Promise<ParseResult>;
+  // Index into the file list passed to onFileProgress
+  cancel: (index: number) => void;
+  cancelAll: () => void;
+}
 
-  return parsedSources;
-};
\ No newline at end of file
+/**
+ * Start parsing files concurrently, with per-file progress and cancellation.
+ * Folders and zip archives are expanded first, so per-file progress (and
+ * the indexes `cancel` takes) refer to the files found inside them.
+ */
+export const startParsing = (
+  files: FileList | File[],
+  callbacks: ParseCallbacks = {},
+  options: ParseOptions = {}
+): ParseBatch => {
+  const batchController = new AbortController();
+  const controllers: AbortController[] = [];
+
+  const run = async (): Promise<ParseResult> => {
+    const fileArray = Array.from(files);
+    callbacks.onProgress?.(0, fileArray.length, `Reading ${fileArray.length} upload(s)...`);
+
+    let expanded: Awaited<ReturnType<typeof expandUploads>>;
+    try {
+      expanded = await expandUploads(fileArray, batchController.signal);
+    } catch (error) {
+      if (isAbortError(error, batchController.signal)) return { sources: [], diagnostics: [] };
+      throw error;
+    }
+    const { entries } = expanded;
+
+    entries.forEach(() => {
+      const controller = new AbortController();
+      if (batchController.signal.aborted) controller.abort();
+      controllers.push(controller);
+    });
+    const progress: FileParseProgress[] = entries.map(({ file, path }) => ({ name: path || file.name, status: 'queued', fraction: 0 }));
+    let completed = 0;
+
+    const update = (index: number, changes: Partial<FileParseProgress>) => {
+      progress[index] = { ...progress[index], ...changes };
+      callbacks.onFileProgress?.([...progress]);
+    };
+
+    callbacks.onFileProgress?.([...progress]);
+    callbacks.onProgress?.(0, entries.length, `Processing ${entries.length} file(s)...`);
+
+    const outcomes = await Promise.all(entries.map(async (entry, index) => {
+      const outcome = options.parsed?.get(entry.file) ?? await parseFile(entry, {
+        signal: controllers[index].signal,
+        onProgress: fraction => update(index, { status: 'parsing', fraction }),
+      });
+      completed++;
+      update(index, { status: !outcome ? 'cancelled' : outcome.source ? 'done' : 'error', fraction: 1 });
+      callbacks.onProgress?.(
+        completed,
+        entries.length,
+        completed === entries.length ? 'Processing complete!' : `${outcome ? 'Processed' : 'Cancelled'} ${progress[index].name}`
+      );
+      return outcome;
+    }));
+
+    return {
+      sources: outcomes.flatMap(outcome => (outcome?.source ? [outcome.source] : [])),
+      diagnostics: [...expanded.diagnostics, ...outcomes.flatMap(outcome => outcome?.diagnostics || [])],
+    };
+  };
+
+  return {
+    results: run(),
+    cancel: index => controllers[index]?.abort(),
+    cancelAll: () => {
+      batchController.abort();
+      controllers.forEach(controller => controller.abort());
+    },
+  };
+};
+
+export const parseFiles = (
+  files: FileList | File[],
+  onProgress?: (current: number, total: number, message: string) => void
+): Promise<ParseResult> => startParsing(files, { onProgress }).results;
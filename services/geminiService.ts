@@ -1,34 +1,71 @@
 import { Persona, Source } from '../types';
+import { LLMProviderService } from './llmProvider';
+import { postToBackend, streamTokens } from './backendClient';
 
-async function* startChatSession(persona: Persona, initialPrompt: string, knowledgeSources: Source[], temperature = 0.7, currentContent?: string) {
-  const response = await fetch('http://localhost:3002/api/gemini', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      persona,
-      initialPrompt,
-      knowledgeSources,
-      temperature,
-      currentContent,
-    }),
-  });
-
-  if (!response.body) {
-    throw new Error('No response body');
-  }
-
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let done = false;
-
-  while (!done) {
-    const { value, done: readerDone } = await reader.read();
-    done = readerDone;
-    const chunk = decoder.decode(value, { stream: true });
-    yield chunk;
-  }
+export interface DraftRequest {
+  persona: Persona;
+  initialPrompt: string;
+  knowledgeSources: Source[];
+  temperature?: number;
+  currentContent?: string;
+}
+
+export interface AskRequest {
+  persona: Persona;
+  knowledgeSources: Source[];
+  userQuery: string;
+  temperature?: number;
+}
+
+export interface RefineRequest {
+  feedback: string;
+  currentDocument: string;
+  persona?: Persona;
+  knowledgeSources?: Source[];
+  temperature?: number;
+}
+
+export interface QualityRequest {
+  documentContent: string;
+  persona: Persona;
+}
+
+export interface QualityScores {
+  personaConsistency: number | null;
+  knowledgeIntegration: number | null;
+  responseRelevance: number | null;
+  overallQuality: number | null;
+}
+
+export interface QualityResponse {
+  text: string;
+  scores: QualityScores;
+}
+
+const post = (
+  route: string,
+  body: DraftRequest | AskRequest | RefineRequest | QualityRequest,
+  signal?: AbortSignal
+): Promise<Response> =>
+  postToBackend(route, { ...body, provider: LLMProviderService.getInstance().getRequestConfig() }, signal);
+
+async function* startChatSession(
+  persona: Persona,
+  initialPrompt: string,
+  knowledgeSources: Source[],
+  temperature = 0.7,
+  currentContent?: string,
+  signal?: AbortSignal
+) {
+  const response = await post('draft', {
+    persona,
+    initialPrompt,
+    knowledgeSources,
+    temperature,
+    currentContent,
+  }, signal);
+
+  return yield* streamTokens(response);
 }
 
 export { startChatSession };
@@ -36,79 +73,45 @@ export { startChatSession };
 export async function* askPersonaQuestion(
   persona: Persona,
   knowledgeSources: Source[],
-  userQuery: string
+  userQuery: string,
+  temperature?: number,
+  signal?: AbortSignal
 ) {
-  const response = await fetch('http://localhost:3002/api/gemini', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      persona,
-      knowledgeSources,
-      userQuery,
-    }),
-  });
-
-  if (!response.body) {
-    throw new Error('No response body');
-  }
-
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let done = false;
-
-  while (!done) {
-    const { value, done: readerDone } = await reader.read();
-    done = readerDone;
-    const chunk = decoder.decode(value, { stream: true });
-    yield chunk;
-  }
+  const response = await post('ask', {
+    persona,
+    knowledgeSources,
+    userQuery,
+    temperature,
+  }, signal);
+
+  return yield* streamTokens(response);
 }
 
 export async function* sendMessageStreamToChat(
   feedback: string,
-  currentDocument: string
+  currentDocument: string,
+  persona?: Persona,
+  knowledgeSources?: Source[],
+  temperature?: number,
+  signal?: AbortSignal
 ) {
-  const response = await fetch('http://localhost:3002/api/gemini', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      feedback,
-      currentDocument,
-    }),
-  });
-
-  if (!response.body) {
-    throw new Error('No response body');
-  }
-
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let done = false;
-
-  while (!done) {
-    const { value, done: readerDone } = await reader.read();
-    done = readerDone;
-    const chunk = decoder.decode(value, { stream: true });
-    yield chunk;
-  }
+  const response = await post('refine', {
+    feedback,
+    currentDocument,
+    persona,
+    knowledgeSources,
+    temperature,
+  }, signal);
+
+  return yield* streamTokens(response);
 }
 
-export async function runQualityCheck(documentContent: string, persona: Persona): Promise<string> {
-  const response = await fetch('http://localhost:3002/api/gemini', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      documentContent,
-      persona,
-    }),
-  });
-
-  const data = await response.json();
+export async function runQualityCheck(documentContent: string, persona: Persona, signal?: AbortSignal): Promise<string> {
+  const response = await post('quality', {
+    documentContent,
+    persona,
+  }, signal);
+
+  const data: QualityResponse = await response.json();
   return data.text;
 }
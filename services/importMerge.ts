@@ -0,0 +1,150 @@
+import { Persona, Source } from '../types';
+import { hashContent } from './sourceDedup';
+
+export type MergeItemKind = 'persona' | 'source';
+export type MergeItemStatus = 'new' | 'identical' | 'conflict';
+export type MergeResolution = 'keepLocal' | 'takeIncoming' | 'keepBoth';
+
+export interface MergeItem<T extends Persona | Source = Persona | Source> {
+  // Stable key for UI state and resolutions: `${kind}:${incoming.id}`
+  key: string;
+  kind: MergeItemKind;
+  status: MergeItemStatus;
+  incoming: T;
+  // Local record the incoming one was matched with, if any
+  local?: T;
+  matchedBy?: 'id' | 'content';
+  // Top-level fields that differ between local and incoming (conflicts only)
+  changedFields: string[];
+}
+
+export interface MergePlan {
+  personas: MergeItem<Persona>[];
+  sources: MergeItem<Source>[];
+}
+
+// JSON with sorted keys, so field order does not affect equality
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// What makes two records "the same" under different ids: a source's text,
+// whatever it was named or when it was ingested, and everything but the id
+// of a persona
+const recordHash = (kind: MergeItemKind, record: Persona | Source): string => {
+  if (kind === 'source') {
+    const { content, contentHash } = record as Source;
+    return contentHash || hashContent(content);
+  }
+  const { id: _id, ...rest } = record;
+  return hashContent(stableStringify(rest));
+};
+
+const changedFields = <T extends Persona | Source>(local: T, incoming: T): string[] => {
+  const keys = new Set([...Object.keys(local), ...Object.keys(incoming)] as (keyof T & string)[]);
+  return Array.from(keys)
+    .filter(key => key !== 'id')
+    .filter(key => stableStringify(local[key]) !== stableStringify(incoming[key]))
+    .sort();
+};
+
+const planItems = <T extends Persona | Source>(kind: MergeItemKind, local: T[], incoming: T[]): MergeItem<T>[] => {
+  const localById = new Map(local.map(record => [record.id, record]));
+  const localByHash = new Map(local.map(record => [recordHash(kind, record), record]));
+
+  return incoming.map(record => {
+    const key = `${kind}:${record.id}`;
+    const sameId = localById.get(record.id);
+    if (sameId) {
+      const fields = changedFields(sameId, record);
+      return {
+        key,
+        kind,
+        status: fields.length === 0 ? 'identical' : 'conflict',
+        incoming: record,
+        local: sameId,
+        matchedBy: 'id',
+        changedFields: fields
+      };
+    }
+
+    const sameContent = localByHash.get(recordHash(kind, record));
+    if (sameContent) {
+      return { key, kind, status: 'identical', incoming: record, local: sameContent, matchedBy: 'content', changedFields: [] };
+    }
+
+    return { key, kind, status: 'new', incoming: record, changedFields: [] };
+  });
+};
+
+/**
+ * Compare incoming personas and sources with the local workspace, matching
+ * by id first and by content hash second.
+ */
+export const planMerge = (
+  local: { personas: Persona[]; knowledgeSources: Source[] },
+  incoming: { personas: Persona[]; knowledgeSources: Source[] }
+): MergePlan => ({
+  personas: planItems('persona', local.personas, incoming.personas),
+  sources: planItems('source', local.knowledgeSources, incoming.knowledgeSources)
+});
+
+/**
+ * What happens to an item when the user has not chosen: new items are added,
+ * conflicts keep the local version.
+ */
+export const defaultResolution = (item: MergeItem): MergeResolution =>
+  item.status === 'new' ? 'takeIncoming' : 'keepLocal';
+
+const importedCopy = <T extends Persona | Source>(record: T, takenIds: Set<string>): T => {
+  let id = `${record.id}-imported`;
+  for (let n = 2; takenIds.has(id); n++) id = `${record.id}-imported-${n}`;
+  takenIds.add(id);
+  return { ...record, id, name: `${record.name} (imported)` };
+};
+
+const applyItems = <T extends Persona | Source>(
+  local: T[],
+  items: MergeItem<T>[],
+  resolutions: Record<string, MergeResolution>
+): T[] => {
+  const result = [...local];
+  const takenIds = new Set([...local.map(record => record.id), ...items.map(item => item.incoming.id)]);
+
+  items.forEach(item => {
+    if (item.status === 'identical') return;
+    const resolution = resolutions[item.key] ?? defaultResolution(item);
+    if (resolution === 'keepLocal') return;
+
+    if (item.status === 'new') {
+      result.push(item.incoming);
+    } else if (resolution === 'takeIncoming') {
+      const index = result.findIndex(record => record.id === item.incoming.id);
+      result[index] = item.incoming;
+    } else {
+      result.push(importedCopy(item.incoming, takenIds));
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Produce the merged workspace. Unresolved items use `defaultResolution`;
+ * "keep both" adds the incoming record under a fresh id.
+ */
+export const applyMerge = (
+  local: { personas: Persona[]; knowledgeSources: Source[] },
+  plan: MergePlan,
+  resolutions: Record<string, MergeResolution>
+): { personas: Persona[]; knowledgeSources: Source[] } => ({
+  personas: applyItems(local.personas, plan.personas, resolutions),
+  knowledgeSources: applyItems(local.knowledgeSources, plan.sources, resolutions)
+});
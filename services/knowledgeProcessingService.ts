@@ -1,8 +1,10 @@
 import { Source, Persona } from '../types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { AnalyticsService } from './analyticsService';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService } from './llmProvider';
+import { packContext } from './contextPacker';
+import { WORKING_LANGUAGE, needsTranslation, workingCopy } from './translationService';
+import { languageName } from './languageDetection';
+import { PersistedService, clearStateStore, loadStateInto, putStateEntries } from './db';
 
 export interface KnowledgeRelationship {
   sourceId: string;
@@ -22,14 +24,18 @@ export interface ProcessedKnowledge {
   lastProcessed: string;
 }
 
-export class KnowledgeProcessingService {
+const PROCESS_SOURCE_CONTEXT_BUDGET = 16000;
+
+export class KnowledgeProcessingService implements PersistedService {
   private static instance: KnowledgeProcessingService;
   private processedKnowledge: Map<string, ProcessedKnowledge> = new Map();
   private analyticsService: AnalyticsService;
 
+  readonly loaded: Promise<void>;
+
   private constructor() {
     this.analyticsService = AnalyticsService.getInstance();
-    this.loadProcessedKnowledge();
+    this.loaded = loadStateInto('processedKnowledge', this.processedKnowledge);
   }
 
   static getInstance(): KnowledgeProcessingService {
@@ -41,34 +47,40 @@ export class KnowledgeProcessingService {
 
   async processSource(source: Source): Promise<ProcessedKnowledge> {
     const existing = this.processedKnowledge.get(source.id);
-    if (existing && existing.lastProcessed > new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()) {
+    const translatedSince = source.translation && source.translation.translatedAt > (existing?.lastProcessed ?? '');
+    if (existing && !translatedSince && existing.lastProcessed > new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()) {
       // Return cached result if processed within last 24 hours
       return existing;
     }
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
+
+    // Translated sources are analyzed in translation, cut down to their most representative passages
+    const documentText = packContext([workingCopy(source)], '', { budgetTokens: PROCESS_SOURCE_CONTEXT_BUDGET }).sources[0]?.content ?? '';
+    // Untranslated foreign sources still get summaries and concepts in the working language
+    const languageNote = needsTranslation(source)
+      ? `The document is written in ${languageName(source.language!)}; write your answer in ${languageName(WORKING_LANGUAGE)}.\n`
+      : '';
 
     // Generate summary
-    const summaryPrompt = `Please provide a concise summary (2-3 sentences) of the following document:
+    const summaryPrompt = `${languageNote}Please provide a concise summary (2-3 sentences) of the following document:
     
-${source.content}
+${documentText}
 
 Summary:`;
 
-    const summaryResult = await model.generateContent(summaryPrompt);
-    const summary = summaryResult.response.text().trim();
+    const summary = (await llm.generate(summaryPrompt)).trim();
 
     // Extract key concepts
-    const conceptsPrompt = `Extract 5-10 key concepts from the following document as a JSON array of strings:
+    const conceptsPrompt = `${languageNote}Extract 5-10 key concepts from the following document as a JSON array of strings:
     
-${source.content}
+${documentText}
 
 Return ONLY a JSON array like: ["concept1", "concept2", ...]`;
 
-    const conceptsResult = await model.generateContent(conceptsPrompt);
+    const conceptsText = await llm.generate(conceptsPrompt);
     let keyConcepts: string[] = [];
     try {
-      const conceptsText = conceptsResult.response.text();
       const jsonMatch = conceptsText.match(/\[.*\]/s);
       if (jsonMatch) {
         keyConcepts = JSON.parse(jsonMatch[0]);
@@ -85,14 +97,14 @@ Return ONLY a JSON array like: ["concept1", "concept2", ...]`;
 4. Relevance to typical research needs
 
 Document:
-${source.content}
+${documentText}
 
 Respond with ONLY a number between 1-100:`;
 
-    const qualityResult = await model.generateContent(qualityPrompt);
+    const qualityText = await llm.generate(qualityPrompt);
     let qualityScore = 50;
     try {
-      qualityScore = parseInt(qualityResult.response.text().trim()) || 50;
+      qualityScore = parseInt(qualityText.trim()) || 50;
     } catch (error) {
       console.error('Failed to parse quality score:', error);
     }
@@ -127,7 +139,7 @@ Respond with ONLY a number between 1-100:`;
   async analyzeRelationships(sources: Source[]): Promise<KnowledgeRelationship[]> {
     if (sources.length < 2) return [];
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Compare each pair of sources
     const relationships: KnowledgeRelationship[] = [];
@@ -159,8 +171,7 @@ Respond with ONLY a JSON object in this format:
 }`;
 
         try {
-          const relationshipResult = await model.generateContent(relationshipPrompt);
-          const relationshipText = relationshipResult.response.text();
+          const relationshipText = await llm.generate(relationshipPrompt);
           const jsonMatch = relationshipText.match(/\{.*\}/s);
           
           if (jsonMatch) {
@@ -228,29 +239,15 @@ Respond with ONLY a JSON object in this format:
   }
 
   private saveProcessedKnowledge() {
-    try {
-      const data = JSON.stringify(Array.from(this.processedKnowledge.entries()));
-      localStorage.setItem('knowledge-weaver-processed-knowledge', data);
-    } catch (error) {
+    putStateEntries('processedKnowledge', this.processedKnowledge).catch(error => {
       console.error('Failed to save processed knowledge:', error);
-    }
-  }
-
-  private loadProcessedKnowledge() {
-    try {
-      const stored = localStorage.getItem('knowledge-weaver-processed-knowledge');
-      if (stored) {
-        const entries = JSON.parse(stored);
-        this.processedKnowledge = new Map(entries);
-      }
-    } catch (error) {
-      console.error('Failed to load processed knowledge:', error);
-      this.processedKnowledge = new Map();
-    }
+    });
   }
 
   clearProcessedKnowledge() {
     this.processedKnowledge.clear();
-    localStorage.removeItem('knowledge-weaver-processed-knowledge');
+    clearStateStore('processedKnowledge').catch(error => {
+      console.error('Failed to clear processed knowledge:', error);
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+export interface LanguageGuess {
+  // ISO 639-1 code, e.g. "de"
+  language: string;
+  // 0-1; how clearly the best language beat the runner-up
+  confidence: number;
+}
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  de: 'German',
+  es: 'Spanish',
+  fr: 'French',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  el: 'Greek',
+  ar: 'Arabic',
+  he: 'Hebrew',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
+
+/**
+ * Display name for a BCP 47 tag ("de-AT" -> "German"), falling back to the tag itself.
+ */
+export const languageName = (tag: string): string => LANGUAGE_NAMES[tag.toLowerCase().split('-')[0]] || tag;
+
+// The most frequent function words of each language; together they make up
+// a large share of any running text and rarely overlap between languages
+const STOP_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'it', 'for', 'was', 'with', 'as', 'on', 'are', 'this', 'be', 'by', 'have', 'not', 'from', 'which', 'they', 'you', 'we'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'ich', 'sie', 'es', 'mit', 'den', 'sich', 'auf', 'dem', 'ein', 'eine', 'auch', 'für', 'von', 'zu', 'wir', 'wird', 'werden', 'aber'],
+  es: ['el', 'la', 'de', 'que', 'y', 'los', 'las', 'en', 'un', 'una', 'por', 'con', 'para', 'es', 'se', 'del', 'al', 'lo', 'como', 'más', 'pero', 'su', 'sus', 'está'],
+  fr: ['le', 'la', 'les', 'et', 'des', 'est', 'que', 'une', 'un', 'du', 'dans', 'pour', 'qui', 'pas', 'sur', 'au', 'avec', 'ce', 'il', 'elle', 'nous', 'vous', 'sont', 'mais'],
+  it: ['il', 'di', 'che', 'e', 'la', 'per', 'un', 'una', 'non', 'sono', 'gli', 'le', 'del', 'della', 'con', 'nel', 'alla', 'anche', 'come', 'più', 'ma', 'questo', 'essere', 'ha'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'por', 'mais', 'dos', 'das', 'se', 'como', 'mas', 'foi', 'ao'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'ik', 'te', 'dat', 'die', 'is', 'niet', 'op', 'zijn', 'met', 'voor', 'wat', 'maar', 'ook', 'er', 'aan', 'bij', 'nog', 'wordt', 'hij'],
+  ru: ['и', 'в', 'не', 'на', 'что', 'с', 'он', 'как', 'это', 'по', 'но', 'из', 'к', 'у', 'за', 'от', 'так', 'же', 'для', 'было', 'она', 'мы', 'вы', 'они'],
+  uk: ['і', 'в', 'не', 'на', 'що', 'з', 'він', 'як', 'це', 'та', 'але', 'до', 'у', 'за', 'від', 'так', 'же', 'для', 'було', 'вона', 'ми', 'ви', 'вони', 'є'],
+};
+
+const SCRIPTS: { language: string; pattern: RegExp }[] = [
+  { language: 'el', pattern: /\p{Script=Greek}/u },
+  { language: 'ar', pattern: /\p{Script=Arabic}/u },
+  { language: 'he', pattern: /\p{Script=Hebrew}/u },
+  { language: 'ko', pattern: /\p{Script=Hangul}/u },
+  // Kana means Japanese even though most of its characters are Han
+  { language: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u },
+  { language: 'zh', pattern: /\p{Script=Han}/u },
+];
+
+// Only the start of long documents is examined
+const SAMPLE_CHARS = 20000;
+const MIN_WORDS = 20;
+
+/**
+ * Guess the language of a text without any network access: by script for
+ * languages with their own alphabet, otherwise by which language's
+ * function words are most frequent. Returns undefined for texts too short
+ * or too mixed to call.
+ */
+export const detectLanguage = (text: string): LanguageGuess | undefined => {
+  const sample = text.slice(0, SAMPLE_CHARS);
+  const letters = sample.match(/\p{L}/gu) || [];
+  if (letters.length < MIN_WORDS) return undefined;
+
+  const cyrillic = letters.filter(letter => /\p{Script=Cyrillic}/u.test(letter)).length;
+  const latin = letters.filter(letter => /\p{Script=Latin}/u.test(letter)).length;
+
+  if (cyrillic < letters.length / 2 && latin < letters.length / 2) {
+    for (const { language, pattern } of SCRIPTS) {
+      const count = letters.filter(letter => pattern.test(letter)).length;
+      if (count >= letters.length / 4) return { language, confidence: Math.min(1, count / letters.length + 0.25) };
+    }
+    return undefined;
+  }
+
+  const candidates = Object.keys(STOP_WORDS).filter(language =>
+    cyrillic > latin ? ['ru', 'uk'].includes(language) : !['ru', 'uk'].includes(language)
+  );
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length < MIN_WORDS) return undefined;
+
+  const scores = candidates
+    .map(language => {
+      const stopWords = new Set(STOP_WORDS[language]);
+      return { language, hits: words.filter(word => stopWords.has(word)).length };
+    })
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = scores;
+  // Real prose in any of these languages is at least a tenth function words
+  if (!best || best.hits < words.length * 0.1) return undefined;
+  return { language: best.language, confidence: 1 - (second?.hits || 0) / best.hits };
+};
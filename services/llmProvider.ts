@@ -0,0 +1,333 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { API_BASE_URL, postToBackend, streamTokens } from './backendClient';
+
+export type LLMProviderKind = 'gemini' | 'openai' | 'ollama' | 'fake';
+
+export interface LLMProviderConfig {
+  kind: LLMProviderKind;
+  model: string;
+  embeddingModel?: string;
+}
+
+export interface GenerateOptions {
+  systemInstruction?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Common surface every model backend implements. Services talk to this
+ * interface only, so a workspace can switch between Gemini, an
+ * OpenAI-compatible server or a local model without touching them.
+ */
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly model: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  stream(prompt: string, options?: GenerateOptions): AsyncGenerator<string, void, unknown>;
+  embed(text: string): Promise<number[]>;
+  generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T>;
+}
+
+export const DEFAULT_PROVIDER_CONFIGS: Record<LLMProviderKind, LLMProviderConfig> = {
+  gemini: {
+    kind: 'gemini',
+    model: 'gemini-2.0-flash',
+    embeddingModel: 'gemini-embedding-001'
+  },
+  // The backend proxy holds the endpoint, API key and embedding model for these
+  openai: {
+    kind: 'openai',
+    model: 'gpt-4o-mini'
+  },
+  // Served by backend/lite_proxy.py, an OpenAI-compatible proxy in front of Ollama
+  ollama: {
+    kind: 'ollama',
+    model: 'llama3.2:1b'
+  },
+  fake: {
+    kind: 'fake',
+    model: 'fake-model'
+  }
+};
+
+const STORAGE_KEY = 'knowledge-weaver-llm-provider';
+
+/**
+ * Models the backend proxy accepts for each provider kind.
+ */
+export const fetchAllowedModels = async (signal?: AbortSignal): Promise<Record<LLMProviderKind, string[]>> => {
+  const response = await fetch(`${API_BASE_URL}/llm/models`, { signal });
+  if (!response.ok) {
+    throw new Error(`Request to /api/llm/models failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * True for the error raised when a request is cancelled through an
+ * AbortSignal. Pass the request's signal where there is one: some SDKs wrap
+ * the AbortError in their own error type, and an aborted signal settles it.
+ */
+export const isAbortError = (error: unknown, signal?: AbortSignal): boolean =>
+  signal?.aborted === true ||
+  (typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError');
+
+/**
+ * Pull the first JSON object or array out of a model response, tolerating
+ * markdown fences and surrounding prose.
+ */
+export const extractJSON = <T = unknown>(text: string): T => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const jsonMatch = candidate.match(/[[{][\s\S]*[\]}]/);
+  if (!jsonMatch) {
+    throw new Error('No JSON found in model response');
+  }
+  return JSON.parse(jsonMatch[0]) as T;
+};
+
+class GeminiProvider implements LLMProvider {
+  readonly kind: LLMProviderKind = 'gemini';
+  readonly model: string;
+  private genAI: GoogleGenerativeAI;
+  private embeddingModel: string;
+
+  constructor(config: LLMProviderConfig) {
+    this.model = config.model;
+    this.embeddingModel = config.embeddingModel || DEFAULT_PROVIDER_CONFIGS.gemini.embeddingModel!;
+    this.genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY || '');
+  }
+
+  private getModel(options: GenerateOptions = {}, responseMimeType?: string) {
+    return this.genAI.getGenerativeModel({
+      model: this.model,
+      systemInstruction: options.systemInstruction,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+        responseMimeType
+      }
+    });
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    const result = await this.getModel(options).generateContent(prompt, { signal: options?.signal });
+    return result.response.text();
+  }
+
+  async *stream(prompt: string, options?: GenerateOptions): AsyncGenerator<string, void, unknown> {
+    const result = await this.getModel(options).generateContentStream(prompt, { signal: options?.signal });
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const model = this.genAI.getGenerativeModel({ model: this.embeddingModel });
+    const result = await model.embedContent(text);
+    return result.embedding.values;
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T> {
+    const result = await this.getModel(options, 'application/json').generateContent(prompt, { signal: options?.signal });
+    return extractJSON<T>(result.response.text());
+  }
+}
+
+/**
+ * Adapter for the OpenAI-compatible kinds (OpenAI itself, or the LiteLLM
+ * proxy in front of Ollama). Calls go through the backend, which holds the
+ * endpoint URLs and the OpenAI key; the browser only names a kind and model.
+ */
+class BackendProxyProvider implements LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly model: string;
+
+  constructor(config: LLMProviderConfig) {
+    this.kind = config.kind;
+    this.model = config.model;
+  }
+
+  private buildBody(prompt: string, options: GenerateOptions = {}, extra: Record<string, unknown> = {}) {
+    return {
+      provider: { kind: this.kind, model: this.model },
+      prompt,
+      systemInstruction: options.systemInstruction,
+      temperature: options.temperature,
+      maxOutputTokens: options.maxOutputTokens,
+      ...extra
+    };
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    const response = await postToBackend('llm/generate', this.buildBody(prompt, options), options?.signal);
+    const data: { text: string } = await response.json();
+    return data.text;
+  }
+
+  async *stream(prompt: string, options?: GenerateOptions): AsyncGenerator<string, void, unknown> {
+    const response = await postToBackend('llm/stream', this.buildBody(prompt, options), options?.signal);
+    yield* streamTokens(response);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await postToBackend('llm/embed', { provider: { kind: this.kind, model: this.model }, text });
+    const data: { embedding: number[] } = await response.json();
+    return data.embedding;
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T> {
+    const response = await postToBackend('llm/generate', this.buildBody(prompt, options, { json: true }), options?.signal);
+    const data: { data: T } = await response.json();
+    return data.data;
+  }
+}
+
+export type FakeResponder = (prompt: string, options?: GenerateOptions) => string;
+
+/**
+ * Deterministic in-memory provider for tests and offline UI work. Responses
+ * come from the supplied responder (or echo the prompt); embeddings are a
+ * hashed bag-of-words so similar texts get similar vectors.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly kind: LLMProviderKind = 'fake';
+  readonly model: string;
+  readonly calls: { prompt: string; options?: GenerateOptions }[] = [];
+  private responder: FakeResponder;
+  private dimensions: number;
+
+  constructor(responder?: FakeResponder, model = 'fake-model', dimensions = 64) {
+    this.model = model;
+    this.responder = responder || ((prompt) => `FAKE RESPONSE: ${prompt.slice(0, 80)}`);
+    this.dimensions = dimensions;
+  }
+
+  async generate(prompt: string, options?: GenerateOptions): Promise<string> {
+    options?.signal?.throwIfAborted();
+    this.calls.push({ prompt, options });
+    return this.responder(prompt, options);
+  }
+
+  async *stream(prompt: string, options?: GenerateOptions): AsyncGenerator<string, void, unknown> {
+    const text = await this.generate(prompt, options);
+    for (const piece of text.match(/\S+\s*/g) || []) {
+      options?.signal?.throwIfAborted();
+      yield piece;
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array(this.dimensions).fill(0);
+    for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+      let hash = 0;
+      for (let i = 0; i < word.length; i++) {
+        hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+      }
+      vector[hash % this.dimensions] += 1;
+    }
+    return vector;
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T> {
+    return extractJSON<T>(await this.generate(prompt, options));
+  }
+}
+
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.kind) {
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'openai':
+    case 'ollama':
+      return new BackendProxyProvider(config);
+    case 'fake':
+      return new FakeLLMProvider(undefined, config.model);
+    default:
+      throw new Error(`Unknown LLM provider: ${(config as LLMProviderConfig).kind}`);
+  }
+};
+
+export class LLMProviderService {
+  private static instance: LLMProviderService;
+  private config: LLMProviderConfig;
+  private provider: LLMProvider;
+  private listeners: Set<(config: LLMProviderConfig) => void> = new Set();
+
+  private constructor() {
+    this.config = this.loadConfig();
+    this.provider = createLLMProvider(this.config);
+  }
+
+  static getInstance(): LLMProviderService {
+    if (!LLMProviderService.instance) {
+      LLMProviderService.instance = new LLMProviderService();
+    }
+    return LLMProviderService.instance;
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  getConfig(): LLMProviderConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Select the provider for this workspace. The choice is persisted and its
+   * kind and model are forwarded to the backend proxy with each request.
+   */
+  setConfig(config: LLMProviderConfig) {
+    this.config = { ...config };
+    this.provider = createLLMProvider(this.config);
+    this.saveConfig();
+    this.listeners.forEach(listener => listener(this.getConfig()));
+  }
+
+  /**
+   * Swap in a ready-made provider (e.g. FakeLLMProvider in tests) without
+   * persisting anything.
+   */
+  setProvider(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * What the backend proxy accepts from the browser: it takes base URLs and
+   * API keys from its own environment.
+   */
+  getRequestConfig(): Pick<LLMProviderConfig, 'kind' | 'model'> {
+    return { kind: this.config.kind, model: this.config.model };
+  }
+
+  subscribe(listener: (config: LLMProviderConfig) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private saveConfig() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+    } catch (error) {
+      console.error('Failed to save LLM provider config:', error);
+    }
+  }
+
+  private loadConfig(): LLMProviderConfig {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        // Older versions stored an API key and base URL here; the backend owns both now
+        const { apiKey, baseUrl, ...config } = JSON.parse(stored);
+        if (apiKey !== undefined || baseUrl !== undefined) localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+        return config;
+      }
+    } catch (error) {
+      console.error('Failed to load LLM provider config:', error);
+    }
+    return { ...DEFAULT_PROVIDER_CONFIGS.gemini };
+  }
+}
@@ -0,0 +1,81 @@
+import type { Worker, ImageLike } from 'tesseract.js';
+
+export interface OcrResult {
+  text: string;
+  // Mean word confidence reported by Tesseract, 0-100
+  confidence: number;
+}
+
+// Served by the tesseract-assets plugin in vite.config.ts; nothing is fetched from the network
+const ASSET_BASE = '/tesseract';
+
+// Release the worker (and its ~30MB of wasm heap) after this long without work
+const IDLE_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Local OCR using tesseract.js, which runs recognition in its own Web
+ * Worker. The worker is created on first use and shut down when idle.
+ */
+export class OcrService {
+  private static instance: OcrService;
+  private workerPromise: Promise<Worker> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending = 0;
+
+  static getInstance(): OcrService {
+    if (!OcrService.instance) {
+      OcrService.instance = new OcrService();
+    }
+    return OcrService.instance;
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.workerPromise) {
+      this.workerPromise = import('tesseract.js').then(({ createWorker, OEM }) =>
+        createWorker('eng', OEM.LSTM_ONLY, {
+          workerPath: `${ASSET_BASE}/worker.min.js`,
+          corePath: ASSET_BASE,
+          langPath: ASSET_BASE,
+          workerBlobURL: false,
+        })
+      );
+      // Let a failed start be retried on the next call
+      this.workerPromise.catch(() => {
+        this.workerPromise = null;
+      });
+    }
+    return this.workerPromise;
+  }
+
+  /**
+   * Recognize text in an image, canvas or image file.
+   */
+  async recognize(image: ImageLike): Promise<OcrResult> {
+    this.pending++;
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    try {
+      const worker = await this.getWorker();
+      const { data } = await worker.recognize(image);
+      return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+    } finally {
+      this.pending--;
+      if (this.pending === 0) {
+        this.idleTimer = setTimeout(() => this.terminate(), IDLE_TIMEOUT_MS);
+      }
+    }
+  }
+
+  async terminate() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    const workerPromise = this.workerPromise;
+    this.workerPromise = null;
+    if (workerPromise) {
+      try {
+        await (await workerPromise).terminate();
+      } catch (error) {
+        console.error('Failed to stop OCR worker:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import type { ParsedContent, PdfText } from './fileParser';
+
+/**
+ * What a worker sends back for one file. PDFs come back as laid-out page
+ * texts so that pages without a text layer can be OCR'd on the main thread,
+ * which owns the canvas that rendering needs.
+ */
+export type WorkerParseResult =
+  | { kind: 'parsed'; result: string | ParsedContent }
+  | { kind: 'pdfText'; pdf: PdfText };
+
+export interface ParseRequest {
+  id: number;
+  file: File;
+  fileType: string;
+}
+
+export type ParseResponse =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'result'; result: WorkerParseResult }
+  | { id: number; type: 'error'; message: string };
+
+interface Task {
+  request: ParseRequest;
+  onProgress: (fraction: number) => void;
+  resolve: (result: WorkerParseResult) => void;
+  reject: (error: Error) => void;
+  // Removed from the caller's signal once the task settles, so a long-lived
+  // signal does not keep every finished task (and its file) reachable
+  onAbort: () => void;
+}
+
+interface Slot {
+  worker: Worker;
+  task: Task | null;
+}
+
+const MAX_WORKERS = 4;
+
+// Stop idle workers (and the parser libraries they loaded) after this long
+const IDLE_TIMEOUT_MS = 30 * 1000;
+
+const cancelledError = () => new DOMException('Parsing cancelled', 'AbortError');
+
+/**
+ * A small pool of module workers that run file parsers off the main thread.
+ * Each worker parses one file at a time; further files wait in a queue.
+ * Cancelling a file that is already being parsed terminates its worker,
+ * since parser libraries cannot be interrupted mid-file.
+ */
+export class ParserPool {
+  private static instance: ParserPool;
+  private slots: Slot[] = [];
+  private queue: Task[] = [];
+  private nextId = 1;
+  private failed = false;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly size = Math.max(1, Math.min(MAX_WORKERS, (globalThis.navigator?.hardwareConcurrency || 2) - 1));
+
+  static getInstance(): ParserPool {
+    if (!ParserPool.instance) {
+      ParserPool.instance = new ParserPool();
+    }
+    return ParserPool.instance;
+  }
+
+  /**
+   * Workers need browser support and a worker script that loads. After a
+   * worker fails to start, callers should parse on the main thread instead.
+   */
+  isAvailable(): boolean {
+    return typeof Worker !== 'undefined' && !this.failed;
+  }
+
+  parse(file: File, fileType: string, onProgress: (fraction: number) => void, signal?: AbortSignal): Promise<WorkerParseResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(cancelledError());
+        return;
+      }
+      const settled = () => signal?.removeEventListener('abort', task.onAbort);
+      const task: Task = {
+        request: { id: this.nextId++, file, fileType },
+        onProgress,
+        resolve: result => {
+          settled();
+          resolve(result);
+        },
+        reject: error => {
+          settled();
+          reject(error);
+        },
+        onAbort: () => this.cancel(task),
+      };
+      signal?.addEventListener('abort', task.onAbort, { once: true });
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  terminate() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    this.slots.forEach(slot => slot.worker.terminate());
+    this.slots = [];
+  }
+
+  private cancel(task: Task) {
+    const queued = this.queue.indexOf(task);
+    if (queued !== -1) this.queue.splice(queued, 1);
+
+    const slot = this.slots.find(candidate => candidate.task === task);
+    if (slot) {
+      slot.worker.terminate();
+      this.slots.splice(this.slots.indexOf(slot), 1);
+    }
+
+    // No-op if the task already settled
+    task.reject(cancelledError());
+    this.dispatch();
+  }
+
+  private dispatch() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+
+    while (this.queue.length > 0) {
+      let slot = this.slots.find(candidate => !candidate.task);
+      if (!slot) {
+        if (this.slots.length >= this.size) break;
+        slot = this.spawn();
+      }
+      const task = this.queue.shift()!;
+      slot.task = task;
+      slot.worker.postMessage(task.request);
+    }
+
+    if (this.queue.length === 0 && this.slots.every(slot => !slot.task)) {
+      this.idleTimer = setTimeout(() => this.terminate(), IDLE_TIMEOUT_MS);
+    }
+  }
+
+  private spawn(): Slot {
+    const worker = new Worker(new URL('./parserWorker.ts', import.meta.url), { type: 'module' });
+    const slot: Slot = { worker, task: null };
+
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const message = event.data;
+      const task = slot.task;
+      if (!task || message.id !== task.request.id) return;
+
+      if (message.type === 'progress') {
+        task.onProgress(message.fraction);
+        return;
+      }
+      slot.task = null;
+      if (message.type === 'result') task.resolve(message.result);
+      else task.reject(new Error(message.message));
+      this.dispatch();
+    };
+
+    // Parser errors arrive as messages; this fires when the worker itself breaks
+    worker.onerror = (event) => {
+      event.preventDefault();
+      console.error('Parser worker failed; parsing on the main thread from now on:', event.message);
+      this.failed = true;
+      const pending = [...this.queue, ...this.slots.map(candidate => candidate.task).filter((task): task is Task => !!task)];
+      this.queue = [];
+      this.terminate();
+      pending.forEach(task => task.reject(new Error(`Parser worker failed: ${event.message || 'could not start'}`)));
+    };
+
+    this.slots.push(slot);
+    return slot;
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Entry point of the parser workers started by ParserPool. Runs one file at
+ * a time through the same parsers fileParser.ts uses on the main thread.
+ */
+import { parseInWorker } from './fileParser';
+import type { ParseRequest, ParseResponse } from './parserPool';
+
+// The worker global, typed by hand: the project compiles against the DOM lib only
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseRequest>) => void) | null;
+  postMessage: (message: ParseResponse) => void;
+};
+
+scope.onmessage = async ({ data: { id, file, fileType } }) => {
+  try {
+    scope.postMessage({ id, type: 'progress', fraction: 0 });
+    const result = await parseInWorker(file, fileType, fraction => scope.postMessage({ id, type: 'progress', fraction }));
+    scope.postMessage({ id, type: 'result', result });
+  } catch (error) {
+    scope.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
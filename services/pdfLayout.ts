@@ -0,0 +1,133 @@
+import { SourcePage } from '../types';
+
+/**
+ * The subset of a pdf.js `TextItem` used for layout. `transform` is the
+ * text matrix: [scaleX, skewY, skewX, scaleY, x, y], with y growing upwards.
+ */
+export interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width?: number;
+  height?: number;
+  hasEOL?: boolean;
+}
+
+interface Line {
+  text: string;
+  y: number;
+  fontSize: number;
+}
+
+const fontSizeOf = (item: PdfTextItem): number =>
+  item.height || Math.hypot(item.transform[2], item.transform[3]) || 0;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Group text items into visual lines using their baselines. Items on the
+ * same baseline are joined, with a space where there is a horizontal gap.
+ */
+const groupLines = (items: PdfTextItem[]): Line[] => {
+  const lines: Line[] = [];
+  let current: Line | null = null;
+  let lastEndX = 0;
+  let breakAfter = false;
+
+  for (const item of items) {
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const fontSize = fontSizeOf(item);
+    const sameLine = current && !breakAfter && Math.abs(y - current.y) <= Math.max(fontSize, current.fontSize) * 0.5;
+
+    if (!sameLine) {
+      current = { text: item.str, y, fontSize };
+      lines.push(current);
+    } else if (current) {
+      const gap = x - lastEndX;
+      const needsSpace = gap > fontSize * 0.15 && !current.text.endsWith(' ') && !item.str.startsWith(' ');
+      current.text += (needsSpace ? ' ' : '') + item.str;
+      current.fontSize = Math.max(current.fontSize, fontSize);
+    }
+
+    lastEndX = x + (item.width || 0);
+    breakAfter = !!item.hasEOL;
+  }
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text.length > 0);
+};
+
+/**
+ * Rebuild readable text for one page: lines in reading order, blank lines
+ * where the vertical gap signals a new paragraph, and markdown headings for
+ * short lines set noticeably larger than the body text.
+ */
+export const layoutPdfPage = (items: PdfTextItem[]): string => {
+  const lines = groupLines(items.filter(item => typeof item.str === 'string'));
+  if (lines.length === 0) return '';
+
+  const bodySize = median(lines.map(line => line.fontSize)) || 1;
+  const spacings = lines.slice(1).map((line, i) => Math.abs(lines[i].y - line.y)).filter(gap => gap > 0);
+  const lineSpacing = median(spacings) || bodySize * 1.2;
+
+  const blocks: string[] = [];
+  let paragraph = '';
+  const flush = () => {
+    if (paragraph) blocks.push(paragraph);
+    paragraph = '';
+  };
+  const append = (text: string) => {
+    // Rejoin words hyphenated across a line break
+    if (/[a-z]-$/.test(paragraph) && /^[a-z]/.test(text)) {
+      paragraph = paragraph.slice(0, -1) + text;
+    } else {
+      paragraph += (paragraph ? ' ' : '') + text;
+    }
+  };
+
+  lines.forEach((line, i) => {
+    const isHeading = line.fontSize >= bodySize * 1.2 && line.text.length <= 120;
+    const gap = i > 0 ? Math.abs(lines[i - 1].y - line.y) : 0;
+
+    if (isHeading) {
+      flush();
+      blocks.push(`${line.fontSize >= bodySize * 1.6 ? '#' : '##'} ${line.text}`);
+      return;
+    }
+    if (i > 0 && gap > lineSpacing * 1.4) flush();
+    append(line.text);
+  });
+  flush();
+
+  return blocks.join('\n\n');
+};
+
+/**
+ * Join page texts into one document, prefixing each page with a `[Page N]`
+ * marker and recording where each page starts and ends in the result.
+ */
+export const assemblePages = (pageTexts: string[]): { content: string; pages: SourcePage[] } => {
+  let content = '';
+  const pages: SourcePage[] = [];
+
+  pageTexts.forEach((text, index) => {
+    if (content) content += '\n\n';
+    const start = content.length;
+    content += `[Page ${index + 1}]\n${text}`;
+    pages.push({ pageNumber: index + 1, start, end: content.length });
+  });
+
+  return { content, pages };
+};
+
+/**
+ * Page number containing the character at `offset` in a source's content,
+ * for citations such as "page 12".
+ */
+export const findPageAtOffset = (pages: SourcePage[] | undefined, offset: number): number | undefined =>
+  pages?.find(page => offset >= page.start && offset < page.end)?.pageNumber;
@@ -1,7 +1,5 @@
 import { Persona, PersonalityProfile, Source } from '../types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService } from './llmProvider';
 
 export interface PersonaWeights {
   personality: number; // 0-1 scale
@@ -89,7 +87,7 @@ export class PersonaCalibrationService {
   }
 
   private async extractPersonalityProfile(persona: Persona): Promise<PersonalityProfile> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
 
     // Combine shaper sources with more context (limit to prevent token overflow)
     const shaperContent = persona.shaperSources.map(s => 
@@ -115,8 +113,7 @@ Please extract and structure the following personality components:
 
 Format as JSON with these exact keys: coreTraits, communicationStyle, decisionFramework, worldview, expertiseAreas, behavioralPatterns, valueSystem`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
+    const response = await llm.generate(prompt);
 
     try {
       // Extract JSON from response
@@ -141,7 +138,7 @@ Format as JSON with these exact keys: coreTraits, communicationStyle, decisionFr
   }
 
   private async refinePersonalityProfile(profile: PersonalityProfile, persona: Persona): Promise<PersonalityProfile> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
 
     const prompt = `Refine and validate this personality profile for ${persona.name} ${persona.surname} (${persona.role}).
 
@@ -157,8 +154,7 @@ Ensure the profile is:
 
 Return the refined profile as JSON with the same structure.`;
 
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
+    const response = await llm.generate(prompt);
 
     try {
       const jsonMatch = response.match(/\{[\s\S]*\}/);
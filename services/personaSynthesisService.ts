@@ -1,7 +1,5 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Source, Persona } from '../types';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService } from './llmProvider';
 
 export class PersonaSynthesisService {
   private static instance: PersonaSynthesisService;
@@ -37,7 +35,7 @@ export class PersonaSynthesisService {
       throw new Error('At least one source document is required to synthesize a persona');
     }
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Combine sources content for analysis (limit to prevent token overflow and clean content)
     const combinedContent = sources.map(source => {
@@ -64,8 +62,7 @@ If the documents are about a specific person, focus on that person. If they're a
 Respond ONLY with the JSON object. Do not include any other text.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
+      const responseText = await llm.generate(prompt);
       
       // Extract JSON from response
       const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -115,7 +112,7 @@ Respond ONLY with the JSON object. Do not include any other text.`;
    * Extract key themes and values from sources to build persona's moral compass
    */
   async extractPersonaValues(sources: Source[]): Promise<string[]> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Clean and combine content
     const combinedContent = sources.map(source => {
@@ -136,8 +133,7 @@ Focus on values that are explicitly mentioned or strongly implied by the content
 Do not include any other text in your response.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
+      const responseText = await llm.generate(prompt);
       
       // Extract JSON array from response
       const jsonMatch = responseText.match(/\[[\s\S]*\]/);
@@ -168,7 +164,7 @@ Do not include any other text in your response.`;
    * Update an existing persona's biography based on new sources
    */
   async updatePersonaBio(persona: Persona, newSources: Source[]): Promise<string> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Combine existing shaper sources and new sources (clean content)
     const allSources = [...persona.shaperSources, ...newSources];
@@ -194,8 +190,7 @@ The updated biography should:
 Respond ONLY with the updated biography text. Do not include any other text.`;
 
     try {
-      const result = await model.generateContent(prompt);
-      return result.response.text().trim();
+      return (await llm.generate(prompt)).trim();
     } catch (error) {
       console.error('Failed to update persona bio:', error);
       return persona.bio; // Return original bio if update fails
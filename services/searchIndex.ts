@@ -0,0 +1,279 @@
+export type SearchDocumentKind = 'persona' | 'source' | 'content';
+
+export interface SearchField {
+  name: string;
+  text: string;
+}
+
+/**
+ * A document as the index stores it: term frequencies and token counts per
+ * field. The inverted postings are rebuilt from these when the index loads.
+ */
+export interface IndexedDocument {
+  id: string;
+  kind: SearchDocumentKind;
+  // Changes whenever the indexed text does, so unchanged documents are skipped
+  fingerprint: string;
+  lengths: Record<string, number>;
+  terms: Record<string, Record<string, number>>;
+}
+
+// A query term to score, weighted down when it is a fuzzy stand-in for what was typed
+export interface WeightedTerm {
+  term: string;
+  weight: number;
+}
+
+export interface SimilarTerm {
+  term: string;
+  // Edits (insertions, deletions, substitutions, transpositions) away from the looked-up term
+  distance: number;
+}
+
+export interface IndexHit {
+  id: string;
+  score: number;
+  // Fields containing at least one of the query terms
+  fields: string[];
+}
+
+// How much a match in each field counts relative to body content
+const FIELD_WEIGHTS: Record<string, number> = {
+  name: 3,
+  role: 2,
+  bio: 1.5,
+  content: 1,
+};
+
+// BM25 term-frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her', 'his',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which',
+  'who', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Reduce an English word to a stem shared by its inflections ("studies",
+ * "studied" and "studying" all become "studi"). A light suffix stripper
+ * rather than full Porter: both documents and queries go through it, so it
+ * only needs to be consistent.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  let base = word;
+
+  if (base.endsWith('sses')) base = base.slice(0, -2);
+  else if (base.endsWith('ies')) base = `${base.slice(0, -3)}i`;
+  else if (/(?:[sxz]|ch|sh)es$/.test(base)) base = base.slice(0, -2);
+  else if (base.endsWith('s') && !/(?:ss|us|is)$/.test(base)) base = base.slice(0, -1);
+
+  const suffix = base.match(/(?:ingly|edly|ing|ed|ly|ment|ness|ational|ization)$/)?.[0];
+  if (suffix && base.length - suffix.length >= 3) {
+    base = base.slice(0, -suffix.length);
+    if (suffix === 'ational') base += 'ate';
+    if (suffix === 'ization') base += 'ize';
+    // "running" -> "runn" -> "run"
+    if (/([^aeiouslz])\1$/.test(base)) base = base.slice(0, -1);
+  }
+
+  if (base.endsWith('y') && base.length > 3) base = `${base.slice(0, -1)}i`;
+  // "make" and "making" both end up as "mak"
+  if (base.endsWith('e') && base.length > 3) base = base.slice(0, -1);
+  return base;
+};
+
+/**
+ * Split text into lowercase words, dropping stop-words.
+ */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => !STOP_WORDS.has(word));
+
+/**
+ * Stemmed index terms of a text, in order and with repeats.
+ */
+export const analyze = (text: string): string[] => tokenize(text).map(stem);
+
+export const indexDocument = (
+  id: string,
+  kind: SearchDocumentKind,
+  fingerprint: string,
+  fields: SearchField[]
+): IndexedDocument => {
+  const lengths: Record<string, number> = {};
+  const terms: Record<string, Record<string, number>> = {};
+  fields.forEach(field => {
+    const fieldTerms = analyze(field.text);
+    lengths[field.name] = (lengths[field.name] || 0) + fieldTerms.length;
+    fieldTerms.forEach(term => {
+      // Own-property check, so words like "constructor" are not taken for existing entries
+      const counts = Object.hasOwn(terms, term) ? terms[term] : (terms[term] = {});
+      counts[field.name] = (counts[field.name] || 0) + 1;
+    });
+  });
+  return { id, kind, fingerprint, lengths, terms };
+};
+
+const trigrams = (term: string): string[] => {
+  const padded = ` ${term} `;
+  return Array.from(new Set(Array.from({ length: padded.length - 2 }, (_, i) => padded.slice(i, i + 3))));
+};
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions), or Infinity once it must exceed `max`.
+ */
+export const editDistance = (a: string, b: string, max = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return Infinity;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length] > max ? Infinity : previous[b.length];
+};
+
+/**
+ * In-memory inverted index over personas and sources, ranked with BM25F
+ * (BM25 with per-field weights and length normalization).
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+  private fieldTotals = new Map<string, number>();
+  // Trigram -> indexed terms containing it, for finding terms close to a typo
+  private trigramTerms = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get(id: string): IndexedDocument | undefined {
+    return this.documents.get(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  add(document: IndexedDocument) {
+    this.remove(document.id);
+    this.documents.set(document.id, document);
+    Object.keys(document.terms).forEach(term => {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+        trigrams(term).forEach(trigram => {
+          if (!this.trigramTerms.has(trigram)) this.trigramTerms.set(trigram, new Set());
+          this.trigramTerms.get(trigram)!.add(term);
+        });
+      }
+      this.postings.get(term)!.add(document.id);
+    });
+    Object.entries(document.lengths).forEach(([field, length]) =>
+      this.fieldTotals.set(field, (this.fieldTotals.get(field) || 0) + length)
+    );
+  }
+
+  remove(id: string) {
+    const document = this.documents.get(id);
+    if (!document) return;
+    this.documents.delete(id);
+    Object.keys(document.terms).forEach(term => {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids?.size !== 0) return;
+      this.postings.delete(term);
+      trigrams(term).forEach(trigram => {
+        const terms = this.trigramTerms.get(trigram);
+        terms?.delete(term);
+        if (terms?.size === 0) this.trigramTerms.delete(trigram);
+      });
+    });
+    Object.entries(document.lengths).forEach(([field, length]) =>
+      this.fieldTotals.set(field, (this.fieldTotals.get(field) || 0) - length)
+    );
+  }
+
+  hasTerm(term: string): boolean {
+    return this.postings.has(term);
+  }
+
+  /**
+   * Indexed terms other than `term` itself within `maxEdits` of it, closest
+   * and then most common first.
+   */
+  similarTerms(term: string, maxEdits: number): SimilarTerm[] {
+    if (maxEdits < 1) return [];
+    const termTrigrams = trigrams(term);
+    // One edit changes at most four trigrams (a transposition)
+    const required = Math.max(1, termTrigrams.length - 4 * maxEdits);
+
+    const shared = new Map<string, number>();
+    termTrigrams.forEach(trigram =>
+      this.trigramTerms.get(trigram)?.forEach(candidate => shared.set(candidate, (shared.get(candidate) || 0) + 1))
+    );
+
+    const similar: SimilarTerm[] = [];
+    shared.forEach((count, candidate) => {
+      if (count < required || candidate === term) return;
+      const distance = editDistance(term, candidate, maxEdits);
+      if (distance <= maxEdits) similar.push({ term: candidate, distance });
+    });
+    return similar.sort((a, b) =>
+      a.distance - b.distance || this.postings.get(b.term)!.size - this.postings.get(a.term)!.size
+    );
+  }
+
+  /**
+   * Documents containing any of the query terms, best first.
+   */
+  search(queryTerms: WeightedTerm[], kinds?: SearchDocumentKind[]): IndexHit[] {
+    // A term typed twice, or reached both exactly and fuzzily, counts once at its best weight
+    const weights = new Map<string, number>();
+    queryTerms.forEach(({ term, weight }) => weights.set(term, Math.max(weight, weights.get(term) || 0)));
+    const total = this.documents.size;
+    const hits = new Map<string, IndexHit>();
+
+    weights.forEach((weight, term) => {
+      const ids = this.postings.get(term);
+      if (!ids) return;
+      const idf = Math.log(1 + (total - ids.size + 0.5) / (ids.size + 0.5));
+
+      ids.forEach(id => {
+        const document = this.documents.get(id)!;
+        if (kinds && !kinds.includes(document.kind)) return;
+
+        let weightedFrequency = 0;
+        const fields: string[] = [];
+        Object.entries(document.terms[term]).forEach(([field, frequency]) => {
+          const averageLength = (this.fieldTotals.get(field) || 1) / total;
+          const normalization = 1 - B + B * (document.lengths[field] / averageLength);
+          weightedFrequency += ((FIELD_WEIGHTS[field] ?? 1) * frequency) / normalization;
+          fields.push(field);
+        });
+
+        const hit = hits.get(id) || { id, score: 0, fields: [] };
+        hit.score += (weight * idf * weightedFrequency) / (K1 + weightedFrequency);
+        hit.fields = Array.from(new Set([...hit.fields, ...fields]));
+        hits.set(id, hit);
+      });
+    });
+
+    return Array.from(hits.values()).sort((a, b) => b.score - a.score);
+  }
+}
@@ -0,0 +1,172 @@
+export type QueryField = 'persona' | 'source' | 'role' | 'tag';
+
+/**
+ * Parsed search query. Bare words are ANDed unless joined with OR.
+ */
+export type QueryNode =
+  | { type: 'term'; text: string }
+  | { type: 'phrase'; text: string }
+  | { type: 'field'; field: QueryField; value: string }
+  // Either end may be open; both are inclusive
+  | { type: 'date'; start?: Date; end?: Date }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+const FIELDS: QueryField[] = ['persona', 'source', 'role', 'tag'];
+const DATE_FIELDS = ['date', 'after', 'before'];
+
+type Token =
+  | { type: 'open' | 'close' | 'and' | 'or' | 'not' }
+  | { type: 'word'; text: string; quoted: boolean; field?: string };
+
+const tokenizeQuery = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close' });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ type: 'not' });
+      i++;
+    } else {
+      const field = query.slice(i).match(/^([a-z]+):(?=[^\s()])/i);
+      const fieldName = field && [...FIELDS, ...DATE_FIELDS].includes(field[1].toLowerCase()) ? field[1].toLowerCase() : undefined;
+      if (fieldName) i += field![0].length;
+
+      let text: string;
+      const quoted = query[i] === '"';
+      if (quoted) {
+        // An unclosed quote runs to the end of the query
+        const end = query.indexOf('"', i + 1);
+        text = query.slice(i + 1, end === -1 ? undefined : end);
+        i = end === -1 ? query.length : end + 1;
+      } else {
+        const word = query.slice(i).match(/^[^\s()"]+/)![0];
+        text = word;
+        i += word.length;
+      }
+
+      if (!fieldName && !quoted && (text === 'AND' || text === 'OR' || text === 'NOT')) {
+        tokens.push({ type: text.toLowerCase() as 'and' | 'or' | 'not' });
+      } else {
+        tokens.push({ type: 'word', text, quoted, field: fieldName });
+      }
+    }
+  }
+  return tokens;
+};
+
+/**
+ * The range a date value covers, from the start of its first day to the end
+ * of its last: "2023" is the whole year, "2023-05" the month.
+ */
+export const parseDateValue = (value: string): { start: Date; end: Date } | undefined => {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (!match) return undefined;
+  const [year, month, day] = [Number(match[1]), match[2] && Number(match[2]), match[3] && Number(match[3])];
+  const start = new Date(Date.UTC(year, month ? month - 1 : 0, day || 1));
+  const next = day
+    ? Date.UTC(year, month ? month - 1 : 0, day + 1)
+    : month ? Date.UTC(year, month, 1) : Date.UTC(year + 1, 0, 1);
+  return { start, end: new Date(next - 1) };
+};
+
+const wordNode = (token: Extract<Token, { type: 'word' }>): QueryNode | null => {
+  if (token.field && DATE_FIELDS.includes(token.field)) {
+    const range = parseDateValue(token.text);
+    // Not a date after all; search for the text instead
+    if (!range) return { type: 'term', text: `${token.field} ${token.text}` };
+    if (token.field === 'after') return { type: 'date', start: range.start };
+    if (token.field === 'before') return { type: 'date', end: range.end };
+    return { type: 'date', ...range };
+  }
+  if (token.field) return token.text.trim() ? { type: 'field', field: token.field as QueryField, value: token.text.trim() } : null;
+  if (!token.text.trim()) return null;
+  return token.quoted ? { type: 'phrase', text: token.text } : { type: 'term', text: token.text };
+};
+
+const combine = (type: 'and' | 'or', children: QueryNode[]): QueryNode | null =>
+  children.length === 0 ? null : children.length === 1 ? children[0] : { type, children };
+
+/**
+ * Parse a search query into a tree. Supports quoted phrases, AND, OR, NOT
+ * (or a leading "-"), parentheses, the field filters persona:, source:,
+ * role: and tag:, and the date filters date:, after: and before: with
+ * YYYY, YYYY-MM or YYYY-MM-DD values. Parsing is lenient, since it runs on
+ * every keystroke: unbalanced parentheses and quotes are closed at the end
+ * and dangling operators are ignored. Returns null for an empty query.
+ */
+export const parseQuery = (query: string): QueryNode | null => {
+  const tokens = tokenizeQuery(query);
+  let position = 0;
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    for (;;) {
+      const child = parseAnd();
+      if (child) children.push(child);
+      if (tokens[position]?.type !== 'or') break;
+      position++;
+    }
+    return combine('or', children);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (position < tokens.length && tokens[position].type !== 'or' && tokens[position].type !== 'close') {
+      if (tokens[position].type === 'and') {
+        position++;
+        continue;
+      }
+      const child = parseUnary();
+      if (child) children.push(child);
+    }
+    return combine('and', children);
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position++];
+    if (token.type === 'not') {
+      if (position >= tokens.length || tokens[position].type === 'close' || tokens[position].type === 'or') return null;
+      const child = parseUnary();
+      return child && { type: 'not', child };
+    }
+    if (token.type === 'open') {
+      const group = parseOr();
+      if (tokens[position]?.type === 'close') position++;
+      return group;
+    }
+    return token.type === 'word' ? wordNode(token) : null;
+  };
+
+  const parsed: QueryNode[] = [];
+  while (position < tokens.length) {
+    const node = parseOr();
+    if (node) parsed.push(node);
+    // A stray closing parenthesis ends parseOr early; skip it and go on
+    if (tokens[position]?.type === 'close') position++;
+  }
+  return combine('and', parsed);
+};
+
+/**
+ * Text of the terms and phrases a result should contain, i.e. those not
+ * under a NOT. Used to rank and highlight results.
+ */
+export const positiveTerms = (node: QueryNode): string[] => {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return [node.text];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(positiveTerms);
+    default:
+      return [];
+  }
+};
@@ -1,7 +1,21 @@
 import { Persona, Source } from '../types';
+import {
+  IndexedDocument,
+  SearchDocumentKind,
+  SearchField,
+  SearchIndex,
+  SimilarTerm,
+  analyze,
+  indexDocument,
+  stem,
+  tokenize
+} from './searchIndex';
+import { hashContent } from './sourceDedup';
+import { deleteStateEntries, getStateEntries, putStateEntries } from './db';
+import { QueryNode, parseQuery, positiveTerms } from './searchQuery';
 
 export interface SearchResult {
-  type: 'persona' | 'source' | 'content';
+  type: SearchDocumentKind;
   id: string;
   title: string;
   snippet: string;
@@ -15,15 +29,68 @@ export interface SearchResult {
 
 export interface SearchFilters {
   type?: 'all' | 'personas' | 'sources' | 'content';
+  // Keeps sources published (or, lacking that, added) within the range; personas have no date
   dateRange?: {
     start: Date;
     end: Date;
   };
   hasContent?: boolean;
+  // Typo tolerance: how many edits a query term may be from an indexed one.
+  // 'auto' (the default) allows one for short words and two for long ones; 0 matches exactly
+  fuzziness?: 'auto' | number;
 }
 
+// A persona, knowledge source or shaper source as the index sees it
+interface SearchableItem {
+  id: string;
+  kind: SearchDocumentKind;
+  title: string;
+  // Snippets come from here; empty when the item has nothing to show
+  snippetText: string;
+  fields: SearchField[];
+  // The object the item was built from; unchanged objects are not re-hashed
+  origin: object;
+  // The persona the item is or belongs to, and the source it is
+  persona?: Persona;
+  source?: Source;
+}
+
+const KIND_FILTERS: Record<NonNullable<SearchFilters['type']>, SearchDocumentKind[] | undefined> = {
+  all: undefined,
+  personas: ['persona'],
+  sources: ['source'],
+  content: ['content'],
+};
+
+// Variants of a query term that are in the index: the term itself, or when
+// it is not, indexed terms within the typo tolerance
+type TermVariants = (term: string) => SimilarTerm[];
+
+const maxEdits = (term: string, fuzziness: 'auto' | number): number => {
+  // Short words and numbers are too easily mistaken for others
+  if (term.length <= 3 || /\d/.test(term)) return 0;
+  if (fuzziness === 'auto') return term.length <= 6 ? 1 : 2;
+  return fuzziness;
+};
+
+// Edits a "did you mean" suggestion may be away from the typed word
+const SUGGESTION_MAX_EDITS = 2;
+
+const SNIPPET_LENGTH = 150;
+const MAX_RESULTS = 50;
+
 export class SearchService {
   private static instance: SearchService;
+  private index = new SearchIndex();
+  private fingerprints = new WeakMap<object, string>();
+  private items: { personas: Persona[]; knowledgeSources: Source[]; items: SearchableItem[] } | null = null;
+
+  // Resolves once the persisted index has been read back from IndexedDB
+  readonly loaded: Promise<void>;
+
+  private constructor() {
+    this.loaded = this.loadIndex();
+  }
 
   static getInstance(): SearchService {
     if (!SearchService.instance) {
@@ -32,157 +99,298 @@ export class SearchService {
     return SearchService.instance;
   }
 
+  /**
+   * Run a query (see parseQuery for the syntax) against personas, knowledge
+   * sources and persona shaper sources, best matches first.
+   */
   search(
     query: string,
     personas: Persona[],
     knowledgeSources: Source[],
     filters: SearchFilters = {}
   ): SearchResult[] {
-    if (!query.trim()) return [];
-
-    const results: SearchResult[] = [];
-    const searchTerms = query.toLowerCase().split(' ').filter(term => term.length > 0);
-
-    // Search personas
-    if (filters.type === 'all' || filters.type === 'personas' || !filters.type) {
-      personas.forEach(persona => {
-        const matches = this.findMatches(persona, searchTerms);
-        if (matches.length > 0) {
-          results.push({
-            type: 'persona',
-            id: persona.id,
-            title: `${persona.name} ${persona.surname}`,
-            snippet: persona.bio || persona.role,
-            relevance: this.calculateRelevance(matches),
-            matches
-          });
-        }
-      });
-    }
+    const parsed = parseQuery(query);
+    if (!parsed) return [];
 
-    // Search knowledge sources
-    if (filters.type === 'all' || filters.type === 'sources' || !filters.type) {
-      knowledgeSources.forEach(source => {
-        const matches = this.findMatches(source, searchTerms);
-        if (matches.length > 0) {
-          results.push({
-            type: 'source',
-            id: source.id,
-            title: source.name,
-            snippet: source.content.substring(0, 150) + (source.content.length > 150 ? '...' : ''),
-            relevance: this.calculateRelevance(matches),
-            matches
-          });
-        }
-      });
-    }
+    const items = this.getSearchableItems(personas, knowledgeSources);
+    this.updateIndex(items);
 
-    // Search within content
-    if (filters.type === 'all' || filters.type === 'content' || !filters.type) {
-      personas.forEach(persona => {
-        persona.shaperSources.forEach(source => {
-          const matches = this.findMatches(source, searchTerms);
-          if (matches.length > 0) {
-            results.push({
-              type: 'content',
-              id: `${persona.id}-${source.id}`,
-              title: `${source.name} (from ${persona.name})`,
-              snippet: source.content.substring(0, 150) + (source.content.length > 150 ? '...' : ''),
-              relevance: this.calculateRelevance(matches),
-              matches
-            });
-          }
-        });
-      });
-    }
+    const variants = this.termVariants(filters.fuzziness ?? 'auto');
+    // Only terms a result should contain count towards ranking; fuzzy
+    // matches count for less the further they are from what was typed
+    const queryVariants = analyze(positiveTerms(parsed).join(' ')).flatMap(variants);
+    const queryTerms = queryVariants.map(variant => variant.term);
+    const kinds = KIND_FILTERS[filters.type || 'all'];
+    const hits = new Map(
+      this.index
+        .search(queryVariants.map(({ term, distance }) => ({ term, weight: 1 / (1 + distance) })), kinds)
+        .map(hit => [hit.id, hit])
+    );
 
-    // Apply filters
-    let filteredResults = results.filter(result => {
-      if (filters.hasContent !== undefined) {
-        if (filters.hasContent && (!result.snippet || result.snippet.trim().length === 0)) return false;
-        if (!filters.hasContent && result.snippet && result.snippet.trim().length > 0) return false;
-      }
+    const matching = items
+      .filter(item => {
+        if (kinds && !kinds.includes(item.kind)) return false;
+        if (filters.hasContent !== undefined && filters.hasContent !== item.snippetText.trim().length > 0) return false;
+        if (filters.dateRange && !this.inDateRange(item, filters.dateRange.start, filters.dateRange.end)) return false;
+        return this.evaluate(parsed, item, variants);
+      })
+      .sort((a, b) => (hits.get(b.id)?.score || 0) - (hits.get(a.id)?.score || 0));
 
-      return true;
+    // Relevance is relative to the best hit, as a percentage; filter-only
+    // queries match everything they keep equally
+    const topScore = hits.get(matching[0]?.id)?.score || 0;
+    return matching.slice(0, MAX_RESULTS).map(item => {
+      const hit = hits.get(item.id);
+      return {
+        type: item.kind,
+        id: item.id,
+        title: item.title,
+        snippet: this.excerpt(item.snippetText, queryTerms),
+        relevance: topScore > 0 ? Math.max(1, Math.round(((hit?.score || 0) / topScore) * 100)) : 100,
+        matches: item.fields
+          .filter(field => hit?.fields.includes(field.name))
+          .map(field => ({
+            field: field.name,
+            value: field.text,
+            highlighted: this.highlightMatches(this.excerpt(field.text, queryTerms), queryTerms),
+          })),
+      };
     });
+  }
 
-    // Sort by relevance
-    filteredResults.sort((a, b) => b.relevance - a.relevance);
+  /**
+   * A corrected query when some of its words are not in the index but
+   * close to words that are, e.g. "dipolmat" -> "diplomat"; otherwise null.
+   */
+  suggest(query: string, personas: Persona[], knowledgeSources: Source[]): string | null {
+    const parsed = parseQuery(query);
+    if (!parsed) return null;
+    const items = this.getSearchableItems(personas, knowledgeSources);
+    this.updateIndex(items);
 
-    return filteredResults.slice(0, 50); // Limit to top 50 results
+    let suggestion = query;
+    new Set(positiveTerms(parsed).flatMap(tokenize)).forEach(word => {
+      const term = stem(word);
+      if (this.index.hasTerm(term) || maxEdits(term, SUGGESTION_MAX_EDITS) === 0) return;
+      const closest = this.index.similarTerms(term, SUGGESTION_MAX_EDITS)[0];
+      const replacement = closest && this.surfaceForm(closest.term, items);
+      if (!replacement) return;
+      // Words are letters and digits only, so they need no escaping
+      suggestion = suggestion.replace(new RegExp(`(?<![\\p{L}\\p{N}])${word}(?![\\p{L}\\p{N}])`, 'iu'), typed =>
+        // Keep the capital of a typed name
+        typed[0] !== typed[0].toLowerCase() ? replacement[0].toUpperCase() + replacement.slice(1) : replacement
+      );
+    });
+    return suggestion === query ? null : suggestion;
   }
 
-  private findMatches(item: Persona | Source, searchTerms: string[]) {
-    const matches: SearchResult['matches'] = [];
-    const fields = this.getSearchableFields(item);
+  private termVariants(fuzziness: 'auto' | number): TermVariants {
+    const cache = new Map<string, SimilarTerm[]>();
+    return term => {
+      if (!cache.has(term)) {
+        cache.set(term, this.index.hasTerm(term)
+          ? [{ term, distance: 0 }]
+          : this.index.similarTerms(term, maxEdits(term, fuzziness)));
+      }
+      return cache.get(term)!;
+    };
+  }
 
-    fields.forEach(field => {
-      const value = field.value.toLowerCase();
-      const fieldMatches: string[] = [];
+  // A word as written in some indexed text, for an index term (a stem)
+  private surfaceForm(term: string, items: SearchableItem[]): string | undefined {
+    const item = items.find(candidate => Object.hasOwn(this.index.get(candidate.id)?.terms || {}, term));
+    for (const field of item?.fields || []) {
+      const word = this.matchingWords(field.text, [term], 1)[0];
+      if (word) return word[0].toLowerCase();
+    }
+    return undefined;
+  }
 
-      searchTerms.forEach(term => {
-        if (value.includes(term)) {
-          fieldMatches.push(term);
+  private evaluate(node: QueryNode, item: SearchableItem, variants: TermVariants): boolean {
+    const contains = (value: string | undefined, text: string) => !!value?.toLowerCase().includes(text.toLowerCase());
+    switch (node.type) {
+      case 'term':
+        return this.hasTerms(item, node.text, variants);
+      case 'phrase':
+        // Phrases are matched exactly, typos included
+        return this.hasTerms(item, node.text, variants) && this.hasPhrase(item, node.text);
+      case 'field':
+        switch (node.field) {
+          case 'persona':
+            return !!item.persona && (item.persona.id === node.value || contains(`${item.persona.name} ${item.persona.surname}`, node.value));
+          case 'role':
+            return contains(item.persona?.role, node.value);
+          case 'source':
+            return !!item.source && (contains(item.source.path, node.value) || contains(item.source.name, node.value));
+          case 'tag':
+            return !!item.source?.tags?.some(tag => tag.toLowerCase() === node.value.toLowerCase());
         }
-      });
+        return false;
+      case 'date':
+        return this.inDateRange(item, node.start, node.end);
+      case 'and':
+        return node.children.every(child => this.evaluate(child, item, variants));
+      case 'or':
+        return node.children.some(child => this.evaluate(child, item, variants));
+      case 'not':
+        return !this.evaluate(node.child, item, variants);
+    }
+  }
+
+  // Whether the item's index entry has every term of the text, or a variant
+  // of it; stop-words alone match anything
+  private hasTerms(item: SearchableItem, text: string, variants: TermVariants): boolean {
+    const terms = this.index.get(item.id)?.terms;
+    return !!terms && analyze(text).every(term => variants(term).some(variant => Object.hasOwn(terms, variant.term)));
+  }
+
+  // Phrases match whole words in order, with only spacing and punctuation between them
+  private hasPhrase(item: SearchableItem, phrase: string): boolean {
+    const words = phrase.match(/[\p{L}\p{N}]+/gu);
+    if (!words) return true;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${words.join('[^\\p{L}\\p{N}]+')}(?![\\p{L}\\p{N}])`, 'iu');
+    return item.fields.some(field => pattern.test(field.text));
+  }
+
+  // Sources are dated by publication, or failing that by when they were added
+  private inDateRange(item: SearchableItem, start?: Date, end?: Date): boolean {
+    const date = item.source?.publishedAt || item.source?.ingestedAt;
+    if (!date) return false;
+    const time = Date.parse(date);
+    return !Number.isNaN(time) && (!start || time >= start.getTime()) && (!end || time <= end.getTime());
+  }
+
+  // Rebuilt only when the store hands over new persona or source arrays
+  private getSearchableItems(personas: Persona[], knowledgeSources: Source[]): SearchableItem[] {
+    if (this.items?.personas === personas && this.items.knowledgeSources === knowledgeSources) {
+      return this.items.items;
+    }
 
-      if (fieldMatches.length > 0) {
-        matches.push({
-          field: field.name,
-          value: field.value,
-          highlighted: this.highlightMatches(field.value, fieldMatches)
-        });
+    const items: SearchableItem[] = [
+      ...personas.map(persona => ({
+        id: persona.id,
+        kind: 'persona' as const,
+        title: `${persona.name} ${persona.surname}`,
+        snippetText: persona.bio || persona.role,
+        fields: [
+          { name: 'name', text: `${persona.name} ${persona.surname}` },
+          { name: 'role', text: persona.role },
+          { name: 'bio', text: persona.bio || '' },
+        ],
+        origin: persona,
+        persona,
+      })),
+      ...knowledgeSources.map(source => ({
+        id: source.id,
+        kind: 'source' as const,
+        title: source.name,
+        snippetText: source.content,
+        fields: [
+          { name: 'name', text: source.name },
+          { name: 'content', text: source.content },
+        ],
+        origin: source,
+        source,
+      })),
+      ...personas.flatMap(persona =>
+        persona.shaperSources.map(source => ({
+          id: `${persona.id}-${source.id}`,
+          kind: 'content' as const,
+          title: `${source.name} (from ${persona.name})`,
+          snippetText: source.content,
+          fields: [
+            { name: 'name', text: source.name },
+            { name: 'content', text: source.content },
+          ],
+          origin: source,
+          persona,
+          source,
+        }))
+      ),
+    ];
+    this.items = { personas, knowledgeSources, items };
+    return items;
+  }
+
+  /**
+   * Bring the index in line with the current items: re-index what changed,
+   * drop what is gone, and persist the difference.
+   */
+  private updateIndex(items: SearchableItem[]) {
+    const changed: IndexedDocument[] = [];
+    items.forEach(item => {
+      let fingerprint = this.fingerprints.get(item.origin);
+      if (!fingerprint) {
+        fingerprint = hashContent(item.fields.map(field => `${field.name}: ${field.text}`).join('\n'));
+        this.fingerprints.set(item.origin, fingerprint);
       }
+      if (this.index.get(item.id)?.fingerprint === fingerprint) return;
+      const document = indexDocument(item.id, item.kind, fingerprint, item.fields);
+      this.index.add(document);
+      changed.push(document);
     });
 
-    return matches;
-  }
-
-  private getSearchableFields(item: Persona | Source) {
-    if ('bio' in item) {
-      // It's a Persona
-      const persona = item as Persona;
-      return [
-        { name: 'name', value: persona.name },
-        { name: 'surname', value: persona.surname },
-        { name: 'role', value: persona.role },
-        { name: 'bio', value: persona.bio || '' },
-        ...persona.shaperSources.map(source => ({ name: `shaper-${source.name}`, value: source.content }))
-      ];
-    } else {
-      // It's a Source
-      const source = item as Source;
-      return [
-        { name: 'name', value: source.name },
-        { name: 'content', value: source.content }
-      ];
+    const ids = new Set(items.map(item => item.id));
+    const removed = this.index.ids().filter(id => !ids.has(id));
+    removed.forEach(id => this.index.remove(id));
+
+    if (changed.length > 0) {
+      putStateEntries('searchIndex', changed.map(document => [document.id, document] as [string, IndexedDocument])).catch(error => {
+        console.error('Failed to save search index:', error);
+      });
+    }
+    if (removed.length > 0) {
+      deleteStateEntries('searchIndex', removed).catch(error => {
+        console.error('Failed to save search index:', error);
+      });
     }
   }
 
-  private calculateRelevance(matches: SearchResult['matches']): number {
-    let relevance = 0;
-    matches.forEach(match => {
-      const fieldWeights = {
-        'name': 10,
-        'role': 8,
-        'bio': 6,
-        'content': 4,
-        'shaper': 5
-      };
+  private async loadIndex() {
+    try {
+      const entries = await getStateEntries<IndexedDocument>('searchIndex');
+      // Documents indexed while the store was still loading take precedence
+      entries.forEach(([id, document]) => {
+        if (!this.index.get(id)) this.index.add(document);
+      });
+    } catch (error) {
+      console.error('Failed to load search index:', error);
+    }
+  }
 
-      const weight = fieldWeights[match.field as keyof typeof fieldWeights] || 3;
-      relevance += weight * match.value.length;
-    });
+  // Words of the text whose stems are among the query terms. Only words
+  // starting like a stem are stemmed, which keeps long documents cheap.
+  private matchingWords(text: string, terms: string[], limit = Infinity): RegExpMatchArray[] {
+    const stems = new Set(terms);
+    const prefixes = Array.from(stems, term => term.slice(0, Math.max(3, term.length - 1)));
+    const candidates = new RegExp(`(?<![\\p{L}\\p{N}])(?:${prefixes.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+    const words: RegExpMatchArray[] = [];
+    for (const match of text.matchAll(candidates)) {
+      if (!stems.has(stem(match[0].toLowerCase()))) continue;
+      words.push(match);
+      if (words.length >= limit) break;
+    }
+    return words;
+  }
 
-    return relevance;
+  // About SNIPPET_LENGTH characters around the first match, or the start of the text
+  private excerpt(text: string, terms: string[]): string {
+    if (text.length <= SNIPPET_LENGTH) return text;
+    const first = this.matchingWords(text, terms, 1)[0]?.index ?? 0;
+    const start = Math.max(0, first - SNIPPET_LENGTH / 3);
+    const end = start + SNIPPET_LENGTH;
+    return `${start > 0 ? '...' : ''}${text.slice(start, end).trim()}${end < text.length ? '...' : ''}`;
   }
 
+  // Terms include the fuzzy variants a query matched, so misspelled words
+  // highlight what they were taken to mean
   private highlightMatches(text: string, terms: string[]): string {
-    let highlighted = text;
-    terms.forEach(term => {
-      const regex = new RegExp(`(${term})`, 'gi');
-      highlighted = highlighted.replace(regex, '**$1**');
+    let highlighted = '';
+    let position = 0;
+    this.matchingWords(text, terms).forEach(match => {
+      highlighted += `${text.slice(position, match.index)}**${match[0]}**`;
+      position = match.index! + match[0].length;
     });
-    return highlighted;
+    return highlighted + text.slice(position);
   }
 }
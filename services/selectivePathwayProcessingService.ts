@@ -1,9 +1,8 @@
 import { Source, Persona } from '../types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { AdvancedKnowledgeIngestionService, KnowledgePathwayReference } from './advancedKnowledgeIngestionService';
 import { AnalyticsService } from './analyticsService';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService } from './llmProvider';
+import { PersistedService, clearStateStore, loadStateInto, putStateEntries } from './db';
 
 export interface SelectiveProcessingResult {
   id: string;
@@ -15,16 +14,18 @@ export interface SelectiveProcessingResult {
   confidence: number; // 0-100
 }
 
-export class SelectivePathwayProcessingService {
+export class SelectivePathwayProcessingService implements PersistedService {
   private static instance: SelectivePathwayProcessingService;
   private analyticsService: AnalyticsService;
   private ingestionService: AdvancedKnowledgeIngestionService;
   private processingHistory: Map<string, SelectiveProcessingResult> = new Map();
 
+  readonly loaded: Promise<void>;
+
   private constructor() {
     this.analyticsService = AnalyticsService.getInstance();
     this.ingestionService = AdvancedKnowledgeIngestionService.getInstance();
-    this.loadProcessingHistory();
+    this.loaded = loadStateInto('processingHistory', this.processingHistory);
   }
 
   static getInstance(): SelectivePathwayProcessingService {
@@ -40,7 +41,7 @@ export class SelectivePathwayProcessingService {
     selectedPathways: KnowledgePathwayReference[],
     taskDescription: string
   ): Promise<SelectiveProcessingResult> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Prepare the context from selected pathways
     const pathwayContexts = selectedPathways.map(pathway => {
@@ -74,8 +75,7 @@ IMPORTANT INSTRUCTIONS:
 Response:`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const generatedContent = result.response.text();
+      const generatedContent = await llm.generate(prompt);
       
       // Generate a confidence score based on how well the content matches the pathways
       const confidencePrompt = `Rate the confidence level (0-100) that this response directly addresses the task using ONLY the provided information pathways:
@@ -89,8 +89,7 @@ Respond with ONLY a number between 0-100:`;
 
       let confidence = 75;
       try {
-        const confidenceResult = await model.generateContent(confidencePrompt);
-        confidence = parseInt(confidenceResult.response.text().trim()) || 75;
+        confidence = parseInt((await llm.generate(confidencePrompt)).trim()) || 75;
       } catch (error) {
         console.error('Failed to generate confidence score:', error);
       }
@@ -107,8 +106,7 @@ Summary:`;
 
       let processingSummary = 'Processed using selected information pathways.';
       try {
-        const summaryResult = await model.generateContent(summaryPrompt);
-        processingSummary = summaryResult.response.text().trim();
+        processingSummary = (await llm.generate(summaryPrompt)).trim();
       } catch (error) {
         console.error('Failed to generate processing summary:', error);
       }
@@ -167,7 +165,7 @@ Summary:`;
     }
     
     // Score each pathway for relevance to the task
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     const scoredPathways: { pathway: KnowledgePathwayReference; score: number }[] = [];
     
@@ -182,8 +180,7 @@ ${pathway.context}
 Respond with ONLY a number between 0-100:`;
       
       try {
-        const relevanceResult = await model.generateContent(relevancePrompt);
-        const score = parseInt(relevanceResult.response.text().trim()) || 0;
+        const score = parseInt((await llm.generate(relevancePrompt)).trim()) || 0;
         
         scoredPathways.push({
           pathway,
@@ -218,29 +215,15 @@ Respond with ONLY a number between 0-100:`;
   }
 
   private saveProcessingHistory() {
-    try {
-      const data = JSON.stringify(Array.from(this.processingHistory.entries()));
-      localStorage.setItem('knowledge-weaver-selective-processing-history', data);
-    } catch (error) {
+    putStateEntries('processingHistory', this.processingHistory).catch(error => {
       console.error('Failed to save processing history:', error);
-    }
-  }
-
-  private loadProcessingHistory() {
-    try {
-      const stored = localStorage.getItem('knowledge-weaver-selective-processing-history');
-      if (stored) {
-        const entries = JSON.parse(stored);
-        this.processingHistory = new Map(entries);
-      }
-    } catch (error) {
-      console.error('Failed to load processing history:', error);
-      this.processingHistory = new Map();
-    }
+    });
   }
 
   clearProcessingHistory() {
     this.processingHistory.clear();
-    localStorage.removeItem('knowledge-weaver-selective-processing-history');
+    clearStateStore('processingHistory').catch(error => {
+      console.error('Failed to clear processing history:', error);
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { Source } from '../types';
+import { isParsePlaceholder } from './sourceMetadata';
+
+export type DuplicateKind = 'exact' | 'near';
+
+export type DuplicateResolution = 'merge' | 'replace' | 'keep';
+
+export interface DuplicateMatch {
+  // The newly uploaded source
+  source: Source;
+  // The source already in the knowledge base (or earlier in the same upload) it duplicates
+  existing: Source;
+  kind: DuplicateKind;
+  // Estimated Jaccard similarity of the two texts' shingles, 0-1
+  similarity: number;
+}
+
+export interface DuplicateReport {
+  unique: Source[];
+  duplicates: DuplicateMatch[];
+}
+
+// Estimated shingle overlap at which two texts count as the same document
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+const SHINGLE_WORDS = 5;
+const SIGNATURE_SIZE = 128;
+
+/**
+ * 53-bit string hash (cyrb53), as 14 hex digits. Not cryptographic, but
+ * collisions are vanishingly unlikely at knowledge-base scale, and unlike
+ * crypto.subtle it is synchronous and available everywhere.
+ */
+const hash53 = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// 32-bit FNV-1a, used to turn shingles into numbers for MinHash
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Hash of a text with whitespace differences ignored, so the same document
+ * re-parsed or uploaded under another name hashes the same.
+ */
+export const hashContent = (content: string): string => hash53(content.replace(/\s+/g, ' ').trim());
+
+// Fixed multipliers and offsets for the MinHash permutations, so signatures are comparable across sessions
+const PERMUTATIONS = (() => {
+  let state = 0x9e3779b9;
+  const next = () => {
+    state = Math.imul(state ^ (state >>> 15), 0x2c1b3c6d) + 0x6d2b79f5;
+    return (state ^ (state >>> 12)) >>> 0;
+  };
+  return Array.from({ length: SIGNATURE_SIZE }, () => ({ a: next() | 1, b: next() }));
+})();
+
+const shingles = (text: string): Set<number> => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const result = new Set<number>();
+  if (words.length === 0) return result;
+  // Texts shorter than one shingle are compared as a single shingle
+  for (let i = 0; i <= Math.max(0, words.length - SHINGLE_WORDS); i++) {
+    result.add(fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+  }
+  return result;
+};
+
+/**
+ * MinHash signature of a text's word shingles. The share of positions at
+ * which two signatures agree estimates the Jaccard similarity of the texts.
+ */
+export const minHashSignature = (text: string): Uint32Array => {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  shingles(text).forEach(shingle => {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = (Math.imul(PERMUTATIONS[i].a, shingle) + PERMUTATIONS[i].b) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+  return signature;
+};
+
+export const estimateSimilarity = (a: Uint32Array, b: Uint32Array): number => {
+  let same = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / SIGNATURE_SIZE;
+};
+
+const isComparable = (source: Source) => source.content.trim() !== '' && !isParsePlaceholder(source);
+
+/**
+ * Split newly parsed sources into ones that are new and ones that duplicate
+ * a source already present, or one earlier in the same upload. Exact
+ * duplicates are found by content hash, near duplicates by MinHash.
+ */
+export const findDuplicates = (
+  incoming: Source[],
+  existing: Source[],
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): DuplicateReport => {
+  const known = existing.filter(isComparable).map(source => ({
+    source,
+    hash: source.contentHash || hashContent(source.content),
+    signature: null as Uint32Array | null,
+  }));
+  const unique: Source[] = [];
+  const duplicates: DuplicateMatch[] = [];
+
+  incoming.forEach(source => {
+    if (!isComparable(source)) {
+      unique.push(source);
+      return;
+    }
+    const hash = source.contentHash || hashContent(source.content);
+    const exact = known.find(entry => entry.hash === hash);
+    if (exact) {
+      duplicates.push({ source, existing: exact.source, kind: 'exact', similarity: 1 });
+      return;
+    }
+
+    const signature = minHashSignature(source.content);
+    let best: DuplicateMatch | null = null;
+    for (const entry of known) {
+      // Signatures of existing sources are only computed once an upload needs them
+      entry.signature = entry.signature || minHashSignature(entry.source.content);
+      const similarity = estimateSimilarity(signature, entry.signature);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { source, existing: entry.source, kind: 'near', similarity };
+      }
+    }
+    if (best) {
+      duplicates.push(best);
+      return;
+    }
+
+    unique.push(source);
+    known.push({ source, hash, signature });
+  });
+
+  return { unique, duplicates };
+};
+
+/**
+ * Combine a near duplicate into the existing source: the existing text is
+ * kept and paragraphs only the new version has are appended to it.
+ */
+export const mergeSources = (existing: Source, incoming: Source): Source => {
+  const normalize = (paragraph: string) => paragraph.replace(/\s+/g, ' ').trim();
+  const present = new Set(existing.content.split(/\n\s*\n/).map(normalize));
+  const added = incoming.content.split(/\n\s*\n/).filter(paragraph => {
+    const key = normalize(paragraph);
+    if (!key || present.has(key)) return false;
+    present.add(key);
+    return true;
+  });
+  if (added.length === 0) return existing;
+
+  const content = `${existing.content}\n\n${added.join('\n\n')}`;
+  // Page and transcript offsets still hold for the unchanged prefix, but a
+  // translation would be missing the added paragraphs
+  const { translation: _translation, ...rest } = existing;
+  return { ...rest, content, contentHash: hashContent(content) };
+};
+
+/**
+ * Apply the user's choice for one duplicate to a list of sources.
+ */
+export const resolveDuplicate = (sources: Source[], match: DuplicateMatch, resolution: DuplicateResolution): Source[] => {
+  const index = sources.findIndex(source => source.id === match.existing.id);
+  switch (resolution) {
+    // The existing source may have been removed while the choice was pending
+    case 'merge':
+      return index === -1 ? [...sources, match.source] : sources.map((source, i) => (i === index ? mergeSources(source, match.source) : source));
+    case 'replace':
+      return index === -1 ? [...sources, match.source] : sources.map((source, i) => (i === index ? match.source : source));
+    case 'keep': {
+      // Re-uploading the same file gives the same id; keep ids unique
+      const taken = new Set(sources.map(source => source.id));
+      let id = match.source.id;
+      for (let n = 2; taken.has(id); n++) id = `${match.source.id}-${n}`;
+      return [...sources, { ...match.source, id }];
+    }
+  }
+};
@@ -0,0 +1,133 @@
+import { Source, SourceSection } from '../types';
+
+// Descriptive metadata a parser found in the file itself
+export interface DocumentMetadata {
+  author?: string;
+  // ISO 8601 date (YYYY-MM-DD)
+  publishedAt?: string;
+  // BCP 47 tag as declared by the document, e.g. "en" or "de-AT"
+  language?: string;
+}
+
+const withoutEmpty = (metadata: DocumentMetadata): DocumentMetadata =>
+  Object.fromEntries(Object.entries(metadata).filter(([, value]) => !!value));
+
+/**
+ * Normalize a date from document metadata to YYYY-MM-DD, or undefined if it
+ * cannot be read. Accepts ISO 8601 (including bare years), PDF date strings
+ * ("D:20230415093000+02'00'") and anything Date.parse understands.
+ */
+export const normalizeDate = (value: string | null | undefined): string | undefined => {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  const pdf = text.match(/^D:(\d{4})(\d{2})?(\d{2})?/);
+  if (pdf) return `${pdf[1]}-${pdf[2] || '01'}-${pdf[3] || '01'}`;
+
+  const iso = text.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?(?:$|T|\s)/);
+  if (iso) return `${iso[1]}-${iso[2] || '01'}-${iso[3] || '01'}`;
+
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString().slice(0, 10);
+};
+
+const decodeXmlText = (text: string) =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Text of the first element with one of these qualified names
+const firstElementText = (xml: string, names: string[]): string | undefined => {
+  for (const name of names) {
+    const match = xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+    const text = match && decodeXmlText(match[1]);
+    if (text) return text;
+  }
+  return undefined;
+};
+
+/**
+ * Metadata from the Dublin Core style properties shared by DOCX
+ * (docProps/core.xml), ODT (meta.xml) and EPUB package documents. Matched
+ * textually rather than with DOMParser so it also works in parser workers.
+ */
+export const parseDublinCore = (xml: string): DocumentMetadata => withoutEmpty({
+  author: firstElementText(xml, ['dc:creator', 'meta:initial-creator']),
+  publishedAt: normalizeDate(firstElementText(xml, ['dcterms:created', 'meta:creation-date', 'dc:date'])),
+  language: firstElementText(xml, ['dc:language']),
+});
+
+/**
+ * Metadata from an HTML page's <html lang> and common author and
+ * publication-date meta tags.
+ */
+export const extractHtmlMetadata = (html: string): DocumentMetadata => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const meta = (...selectors: string[]) =>
+    selectors.map(selector => doc.querySelector(selector)?.getAttribute('content')?.trim()).find(Boolean);
+
+  return withoutEmpty({
+    author: meta('meta[name="author"]', 'meta[property="article:author"]', 'meta[name="dc.creator" i]'),
+    publishedAt: normalizeDate(
+      meta('meta[property="article:published_time"]', 'meta[name="date"]', 'meta[name="dc.date" i]') ||
+      doc.querySelector('time[datetime]')?.getAttribute('datetime')
+    ),
+    language: doc.documentElement.getAttribute('lang')?.trim(),
+  });
+};
+
+/**
+ * Metadata from the document information dictionary pdf.js returns as
+ * `info` from getMetadata().
+ */
+export const pdfInfoMetadata = (info: Record<string, unknown> | undefined): DocumentMetadata => {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : undefined);
+  return withoutEmpty({
+    author: text(info?.Author),
+    publishedAt: normalizeDate(text(info?.CreationDate)),
+    language: text(info?.Language),
+  });
+};
+
+/**
+ * Sections of a text marked by Markdown-style headings, which the PDF, HTML,
+ * EPUB and table parsers all emit. Each section runs to the next heading of
+ * the same or a higher level.
+ */
+export const findSections = (content: string): SourceSection[] => {
+  const headings: { title: string; level: number; start: number }[] = [];
+  const heading = /^(#{1,6}) +(.+)$/gm;
+  let match: RegExpExecArray | null;
+  while ((match = heading.exec(content))) {
+    headings.push({ title: match[2].trim(), level: match[1].length, start: match.index });
+  }
+  return headings.map((section, i) => {
+    const next = headings.slice(i + 1).find(candidate => candidate.level <= section.level);
+    return { ...section, end: next ? next.start : content.length };
+  });
+};
+
+// The one-line messages older versions saved as the content of files that failed to parse
+const LEGACY_PLACEHOLDER = /^(Error: [^\n]*|Warning: No readable content found in file\.[^\n]*)$/;
+
+/**
+ * Whether a source saved before parse diagnostics existed stood in for a
+ * failed file. Only the storage and import migrations look at the content;
+ * they set `parseFailed` so nothing else has to.
+ */
+export const isLegacyParsePlaceholder = (content: string): boolean => LEGACY_PLACEHOLDER.test(content.trim());
+
+/**
+ * Sources standing in for files that failed to parse. They carry no
+ * document text and must not reach prompts.
+ */
+export const isParsePlaceholder = (source: Source): boolean => source.parseFailed === true;
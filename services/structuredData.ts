@@ -0,0 +1,142 @@
+import { CellValue, ColumnType, DataColumn, DataTable, JsonPathValue } from '../types';
+
+// Rows kept in a table's structured form; the text rendering keeps them all
+export const MAX_STRUCTURED_ROWS = 5000;
+// Leaf values recorded for a JSON document
+export const MAX_JSON_PATHS = 10000;
+
+const NUMBER = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[-+]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Type a cell read as text: numbers (with optional thousands separators),
+ * booleans and ISO dates; anything else stays a string, and blanks are null.
+ */
+export const inferCell = (raw: string): CellValue => {
+  const text = raw.trim();
+  if (text === '') return null;
+  if (/\d/.test(text) && NUMBER.test(text)) return Number(text.replace(/,/g, ''));
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  return text;
+};
+
+const cellType = (value: CellValue): ColumnType => {
+  if (value === null) return 'empty';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return ISO_DATE.test(value) ? 'date' : 'text';
+};
+
+// A column takes the type shared by all of its non-empty cells, else text
+const columnType = (values: CellValue[]): ColumnType => {
+  const types = new Set(values.map(cellType).filter(type => type !== 'empty'));
+  if (types.size === 0) return 'empty';
+  return types.size === 1 ? Array.from(types)[0] : 'text';
+};
+
+const normalizeCell = (value: unknown): CellValue => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * Build a table from a grid of cells. The first row is used as the header
+ * when every cell in it is non-empty text and the rows below are not all
+ * text too; otherwise columns are named "Column 1", "Column 2", ...
+ */
+export const buildTable = (name: string, grid: unknown[][], inferTypes: boolean): DataTable => {
+  const cells = grid
+    .map(row => row.map(value => (inferTypes && typeof value === 'string' ? inferCell(value) : normalizeCell(value))))
+    .filter(row => row.some(value => value !== null));
+  const width = Math.max(0, ...cells.map(row => row.length));
+
+  const first = cells[0] || [];
+  const firstIsText = first.length === width && first.every(value => typeof value === 'string');
+  const bodyHasTypes = cells.slice(1).some(row => row.some(value => value !== null && typeof value !== 'string'));
+  const hasHeader = firstIsText && (bodyHasTypes || cells.length > 1 && new Set(first).size === first.length);
+
+  const header = hasHeader ? (first as string[]) : [];
+  const body = (hasHeader ? cells.slice(1) : cells).map(row => Array.from({ length: width }, (_, i) => row[i] ?? null));
+  const columns: DataColumn[] = Array.from({ length: width }, (_, i) => ({
+    name: header[i] || `Column ${i + 1}`,
+    type: columnType(body.map(row => row[i])),
+  }));
+
+  return { name, columns, rows: body, totalRows: body.length };
+};
+
+/**
+ * The copy of a table stored on a source, capped at MAX_STRUCTURED_ROWS rows.
+ */
+export const capRows = (table: DataTable): DataTable =>
+  table.rows.length > MAX_STRUCTURED_ROWS ? { ...table, rows: table.rows.slice(0, MAX_STRUCTURED_ROWS) } : table;
+
+/**
+ * Build a table from an array of JSON objects; columns are the union of
+ * their keys in first-seen order.
+ */
+export const tableFromRecords = (name: string, records: Record<string, unknown>[]): DataTable => {
+  const keys: string[] = [];
+  records.forEach(record => Object.keys(record).forEach(key => {
+    if (!keys.includes(key)) keys.push(key);
+  }));
+  return buildTable(name, [keys, ...records.map(record => keys.map(key => record[key]))], false);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+/**
+ * Leaf values of a JSON document with their paths, e.g. `$.quarters[2].revenue`.
+ */
+export const flattenJson = (value: unknown, maxPaths = MAX_JSON_PATHS): JsonPathValue[] => {
+  const paths: JsonPathValue[] = [];
+  const visit = (node: unknown, path: string) => {
+    if (paths.length >= maxPaths) return;
+    if (Array.isArray(node)) node.forEach((child, i) => visit(child, childPath(path, i)));
+    else if (isRecord(node)) Object.entries(node).forEach(([key, child]) => visit(child, childPath(path, key)));
+    else paths.push({ path, value: normalizeCell(node) });
+  };
+  visit(value, '$');
+  return paths;
+};
+
+/**
+ * Arrays of objects anywhere in a JSON document, as tables named by their path.
+ */
+export const findJsonTables = (value: unknown): DataTable[] => {
+  const tables: DataTable[] = [];
+  const visit = (node: unknown, path: string) => {
+    if (Array.isArray(node)) {
+      if (node.length > 0 && node.every(isRecord)) tables.push(tableFromRecords(path, node));
+      node.forEach((child, i) => visit(child, childPath(path, i)));
+    } else if (isRecord(node)) {
+      Object.entries(node).forEach(([key, child]) => visit(child, childPath(path, key)));
+    }
+  };
+  visit(value, '$');
+  return tables;
+};
+
+const formatCell = (value: CellValue): string => (typeof value === 'string' ? value : String(value));
+
+/**
+ * Text rendering of a table with one self-describing line per row
+ * ("Quarter: Q3; Revenue: 1200"). Every line carries its column names, so
+ * any excerpt the context packer picks still says what its numbers mean.
+ */
+export const renderTable = (table: DataTable): string => {
+  const columns = table.columns.map(column => `${column.name} (${column.type})`).join(', ');
+  const lines = table.rows.map((row, i) => {
+    const cells = row
+      .map((value, column) => (value === null ? '' : `${table.columns[column].name}: ${formatCell(value)}`))
+      .filter(Boolean);
+    return `Row ${i + 1}: ${cells.join('; ')}`;
+  });
+  return [`## ${table.name}`, `${table.totalRows} rows; columns: ${columns}`, ...lines].join('\n');
+};
@@ -1,8 +1,7 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Persona, Source } from '../types';
 import { PersonaCalibrationService } from './personaCalibrationService';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+import { LLMProviderService, isAbortError } from './llmProvider';
+import { PersistedService, loadStateInto, putStateEntries } from './db';
 
 export interface DocumentSection {
   id: string;
@@ -31,12 +30,17 @@ export interface DocumentVersion {
   author: string; // Persona name
 }
 
-export class StructuredDocumentService {
+export class StructuredDocumentService implements PersistedService {
   private static instance: StructuredDocumentService;
   private calibrationService: PersonaCalibrationService;
+  private documentVersions: Map<string, DocumentVersion[]> = new Map();
+
+  readonly loaded: Promise<void>;
 
   private constructor() {
     this.calibrationService = PersonaCalibrationService.getInstance();
+    // Versions created while loading were saved on top of the stored list
+    this.loaded = loadStateInto('documentVersions', this.documentVersions, (stored, created) => [...stored, ...created]);
   }
 
   static getInstance(): StructuredDocumentService {
@@ -50,7 +54,7 @@ export class StructuredDocumentService {
    * Create a structured document from plain text by identifying sections
    */
   async createStructuredDocument(content: string, title: string = 'Untitled Document'): Promise<StructuredDocument> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Extract sections from document
     const sectionPrompt = `Analyze this document and identify its sections with headings:
@@ -70,8 +74,7 @@ Respond ONLY with the JSON array:`;
 
     let sections: DocumentSection[] = [];
     try {
-      const result = await model.generateContent(sectionPrompt);
-      const responseText = result.response.text();
+      const responseText = await llm.generate(sectionPrompt);
       const jsonMatch = responseText.match(/\[[\s\S]*\]/);
       if (jsonMatch) {
         sections = JSON.parse(jsonMatch[0]);
@@ -108,9 +111,10 @@ Respond ONLY with the JSON array:`;
     sectionId: string,
     instruction: string,
     persona: Persona,
-    knowledgeSources: Source[]
+    knowledgeSources: Source[],
+    signal?: AbortSignal
   ): Promise<DocumentSection> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     const section = document.sections.find(s => s.id === sectionId);
     if (!section) {
@@ -154,8 +158,7 @@ INSTRUCTIONS:
 EDITED SECTION:`;
 
     try {
-      const result = await model.generateContent(prompt);
-      const editedContent = result.response.text().trim();
+      const editedContent = (await llm.generate(prompt, { signal })).trim();
       
       // Update the section
       const updatedSection: DocumentSection = {
@@ -167,6 +170,7 @@ EDITED SECTION:`;
       
       return updatedSection;
     } catch (error) {
+      if (isAbortError(error, signal)) throw error;
       console.error('Failed to edit section:', error);
       throw new Error('Failed to edit document section');
     }
@@ -192,14 +196,14 @@ EDITED SECTION:`;
       author
     };
     
-    // Save to localStorage
-    try {
-      const versions = this.getDocumentVersions(documentId);
-      versions.push(version);
-      localStorage.setItem(`document-versions-${documentId}`, JSON.stringify(versions));
-    } catch (error) {
-      console.error('Failed to save document version:', error);
-    }
+    const versions = [...this.getDocumentVersions(documentId), version];
+    this.documentVersions.set(documentId, versions);
+    // Wait for the stored history so it is not overwritten by this list alone
+    this.loaded
+      .then(() => putStateEntries('documentVersions', [[documentId, this.getDocumentVersions(documentId)]]))
+      .catch(error => {
+        console.error('Failed to save document version:', error);
+      });
     
     return version;
   }
@@ -208,15 +212,7 @@ EDITED SECTION:`;
    * Get all versions of a document
    */
   getDocumentVersions(documentId: string): DocumentVersion[] {
-    try {
-      const stored = localStorage.getItem(`document-versions-${documentId}`);
-      if (stored) {
-        return JSON.parse(stored);
-      }
-    } catch (error) {
-      console.error('Failed to load document versions:', error);
-    }
-    return [];
+    return [...(this.documentVersions.get(documentId) || [])];
   }
 
   /**
@@ -233,9 +229,10 @@ EDITED SECTION:`;
   async generateDocumentFromSources(
     sources: Source[],
     prompt: string,
-    persona: Persona
+    persona: Persona,
+    signal?: AbortSignal
   ): Promise<string> {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+    const llm = LLMProviderService.getInstance().getProvider();
     
     // Prepare knowledge context
     const knowledgeContext = sources.map(source => 
@@ -258,9 +255,9 @@ Please create a document based on the above information and instructions.
 Document:`;
 
     try {
-      const result = await model.generateContent(generationPrompt);
-      return result.response.text().trim();
+      return (await llm.generate(generationPrompt, { signal })).trim();
     } catch (error) {
+      if (isAbortError(error, signal)) throw error;
       console.error('Failed to generate document:', error);
       throw new Error('Failed to generate document from sources');
     }
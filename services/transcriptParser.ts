@@ -0,0 +1,192 @@
+import { Source, TranscriptSegment } from '../types';
+
+/**
+ * One caption cue or transcript line before consecutive cues are merged
+ * into speaker turns.
+ */
+export interface TranscriptCue {
+  startTime: number;
+  endTime: number;
+  speaker?: string;
+  text: string;
+}
+
+export interface ParsedTranscript {
+  content: string;
+  transcript: TranscriptSegment[];
+}
+
+// 01:02:03,500 (SRT) or 01:02:03.500 / 02:03.500 (WebVTT)
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?/;
+const TIMING_LINE = new RegExp(`^\\s*(${TIMESTAMP.source})\\s*-->\\s*(${TIMESTAMP.source})`);
+
+// "ADA:", "Ada Lovelace:", ">> Ada:" or "- Ada:" at the start of a cue
+const SPEAKER_PREFIX = /^(?:>>\s*|-\s*)?([A-Z][\p{L}\p{M}'’.\- ]{0,38}[\p{L}\p{M}.]|[A-Z]):\s+/u;
+
+// Cues without a speaker are merged until a sentence ends or the turn gets long
+const MAX_UNLABELLED_TURN_CHARS = 1000;
+
+export const parseTimestamp = (value: string): number => {
+  const match = TIMESTAMP.exec(value);
+  if (!match) return 0;
+  const [, hours, minutes, seconds, fraction] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number((fraction || '0').padEnd(3, '0')) / 1000;
+};
+
+export const formatTimestamp = (totalSeconds: number): string => {
+  const whole = Math.floor(totalSeconds);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(whole / 3600))}:${pad(Math.floor((whole % 3600) / 60))}:${pad(whole % 60)}`;
+};
+
+// Formatting such as <i>, <c.yellow> and {\an8} carries no text
+const stripCueMarkup = (text: string) => text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '');
+
+const splitSpeaker = (text: string): { speaker?: string; text: string } => {
+  const match = SPEAKER_PREFIX.exec(text);
+  return match ? { speaker: match[1].trim(), text: text.slice(match[0].length) } : { text };
+};
+
+const parseCueBlocks = (text: string, parseCueText: (lines: string[]) => { speaker?: string; text: string }): TranscriptCue[] => {
+  const cues: TranscriptCue[] = [];
+  text.replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) return;
+    const timing = TIMING_LINE.exec(lines[timingIndex])!;
+    const { speaker, text: cueText } = parseCueText(lines.slice(timingIndex + 1));
+    const clean = cueText.replace(/\s+/g, ' ').trim();
+    if (!clean) return;
+    cues.push({ startTime: parseTimestamp(timing[1]), endTime: parseTimestamp(timing[6]), speaker, text: clean });
+  });
+  return cues;
+};
+
+export const parseSrt = (text: string): TranscriptCue[] =>
+  parseCueBlocks(text, lines => splitSpeaker(stripCueMarkup(lines.join(' ')).trim()));
+
+/**
+ * WebVTT cues. Speakers come from `<v Name>` voice spans or a "Name:"
+ * prefix; NOTE, STYLE and REGION blocks have no timing line and are skipped.
+ */
+export const parseVtt = (text: string): TranscriptCue[] =>
+  parseCueBlocks(text.replace(/^\uFEFF?WEBVTT[^\n]*\n/, ''), lines => {
+    const raw = lines.join(' ');
+    const voice = /<v(?:\.[\w.-]+)?\s+([^>]+)>/.exec(raw);
+    const plain = stripCueMarkup(raw).trim();
+    return voice ? { speaker: voice[1].trim(), text: plain } : splitSpeaker(plain);
+  });
+
+/**
+ * Plain-text transcripts with one labelled turn per paragraph, optionally
+ * timestamped: "[00:01:02] Ada: ..." or "Interviewer: ...". Returns null for
+ * text that does not look like a transcript, so ordinary notes that happen
+ * to contain "Note:" lines stay plain text.
+ */
+export const parseSpeakerTranscript = (text: string): TranscriptCue[] | null => {
+  const paragraphs = text.replace(/\r\n?/g, '\n').split(/\n+/).map(line => line.trim()).filter(Boolean);
+  const cues: TranscriptCue[] = [];
+  let labelled = 0;
+
+  paragraphs.forEach(paragraph => {
+    const time = /^\[?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\]?\s+/.exec(paragraph);
+    const rest = time ? paragraph.slice(time[0].length) : paragraph;
+    const { speaker, text: turnText } = splitSpeaker(rest);
+    const startTime = time ? parseTimestamp(time[1]) : cues[cues.length - 1]?.startTime ?? 0;
+
+    if (speaker) {
+      labelled++;
+      cues.push({ startTime, endTime: startTime, speaker, text: turnText });
+    } else if (cues.length > 0) {
+      // An unlabelled paragraph continues the previous speaker's turn
+      cues[cues.length - 1].text += ` ${rest}`;
+    } else {
+      cues.push({ startTime, endTime: startTime, text: rest });
+    }
+  });
+
+  const speakers = new Set(cues.map(cue => cue.speaker).filter(Boolean));
+  if (labelled < 3 || speakers.size < 2 || labelled / paragraphs.length < 0.6) return null;
+
+  // A turn lasts until the next one starts
+  cues.forEach((cue, i) => {
+    cue.endTime = Math.max(cue.startTime, cues[i + 1]?.startTime ?? cue.startTime);
+  });
+  return cues;
+};
+
+/**
+ * Merge consecutive cues into speaker turns and lay them out as
+ * "[hh:mm:ss] Speaker: text" paragraphs. Caption files mark only speaker
+ * changes, so an unlabelled cue inherits the speaker before it.
+ */
+export const assembleTranscript = (cues: TranscriptCue[]): ParsedTranscript => {
+  const turns: TranscriptCue[] = [];
+  let speaker: string | undefined;
+
+  cues.forEach(cue => {
+    speaker = cue.speaker ?? speaker;
+    const previous = turns[turns.length - 1];
+    const continues = previous && previous.speaker === speaker && (
+      speaker !== undefined || (!/[.!?]["')\]]?$/.test(previous.text) && previous.text.length < MAX_UNLABELLED_TURN_CHARS)
+    );
+    if (continues) {
+      previous.text += ` ${cue.text}`;
+      previous.endTime = Math.max(previous.endTime, cue.endTime);
+    } else {
+      turns.push({ ...cue, speaker });
+    }
+  });
+
+  let content = '';
+  const transcript: TranscriptSegment[] = [];
+  turns.forEach(turn => {
+    if (content) content += '\n\n';
+    const start = content.length;
+    content += `[${formatTimestamp(turn.startTime)}] ${turn.speaker ? `${turn.speaker}: ` : ''}${turn.text}`;
+    transcript.push({
+      startTime: turn.startTime,
+      endTime: turn.endTime,
+      ...(turn.speaker ? { speaker: turn.speaker } : {}),
+      start,
+      end: content.length,
+    });
+  });
+
+  return { content, transcript };
+};
+
+/**
+ * Speakers in the given sources' transcripts, most talkative first.
+ */
+export const listSpeakers = (sources: Source[]): string[] => {
+  const characters = new Map<string, number>();
+  sources.forEach(source => source.transcript?.forEach(segment => {
+    if (segment.speaker) {
+      characters.set(segment.speaker, (characters.get(segment.speaker) || 0) + segment.end - segment.start);
+    }
+  }));
+  return Array.from(characters).sort((a, b) => b[1] - a[1]).map(([speaker]) => speaker);
+};
+
+/**
+ * A copy of a transcript source holding only one speaker's turns, with its
+ * segments re-based onto the new content. Sources without a transcript are
+ * returned unchanged.
+ */
+export const restrictToSpeaker = (source: Source, speaker: string): Source => {
+  if (!source.transcript) return source;
+
+  let content = '';
+  const transcript: TranscriptSegment[] = [];
+  source.transcript.filter(segment => segment.speaker === speaker).forEach(segment => {
+    if (content) content += '\n\n';
+    const start = content.length;
+    content += source.content.slice(segment.start, segment.end);
+    transcript.push({ ...segment, start, end: content.length });
+  });
+
+  // A translation covers every speaker, so it no longer matches the content
+  const { translation: _translation, ...rest } = source;
+  return { ...rest, content, transcript };
+};
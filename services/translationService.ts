@@ -0,0 +1,74 @@
+import { Source } from '../types';
+import { LLMProviderService } from './llmProvider';
+import { chunkText } from './contextPacker';
+import { languageName } from './languageDetection';
+
+// Language that summaries, concepts and persona profiles are written in
+export const WORKING_LANGUAGE = 'en';
+
+// Small enough that the translation of one chunk fits the model's output limit
+const TRANSLATION_CHUNK_TOKENS = 1500;
+
+const baseLanguage = (tag: string) => tag.toLowerCase().split('-')[0];
+
+/**
+ * Whether a source is known to be in a language other than the working
+ * language and has no translation into it yet.
+ */
+export const needsTranslation = (source: Source, target: string = WORKING_LANGUAGE): boolean =>
+  !!source.language &&
+  baseLanguage(source.language) !== baseLanguage(target) &&
+  (!source.translation || baseLanguage(source.translation.language) !== baseLanguage(target));
+
+/**
+ * The text to analyze for a source: its translation when it has one, else
+ * the original content. Quotes and citations should keep using content.
+ */
+export const workingText = (source: Source): string => source.translation?.content ?? source.content;
+
+/**
+ * The source as processing should see it. Page, section and transcript
+ * offsets point into the original content, so they are dropped from a
+ * translated copy.
+ */
+export const workingCopy = (source: Source): Source => {
+  if (!source.translation) return source;
+  const { pages: _pages, sections: _sections, transcript: _transcript, ...rest } = source;
+  return { ...rest, content: source.translation.content };
+};
+
+export class TranslationService {
+  private static instance: TranslationService;
+
+  static getInstance(): TranslationService {
+    if (!TranslationService.instance) {
+      TranslationService.instance = new TranslationService();
+    }
+    return TranslationService.instance;
+  }
+
+  /**
+   * Translate a source's content chunk by chunk and return the source with
+   * the result stored as its translation; content itself is left untouched.
+   */
+  async translateSource(source: Source, target: string = WORKING_LANGUAGE, signal?: AbortSignal): Promise<Source> {
+    const llm = LLMProviderService.getInstance().getProvider();
+    const from = source.language ? languageName(source.language) : 'the source language';
+    const to = languageName(target);
+
+    const translated: string[] = [];
+    for (const chunk of chunkText(source.content, TRANSLATION_CHUNK_TOKENS)) {
+      signal?.throwIfAborted();
+      translated.push((await llm.generate(chunk, {
+        systemInstruction: `Translate the user's text from ${from} into ${to}. Keep the line breaks, Markdown headings, table layout and [Page N] markers exactly as they are. Reply with the translation only.`,
+        temperature: 0.2,
+        signal,
+      })).trim());
+    }
+
+    return {
+      ...source,
+      translation: { language: target, content: translated.join('\n\n'), translatedAt: new Date().toISOString() },
+    };
+  }
+}
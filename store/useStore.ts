@@ -1,5 +1,6 @@
-import create from 'zustand';
+import { create } from 'zustand';
 import { Persona, Source, DocumentSnapshot } from '../types';
+import { personaRepository, knowledgeSourceRepository } from '../services/db';
 
 interface AppState {
   personas: Persona[];
@@ -12,17 +13,45 @@ interface AppState {
   setKnowledgeSources: (sources: Source[]) => void;
   setGeneratedContent: (content: string) => void;
   setSnapshots: (snapshots: DocumentSnapshot[]) => void;
+  loadPersistedData: () => Promise<void>;
 }
 
-export const useStore = create<AppState>((set) => ({
+export const useStore = create<AppState>((set, get) => ({
   personas: [],
   activePersonaId: null,
   knowledgeSources: [],
   generatedContent: '',
   snapshots: [],
-  setPersonas: (personas) => set({ personas }),
+  // Persona and source setters write through to IndexedDB, including deletions
+  setPersonas: (personas) => {
+    const previous = get().personas;
+    set({ personas });
+    personaRepository.sync(previous, personas).catch((error) => {
+      console.error('Failed to persist personas:', error);
+    });
+  },
   setActivePersonaId: (id) => set({ activePersonaId: id }),
-  setKnowledgeSources: (sources) => set({ knowledgeSources: sources }),
+  setKnowledgeSources: (sources) => {
+    const previous = get().knowledgeSources;
+    set({ knowledgeSources: sources });
+    knowledgeSourceRepository.sync(previous, sources).catch((error) => {
+      console.error('Failed to persist knowledge sources:', error);
+    });
+  },
   setGeneratedContent: (content) => set({ generatedContent: content }),
   setSnapshots: (snapshots) => set({ snapshots }),
+  loadPersistedData: async () => {
+    const [personas, knowledgeSources] = await Promise.all([
+      personaRepository.list(),
+      knowledgeSourceRepository.list(),
+    ]);
+    // Keep anything added before the stored records arrived
+    set((state) => ({
+      personas: [...personas.filter((p) => !state.personas.some((q) => q.id === p.id)), ...state.personas],
+      knowledgeSources: [
+        ...knowledgeSources.filter((s) => !state.knowledgeSources.some((q) => q.id === s.id)),
+        ...state.knowledgeSources,
+      ],
+    }));
+  },
 }));
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { chunkText, describeContextReport, estimateTokens, packContext } from '../services/contextPacker';
+import { Source } from '../types';
+
+const paragraphs = (topic: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `Paragraph ${i} discusses ${topic} in some detail. `.repeat(8)).join('\n\n');
+
+describe('contextPacker', () => {
+  it('passes sources through untouched when they fit', () => {
+    const sources: Source[] = [{ id: 'a', name: 'A', content: 'short text' }];
+    const packed = packContext(sources, 'anything', { budgetTokens: 100 });
+    expect(packed.sources).toBe(sources);
+    expect(packed.report.sources[0].status).toBe('full');
+    expect(packed.report.usedTokens).toBe(estimateTokens('short text'));
+  });
+
+  it('leaves out placeholder sources saved for files that failed to parse, whatever their text', () => {
+    const sources: Source[] = [
+      { id: 'a', name: 'A', content: 'short text' },
+      { id: 'b', name: 'B.exe', content: 'Error: Unsupported file type. Supported formats: PDF', parseFailed: true },
+      { id: 'log', name: 'crash.log', content: 'Error: disk full\nRetrying in 5s' }
+    ];
+    expect(packContext(sources, 'anything').sources.map(source => source.id)).toEqual(['a', 'log']);
+  });
+
+  it('chunks on paragraph boundaries within the token size', () => {
+    const chunks = chunkText(paragraphs('gardening', 6), 100);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(100));
+  });
+
+  it('keeps chunks relevant to the task and reports what was left out', () => {
+    const sources: Source[] = [
+      { id: 'garden', name: 'Garden', content: paragraphs('tomatoes and compost', 10) },
+      { id: 'tax', name: 'Tax', content: paragraphs('depreciation schedules', 10) }
+    ];
+    const packed = packContext(sources, 'How should I compost tomatoes?', {
+      budgetTokens: 600,
+      chunkTokens: 100,
+      summaries: { tax: 'Notes on depreciation.' }
+    });
+
+    // Counts the omission markers and summary prefix that were packed along with the text
+    const packedText = packed.sources.map(source => source.content);
+    expect(packed.report.usedTokens).toBe(packedText.reduce((sum, text) => sum + estimateTokens(text), 0));
+    expect(packed.report.usedTokens).toBeLessThanOrEqual(600);
+    const [garden, tax] = packed.report.sources;
+    expect(garden.status).toBe('partial');
+    expect(tax.status).toBe('summary');
+    expect(packed.sources.find(s => s.id === 'tax')?.content).toBe('[Summary] Notes on depreciation.');
+    expect(packed.sources.find(s => s.id === 'garden')?.content).toContain('[...]');
+    expect(describeContextReport(packed.report)).toContain('1 partial, 1 summarized');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { buildConversationSources, listAuthors, parseConversation, parseMbox, stripQuotedText } from '../services/conversationImport';
+
+describe('conversationImport', () => {
+  it('reads mbox messages, decoding bodies and dropping quoted replies and signatures', () => {
+    const mbox = [
+      'From ada@example.org Mon Jan  1 10:00:00 2024',
+      'From: =?UTF-8?Q?Ada_Lovelace?= <ada@example.org>',
+      'Subject: Engine notes',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'The engine weaves alg=C3=A9braic patterns.',
+      '',
+      'On Sun, Charles wrote:',
+      '> Any progress?',
+      '-- ',
+      'Ada',
+      '',
+      'From charles@example.org Mon Jan  1 11:00:00 2024',
+      'From: Charles Babbage <charles@example.org>',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/html',
+      '',
+      '<p>Splendid.</p>',
+      '--b1--',
+      ''
+    ].join('\n');
+
+    expect(parseMbox(mbox)).toEqual([
+      { author: 'Ada Lovelace', timestamp: undefined, subject: 'Engine notes', text: 'The engine weaves algébraic patterns.' },
+      { author: 'Charles Babbage', timestamp: undefined, subject: undefined, text: 'Splendid.' }
+    ]);
+  });
+
+  it('recognizes WhatsApp, Slack and Telegram exports', () => {
+    const whatsapp = parseConversation('chat.txt', [
+      '12/31/23, 9:41 PM - Messages to this group are now secured with end-to-end encryption.',
+      '12/31/23, 9:41 PM - Ada: Happy new year',
+      'to all of you',
+      '[31/12/2023, 21:42:05] Charles: <Media omitted>',
+      '[31/12/2023, 21:43:00] Charles: Likewise!'
+    ].join('\n'));
+    const slack = parseConversation('general.json', JSON.stringify([
+      { type: 'message', subtype: 'channel_join', user: 'U1', text: '<@U1> has joined' },
+      { type: 'message', user: 'U1', user_profile: { real_name: 'Ada' }, text: 'See <https://example.org|the docs>, <@U1>', ts: '1704067200.000100' }
+    ]));
+    const telegram = parseConversation('result.json', JSON.stringify({
+      messages: [{ type: 'message', from: 'Ada', date: '2024-01-01T10:00:00', text: ['Read ', { type: 'bold', text: 'this' }] }]
+    }));
+
+    expect(whatsapp?.format).toBe('whatsapp');
+    expect(whatsapp?.messages.map(m => [m.author, m.text])).toEqual([['Ada', 'Happy new year\nto all of you'], ['Charles', 'Likewise!']]);
+    expect(slack?.messages).toEqual([{ author: 'Ada', timestamp: '2024-01-01T00:00:00.000Z', text: 'See the docs, @Ada' }]);
+    expect(telegram).toMatchObject({ format: 'telegram', messages: [{ author: 'Ada', text: 'Read this' }] });
+    expect(parseConversation('notes.txt', 'Just some notes')).toBeNull();
+  });
+
+  it('drops reply attributions that wrap over two lines', () => {
+    expect(stripQuotedText([
+      'Agreed, ship it.',
+      '',
+      'On Mon, Jan 1, 2024 at 10:00 AM Charles Babbage <',
+      'charles@example.org> wrote:',
+      '> Shall we ship?'
+    ].join('\n'))).toBe('Agreed, ship it.');
+  });
+
+  it('only reads a text file as mail when it starts with a full mbox separator line', () => {
+    const chat = parseConversation('chat.txt', 'From Paris, with love\n1/1/24, 9:00 - Ada: Bonjour');
+    const mail = parseConversation('archive', 'From ada@example.org Mon Jan  1 10:00:00 2024\nFrom: Ada <ada@example.org>\n\nHello');
+
+    expect(chat).toMatchObject({ format: 'whatsapp', messages: [{ author: 'Ada', text: 'Bonjour' }] });
+    expect(mail).toMatchObject({ format: 'email', messages: [{ author: 'Ada', text: 'Hello' }] });
+  });
+
+  it("separates the persona's own messages from everyone else's", () => {
+    const conversation = parseConversation('chat.txt', '1/1/24, 9:00 - Ada: One\n1/1/24, 9:01 - Bob: Two\n1/1/24, 9:02 - Ada: Three')!;
+    const sources = buildConversationSources([conversation], 'Ada');
+
+    expect(listAuthors([conversation])).toEqual([{ author: 'Ada', count: 2 }, { author: 'Bob', count: 1 }]);
+    expect(sources.map(source => source.id)).toEqual(['conversation-chat-txt-ada-own', 'conversation-chat-txt-ada-others']);
+    expect(sources[0].content).toBe('Messages written by Ada (2):\n\nOne\n\nThree');
+    expect(sources[1].content).toContain('Bob\nTwo');
+    expect(sources[1].content).not.toContain('Three');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_DATA_VERSION, migrateAndValidate } from '../services/dataSchema';
+import { exportData, importData, parseImportData } from '../services/dataManager';
+import { Persona } from '../types';
+
+const persona: Persona = {
+  id: 'p1',
+  name: 'Ada',
+  surname: 'Lovelace',
+  role: 'Analyst',
+  bio: 'Writes notes',
+  shaperSources: [],
+  calibrationStatus: 'calibrated',
+  documentSnapshots: [
+    { id: 's1', timestamp: '2024-01-01T00:00:00.000Z', content: 'Draft', version: 1, changes: ['Initial'], contextSummary: '' }
+  ],
+  developmentGuidance: [
+    { id: 'g1', timestamp: '2024-01-02T00:00:00.000Z', type: 'suggestion', content: 'Add examples', applied: false, confidence: 70 }
+  ]
+};
+
+describe('dataSchema', () => {
+  it('round-trips a current export without issues', () => {
+    const { data, report } = parseImportData(exportData([persona], [{ id: 'k1', name: 'notes.md', content: 'Notes' }]));
+
+    expect(report.valid).toBe(true);
+    expect(report.issues).toEqual([]);
+    expect(report.migrationsApplied).toEqual([]);
+    expect(report.counts).toEqual({ personas: 1, knowledgeSources: 1, snapshots: 1, guidance: 1, workspaceRecords: 0 });
+    expect(data?.personas[0]).toEqual(persona);
+  });
+
+  it('migrates an unversioned export forward', () => {
+    const legacy = {
+      personas: [{ id: 'p1', name: 'Ada', role: 'Analyst', developmentGuidance: [
+        { id: 'g1', timestamp: '2024-01-02T00:00:00.000Z', type: 'refinement', content: 'Tighten', confidence: 40 }
+      ] }],
+      knowledgeSources: [
+        { id: 'k1', name: 'scan.pdf', content: 'Warning: No readable content found in file. For PDF files, this may indicate a scanned document.' },
+        { id: 'k2', name: 'errors.md', content: 'Error: handling guide\n\nCatch early, report clearly.' }
+      ]
+    };
+
+    const { data, report } = migrateAndValidate(legacy);
+
+    expect(report.sourceVersion).toBe('1.0.0');
+    expect(report.migrationsApplied).toHaveLength(6);
+    expect(report.valid).toBe(true);
+    expect(data?.version).toBe(CURRENT_DATA_VERSION);
+    expect(data?.personas[0]).toMatchObject({ surname: '', bio: '', shaperSources: [], calibrationStatus: 'uncalibrated' });
+    expect(data?.personas[0].developmentGuidance?.[0].applied).toBe(false);
+    expect(data?.evolutionData?.totalSnapshots).toBe(0);
+    expect(data?.knowledgeSources.map(source => source.parseFailed)).toEqual([true, undefined]);
+  });
+
+  it('reports every problem with its path instead of stopping at the first', () => {
+    const { data, report } = migrateAndValidate({
+      version: CURRENT_DATA_VERSION,
+      personas: [
+        { ...persona, role: '', documentSnapshots: [{ ...persona.documentSnapshots![0], version: 'one' }] },
+        { ...persona, calibrationStatus: 'calibrating' }
+      ],
+      knowledgeSources: [{ id: 'k1', name: 'empty.txt', content: '' }]
+    });
+
+    expect(data).toBeNull();
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual(expect.arrayContaining([
+      { severity: 'error', path: 'personas[0].role', message: 'must not be empty' },
+      { severity: 'error', path: 'personas[0].documentSnapshots[0].version', message: 'must be a number' },
+      { severity: 'warning', path: 'personas[1].calibrationStatus', message: 'was exported mid-calibration' },
+      { severity: 'warning', path: 'personas[1].id', message: 'duplicates id "p1"; the later record wins' },
+      { severity: 'warning', path: 'knowledgeSources[0].content', message: 'is empty' }
+    ]));
+    expect(() => importData(JSON.stringify({ version: CURRENT_DATA_VERSION, personas: [{ id: 'x' }], knowledgeSources: [] })))
+      .toThrow('personas[0].name is required');
+  });
+
+  it('refuses files from a newer release and unreadable files', () => {
+    expect(migrateAndValidate({ version: '9.0.0', personas: [], knowledgeSources: [] }).report.issues[0].path).toBe('version');
+    expect(parseImportData('{not json').report.issues[0].message).toMatch(/^is not valid JSON/);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { openDB } from 'idb';
+import { Source } from '../types';
+import { persona, source } from './utils';
+
+// db.ts opens the database once per module instance; resetting modules
+// simulates a page reload against the same IndexedDB
+const loadDb = async () => {
+  vi.resetModules();
+  return import('../services/db');
+};
+
+const loadStore = async () => {
+  vi.resetModules();
+  return (await import('../store/useStore')).useStore;
+};
+
+describe('db', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+  });
+
+  it('migrates legacy localStorage keys into the state stores once', async () => {
+    localStorage.setItem('knowledge-weaver-processed-knowledge', JSON.stringify([['src-1', { summary: 'S' }]]));
+    localStorage.setItem('knowledge-weaver-feedbacks', JSON.stringify([{ id: 'fb-1', content: 'More detail' }]));
+    localStorage.setItem('knowledge-weaver-analytics', JSON.stringify([{ type: 'file_uploaded' }, { type: 'quality_check' }]));
+    localStorage.setItem('document-versions-doc-1', JSON.stringify([{ id: 'v1', versionNumber: 1 }]));
+    localStorage.setItem('unrelated-key', 'kept');
+
+    const db = await loadDb();
+
+    expect(await db.getStateEntries('processedKnowledge')).toEqual([['src-1', { summary: 'S' }]]);
+    expect(await db.getStateEntries('feedback')).toEqual([['fb-1', { id: 'fb-1', content: 'More detail' }]]);
+    expect(await db.getAnalyticsEvents()).toHaveLength(2);
+    expect(await db.getStateEntries('documentVersions')).toEqual([['doc-1', [{ id: 'v1', versionNumber: 1 }]]]);
+
+    expect(localStorage.getItem('knowledge-weaver-processed-knowledge')).toBeNull();
+    expect(localStorage.getItem('document-versions-doc-1')).toBeNull();
+    expect(localStorage.getItem('unrelated-key')).toBe('kept');
+  });
+
+  it('flags sources that older versions saved for files that failed to parse', async () => {
+    const placeholder: Source = { id: 'bad', name: 'scan.pdf', content: 'Error: Failed to parse PDF' };
+    const old = await openDB('knowledge-weaver-db', 3, {
+      upgrade(database) {
+        database.createObjectStore('personas', { keyPath: 'id' });
+        database.createObjectStore('knowledgeSources', { keyPath: 'id' });
+      },
+    });
+    await old.put('knowledgeSources', placeholder);
+    await old.put('knowledgeSources', source('good'));
+    await old.put('personas', { ...persona('p1'), shaperSources: [placeholder] });
+    old.close();
+
+    const db = await loadDb();
+
+    expect((await db.knowledgeSourceRepository.list()).map(record => [record.id, record.parseFailed])).toEqual([
+      ['bad', true],
+      ['good', undefined],
+    ]);
+    expect((await db.personaRepository.get('p1'))?.shaperSources[0].parseFailed).toBe(true);
+  });
+
+  it('upserts and clears state entries', async () => {
+    const db = await loadDb();
+
+    await db.putStateEntries('editRatings', new Map([['r1', { rating: 3 }]]));
+    await db.putStateEntries('editRatings', [['r1', { rating: 5 }], ['r2', { rating: 1 }]]);
+    expect(await db.getStateEntries('editRatings')).toEqual([['r1', { rating: 5 }], ['r2', { rating: 1 }]]);
+
+    await db.clearStateStore('editRatings');
+    expect(await db.getStateEntries('editRatings')).toEqual([]);
+  });
+
+  it('loads a state store into a map without overwriting entries set while loading', async () => {
+    const db = await loadDb();
+    await db.putStateEntries('documentVersions', [['doc-1', ['v1']], ['doc-2', ['v1']]]);
+
+    const kept = new Map<string, string[]>([['doc-1', ['v2']]]);
+    const versions = new Map<string, string[]>([['doc-1', ['v2']]]);
+    await Promise.all([
+      db.loadStateInto('documentVersions', kept),
+      db.loadStateInto('documentVersions', versions, (stored, created) => [...stored, ...created]),
+    ]);
+
+    expect(Array.from(kept)).toEqual([['doc-1', ['v2']], ['doc-2', ['v1']]]);
+    expect(Array.from(versions)).toEqual([['doc-1', ['v1', 'v2']], ['doc-2', ['v1']]]);
+  });
+
+  it('creates, updates, deletes and lists records through a repository', async () => {
+    const { personaRepository } = await loadDb();
+
+    await personaRepository.create(persona('p1'));
+    await expect(personaRepository.create(persona('p1'))).rejects.toThrow();
+    await personaRepository.update(persona('p1', { name: 'Renamed' }));
+    await personaRepository.create(persona('p2'));
+    await personaRepository.delete('p2');
+
+    expect(await personaRepository.list()).toEqual([persona('p1', { name: 'Renamed' })]);
+    expect(await personaRepository.get('p2')).toBeUndefined();
+  });
+
+  it('syncs only the difference between two versions of a collection', async () => {
+    const { knowledgeSourceRepository } = await loadDb();
+    const a = source('a');
+    const b = source('b');
+    await knowledgeSourceRepository.replaceAll([a, b, source('c')]);
+
+    const updatedB = { ...b, content: 'changed' };
+    await knowledgeSourceRepository.sync([a, b, source('c')], [a, updatedB]);
+
+    expect(await knowledgeSourceRepository.list()).toEqual([a, updatedB]);
+  });
+
+  it('keeps personas and sources deleted through the store deleted after a reload', async () => {
+    let useStore = await loadStore();
+    await useStore.getState().loadPersistedData();
+
+    useStore.getState().setPersonas([persona('keep'), persona('remove')]);
+    useStore.getState().setKnowledgeSources([source('keep'), source('remove')]);
+    const { personaRepository, knowledgeSourceRepository } = await import('../services/db');
+    await vi.waitFor(async () => expect(await personaRepository.list()).toHaveLength(2));
+    await vi.waitFor(async () => expect(await knowledgeSourceRepository.list()).toHaveLength(2));
+
+    useStore.getState().setPersonas(useStore.getState().personas.filter(p => p.id !== 'remove'));
+    useStore.getState().setKnowledgeSources([]);
+    await vi.waitFor(async () => expect(await personaRepository.list()).toHaveLength(1));
+    await vi.waitFor(async () => expect(await knowledgeSourceRepository.list()).toHaveLength(0));
+
+    useStore = await loadStore();
+    await useStore.getState().loadPersistedData();
+    expect(useStore.getState().personas.map(p => p.id)).toEqual(['keep']);
+    expect(useStore.getState().knowledgeSources).toEqual([]);
+  });
+
+  it('exports and restores the workspace, optionally without derived stores', async () => {
+    const db = await loadDb();
+    await db.putStateEntries('embeddings', [['src-1', [{ chunk: 'a' }]]]);
+    await db.putStateEntries('editRatings', [['r1', { rating: 4 }]]);
+    await db.addAnalyticsEvent({ type: 'quality_check' });
+
+    const lean = await db.exportWorkspaceState(false);
+    expect(lean.stores.embeddings).toBeUndefined();
+    expect(lean.stores.editRatings).toEqual([['r1', { rating: 4 }]]);
+
+    const full = await db.exportWorkspaceState(true);
+    await db.putStateEntries('editRatings', [['r2', { rating: 1 }]]);
+    await db.restoreWorkspaceState(full, { personas: [persona('restored')], knowledgeSources: [] });
+
+    expect(await db.getStateEntries('editRatings')).toEqual([['r1', { rating: 4 }]]);
+    expect(await db.getStateEntries('embeddings')).toEqual([['src-1', [{ chunk: 'a' }]]]);
+    expect(await db.getAnalyticsEvents()).toEqual([{ type: 'quality_check' }]);
+    expect((await db.personaRepository.list()).map(p => p.id)).toEqual(['restored']);
+
+    // Derived data left over from the replaced sources does not survive a lean restore
+    await db.restoreWorkspaceState(lean, { personas: [], knowledgeSources: [] });
+    expect(await db.getStateEntries('embeddings')).toEqual([]);
+    expect(await db.getStateEntries('editRatings')).toEqual([['r1', { rating: 4 }]]);
+  });
+
+  it('leaves the workspace untouched when a restore fails part way', async () => {
+    const db = await loadDb();
+    await db.personaRepository.replaceAll([persona('existing')]);
+
+    const broken = { stores: { editRatings: [['r1', () => 'not cloneable']] as [string, unknown][] } };
+    await expect(db.restoreWorkspaceState(broken, { personas: [], knowledgeSources: [] })).rejects.toThrow();
+
+    expect((await db.personaRepository.list()).map(p => p.id)).toEqual(['existing']);
+  });
+});
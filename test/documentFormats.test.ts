@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assembleEpub,
+  extractHtmlText,
+  odtContentToText,
+  parseEpubContainer,
+  parseEpubPackage,
+  parseEpubToc,
+  rtfToText
+} from '../services/documentFormats';
+
+describe('documentFormats', () => {
+  it('keeps the main content of a web page and drops its boilerplate', () => {
+    const html = `<html><head><title>Field Notes</title><script>track()</script></head><body>
+      <nav><a href="/">Home</a> <a href="/about">About</a></nav>
+      <div class="sidebar"><p>Subscribe to our newsletter for weekly updates, offers and more.</p></div>
+      <div id="content">
+        <h2>Observations</h2>
+        <p>The river rose overnight, flooding the lower meadow, the path and the boathouse.</p>
+        <ul><li><p>Mallards</p></li><li>Herons</li></ul>
+      </div>
+      <footer>Copyright 2024</footer>
+    </body></html>`;
+
+    expect(extractHtmlText(html)).toBe([
+      '# Field Notes',
+      '## Observations',
+      'The river rose overnight, flooding the lower meadow, the path and the boathouse.',
+      '- Mallards',
+      '- Herons'
+    ].join('\n\n'));
+  });
+
+  it('reads EPUB chapters in spine order with titles from the table of contents', () => {
+    const opfPath = parseEpubContainer(
+      '<container xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles><rootfile full-path="OEBPS/book.opf"/></rootfiles></container>'
+    );
+    const pkg = parseEpubPackage(`<package xmlns="http://www.idpf.org/2007/opf" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <metadata><dc:title>A Short Book</dc:title></metadata>
+      <manifest>
+        <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+        <item id="c1" href="text/one.xhtml" media-type="application/xhtml+xml"/>
+        <item id="c2" href="text/two.xhtml" media-type="application/xhtml+xml"/>
+      </manifest>
+      <spine><itemref idref="c2"/><itemref idref="c1"/></spine>
+    </package>`, opfPath);
+    const toc = parseEpubToc(
+      '<html><body><nav epub:type="toc"><ol><li><a href="text/two.xhtml">Beginnings</a></li><li><a href="text/one.xhtml#s1">Endings</a></li></ol></nav></body></html>',
+      pkg.tocPath!
+    );
+
+    expect(pkg.spine).toEqual(['OEBPS/text/two.xhtml', 'OEBPS/text/one.xhtml']);
+    expect(assembleEpub(pkg, [
+      { path: 'OEBPS/text/two.xhtml', html: '<html><body><p>It began.</p></body></html>' },
+      { path: 'OEBPS/text/one.xhtml', html: '<html><body><h1>The End</h1><p>It ended.</p></body></html>' }
+    ], toc)).toBe('# A Short Book\n\n## Beginnings\n\nIt began.\n\n# The End\n\nIt ended.');
+  });
+
+  it('converts RTF to plain text, skipping tables and decoding escapes', () => {
+    const rtf = String.raw`{\rtf1\ansi\uc1{\fonttbl{\f0 Arial;}}{\*\generator Writer;}\f0\fs24 Caf\'e9 \b notes\b0\par
+Na\u239?ve \{braces\}\tab end\par}`;
+
+    expect(rtfToText(rtf)).toBe('Café notes\nNaïve {braces}\tend');
+  });
+
+  it('decodes RTF code-page bytes in the document and font code pages', () => {
+    const cyrillic = String.raw`{\rtf1\ansi\ansicpg1251\deff0{\fonttbl{\f0 Arial;}}\f0 \'cf\'f0\'e8\'e2\'e5\'f2\par}`;
+    const mixed = String.raw`{\rtf1\ansi\ansicpg1252\deff0{\fonttbl{\f0\fcharset0 Times;}{\f1\fcharset204 Arial Cyr;}}
+\f0 Caf\'e9 {\f1 \'cc\'e8\'f0} \'e9t\'e9\par}`;
+
+    expect(rtfToText(cyrillic)).toBe('Привет');
+    expect(rtfToText(mixed)).toBe('Café Мир été');
+  });
+
+  it('converts ODT content with headings, lists and tables', () => {
+    const xml = `<office:document-content
+      xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
+      xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"
+      xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0">
+      <office:body><office:text>
+        <text:sequence-decls><text:sequence-decl text:name="Table"/></text:sequence-decls>
+        <text:h text:outline-level="2">Plan</text:h>
+        <text:p>First<text:s/>step<text:line-break/>Second line</text:p>
+        <text:list><text:list-item><text:p>Item</text:p></text:list-item></text:list>
+        <table:table><table:table-row><table:table-cell><text:p>A</text:p></table:table-cell><table:table-cell><text:p>B</text:p></table:table-cell></table:table-row></table:table>
+      </office:text></office:body>
+    </office:document-content>`;
+
+    expect(odtContentToText(xml)).toBe('## Plan\n\nFirst step\n\nSecond line\n\n- Item\n\nA | B');
+  });
+});
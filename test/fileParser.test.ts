@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { FileParseProgress, startParsing } from '../services/fileParser';
+
+// jsdom has no Worker, so these exercise the main-thread path of the same batch API
+const textFile = (name: string, text: string) => new File([text], name, { type: 'text/markdown', lastModified: 1 });
+
+describe('startParsing', () => {
+  it('parses files in order and reports per-file progress', async () => {
+    const updates: FileParseProgress[][] = [];
+    const messages: string[] = [];
+    const batch = startParsing([textFile('a.md', 'Alpha'), textFile('b.md', 'Beta')], {
+      onProgress: (_current, _total, message) => messages.push(message),
+      onFileProgress: files => updates.push(files),
+    });
+
+    const { sources } = await batch.results;
+
+    expect(sources.map(source => source.content)).toEqual(['Alpha', 'Beta']);
+    expect(updates[0].map(file => file.status)).toEqual(['queued', 'queued']);
+    expect(updates[updates.length - 1].map(file => file.status)).toEqual(['done', 'done']);
+    expect(messages[messages.length - 1]).toBe('Processing complete!');
+  });
+
+  it('leaves cancelled files out of the results', async () => {
+    const updates: FileParseProgress[][] = [];
+    const batch = startParsing([textFile('keep.md', 'Kept'), textFile('drop.md', 'Dropped')], {
+      onFileProgress: files => {
+        // The first update lists the queued files
+        if (updates.length === 0) batch.cancel(1);
+        updates.push(files);
+      },
+    });
+
+    const { sources } = await batch.results;
+
+    expect(sources.map(source => source.name)).toEqual(['keep.md']);
+    expect(updates[updates.length - 1].find(file => file.name === 'drop.md')?.status).toBe('cancelled');
+  });
+
+  it('expands folders and zip archives, keeping relative paths and skipping unsupported entries', async () => {
+    const zip = new JSZip();
+    zip.file('notes/a.md', 'From the archive');
+    zip.file('notes/photo.gif', 'GIF89a');
+    zip.file('__MACOSX/notes/._a.md', 'resource fork');
+    const bytes = await zip.generateAsync({ type: 'uint8array' });
+    const archive = new File([bytes], 'bundle.zip', { lastModified: 1 });
+    // jsdom's File has no arrayBuffer()
+    Object.defineProperty(archive, 'arrayBuffer', { value: async () => bytes.buffer });
+
+    const inFolder = textFile('b.md', 'From the folder');
+    Object.defineProperty(inFolder, 'webkitRelativePath', { value: 'Research/b.md' });
+    const unsupported = new File(['x'], 'data.bin', { lastModified: 1 });
+    Object.defineProperty(unsupported, 'webkitRelativePath', { value: 'Research/data.bin' });
+
+    const { sources, diagnostics } = await startParsing([archive, inFolder, unsupported]).results;
+
+    expect(sources.map(source => [source.path, source.name, source.content])).toEqual([
+      ['bundle.zip/notes/a.md', 'a.md', 'From the archive'],
+      ['Research/b.md', 'b.md', 'From the folder'],
+    ]);
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.file])).toEqual([
+      ['warning', 'unsupported_type', 'bundle.zip/notes/photo.gif'],
+      ['warning', 'unsupported_type', 'Research/data.bin'],
+    ]);
+  });
+
+  it('stops decompressing archive entries once they expand past the size limit', async () => {
+    const zip = new JSZip();
+    zip.file('small.txt', 'Fits');
+    // Compresses to a few kilobytes but expands to 11MB, over the 10MB text limit
+    zip.file('bomb.txt', 'a'.repeat(11 * 1024 * 1024));
+    const bytes = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+    const archive = new File([bytes], 'bundle.zip', { lastModified: 1 });
+    Object.defineProperty(archive, 'arrayBuffer', { value: async () => bytes.buffer });
+
+    const { sources, diagnostics } = await startParsing([archive]).results;
+
+    expect(sources.map(source => source.path)).toEqual(['bundle.zip/small.txt']);
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.file])).toEqual([['file_too_large', 'bundle.zip/bomb.txt']]);
+  });
+
+  it('uses outcomes parsed earlier instead of parsing those files again', async () => {
+    const previewed = textFile('a.md', 'Changed since the preview');
+    const parsed = new Map([[previewed, { source: { id: 'preview', name: 'a.md', content: 'From the preview' }, diagnostics: [] }]]);
+
+    const { sources } = await startParsing([previewed, textFile('b.md', 'Beta')], {}, { parsed }).results;
+
+    expect(sources.map(source => [source.id, source.content])).toEqual([['preview', 'From the preview'], [sources[1].id, 'Beta']]);
+  });
+
+  it('reports files that cannot be read as diagnostics instead of sources', async () => {
+    const { sources, diagnostics } = await startParsing([
+      textFile('empty.md', '   '),
+      new File(['x'], 'program.exe', { lastModified: 1 }),
+      textFile('ok.md', 'Readable'),
+    ]).results;
+
+    expect(sources.map(source => source.name)).toEqual(['ok.md']);
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.file])).toEqual([
+      ['error', 'no_text', 'empty.md'],
+      ['error', 'unsupported_type', 'program.exe'],
+    ]);
+  });
+});
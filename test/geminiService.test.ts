@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { startChatSession } from '../services/geminiService';
+import { startChatSession, askPersonaQuestion } from '../services/geminiService';
 import { Persona, Source } from '../types';
 
 global.fetch = vi.fn();
@@ -23,17 +23,25 @@ describe('GeminiService', () => {
     },
   ];
 
-  it('should start a chat session and return a stream of text', async () => {
-    const mockStream = new ReadableStream({
+  const sseStream = (frames: string[]) =>
+    new ReadableStream({
       start(controller) {
-        controller.enqueue(new TextEncoder().encode('Hello'));
-        controller.enqueue(new TextEncoder().encode(' '));
-        controller.enqueue(new TextEncoder().encode('world'));
+        frames.forEach((frame) => controller.enqueue(new TextEncoder().encode(frame)));
         controller.close();
       },
     });
 
+  it('should start a chat session and return a stream of text', async () => {
+    const mockStream = sseStream([
+      'event: token\ndata: {"text":"Hello"}\n\n',
+      'event: token\ndata: {"text":" "}\n\nevent: tok',
+      'en\ndata: {"text":"world"}\n\n',
+      'event: usage\ndata: {"totalTokens":3}\n\n',
+      'event: done\ndata: {}\n\n',
+    ]);
+
     (fetch as any).mockResolvedValue({
+      ok: true,
       body: mockStream,
     });
 
@@ -49,4 +57,61 @@ describe('GeminiService', () => {
 
     expect(result).toBe('Hello world');
   });
+
+  it('should surface error events raised mid-stream', async () => {
+    (fetch as any).mockResolvedValue({
+      ok: true,
+      body: sseStream([
+        'event: token\ndata: {"text":"Partial"}\n\n',
+        'event: error\ndata: {"message":"Quota exceeded"}\n\n',
+      ]),
+    });
+
+    const received: string[] = [];
+    await expect(async () => {
+      for await (const chunk of startChatSession(mockPersona, 'Test prompt', mockSources)) {
+        received.push(chunk);
+      }
+    }).rejects.toThrow('Quota exceeded');
+    expect(received).toEqual(['Partial']);
+  });
+
+  it('should fail when the stream ends without a done event', async () => {
+    (fetch as any).mockResolvedValue({
+      ok: true,
+      body: sseStream(['event: token\ndata: {"text":"Cut"}\n\n']),
+    });
+
+    const received: string[] = [];
+    await expect(async () => {
+      for await (const chunk of startChatSession(mockPersona, 'Test prompt', mockSources)) {
+        received.push(chunk);
+      }
+    }).rejects.toThrow('ended before the generation finished');
+    expect(received).toEqual(['Cut']);
+  });
+
+  it('should report validation errors returned by the backend', async () => {
+    (fetch as any).mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: async () => ({ error: 'Invalid request', details: ['userQuery must be a non-empty string'] }),
+    });
+
+    await expect(askPersonaQuestion(mockPersona, mockSources, '').next()).rejects.toThrow(
+      'Invalid request: userQuery must be a non-empty string'
+    );
+    expect((fetch as any).mock.calls.at(-1)[0]).toBe('http://localhost:3002/api/ask');
+  });
+
+  it('should forward the abort signal to the request', async () => {
+    const controller = new AbortController();
+    (fetch as any).mockImplementation((_url: string, init: RequestInit) => {
+      controller.abort();
+      return Promise.reject(init.signal?.reason);
+    });
+
+    const stream = startChatSession(mockPersona, 'Test prompt', mockSources, 0.7, undefined, controller.signal);
+    await expect(stream.next()).rejects.toMatchObject({ name: 'AbortError' });
+  });
 });
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { applyMerge, planMerge } from '../services/importMerge';
+import { hashContent } from '../services/sourceDedup';
+import { persona, source } from './utils';
+
+describe('importMerge', () => {
+  const local = {
+    personas: [persona('p1'), persona('p2')],
+    knowledgeSources: [source('s1', 'Alpha'), source('s2', 'Beta')]
+  };
+  const incoming = {
+    personas: [persona('p1'), persona('p2', { role: 'Editor' }), persona('p3')],
+    // s1 again under another id, name and ingestion time, s2 edited, s3 new
+    knowledgeSources: [
+      { ...source('copy-of-s1', 'Alpha'), ingestedAt: '2024-05-01T00:00:00.000Z' },
+      source('s2', 'Beta, revised'),
+      source('s3', 'Gamma')
+    ]
+  };
+
+  it('classifies items by id and by content hash', () => {
+    const plan = planMerge(local, incoming);
+
+    expect(plan.personas.map(item => item.status)).toEqual(['identical', 'conflict', 'new']);
+    expect(plan.personas[1].changedFields).toEqual(['role']);
+    expect(plan.sources.map(item => [item.status, item.matchedBy])).toEqual([
+      ['identical', 'content'],
+      ['conflict', 'id'],
+      ['new', undefined]
+    ]);
+  });
+
+  it('applies per-item resolutions, defaulting to adding new items and keeping local', () => {
+    const plan = planMerge(local, incoming);
+    const merged = applyMerge(local, plan, {
+      'persona:p2': 'takeIncoming',
+      'source:s2': 'keepBoth',
+      'source:s3': 'keepLocal'
+    });
+
+    expect(merged.personas.map(p => [p.id, p.role])).toEqual([['p1', 'Writer'], ['p2', 'Editor'], ['p3', 'Writer']]);
+    expect(merged.knowledgeSources.map(s => [s.id, s.name, s.content])).toEqual([
+      ['s1', 's1.txt', 'Alpha'],
+      ['s2', 's2.txt', 'Beta'],
+      ['s2-imported', 's2.txt (imported)', 'Beta, revised']
+    ]);
+  });
+
+  it('matches a stored contentHash with one computed from the content', () => {
+    const parsed = { ...source('parsed', 'Alpha  beta'), contentHash: hashContent('Alpha  beta') };
+    const plan = planMerge({ personas: [], knowledgeSources: [parsed] }, { personas: [], knowledgeSources: [source('legacy', 'Alpha beta')] });
+
+    expect(plan.sources[0].matchedBy).toBe('content');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage } from '../services/languageDetection';
+import { TranslationService, needsTranslation, workingCopy } from '../services/translationService';
+import { FakeLLMProvider, LLMProviderService } from '../services/llmProvider';
+import { Source } from '../types';
+
+describe('languageDetection', () => {
+  it('tells Latin-script languages apart by their function words', () => {
+    expect(detectLanguage('The committee met on Tuesday and agreed that the budget for the new library was too small. It asked the council to find more money from the reserves, which they have not touched in years.')?.language).toBe('en');
+    expect(detectLanguage('Der Ausschuss hat am Dienstag getagt und ist sich einig, dass das Budget für die neue Bibliothek zu klein ist. Er bittet den Rat, mehr Geld aus den Rücklagen zu nehmen, die seit Jahren nicht angetastet werden.')?.language).toBe('de');
+    expect(detectLanguage('El comité se reunió el martes y acordó que el presupuesto para la nueva biblioteca era demasiado pequeño. Pidió al consejo que buscara más dinero de las reservas, que no se han tocado en años.')?.language).toBe('es');
+  });
+
+  it('recognizes Cyrillic and other scripts', () => {
+    expect(detectLanguage('Комитет собрался во вторник и согласился, что бюджет для новой библиотеки слишком мал, и что это нужно исправить как можно скорее.')?.language).toBe('ru');
+    expect(detectLanguage('委员会在星期二开会，一致认为新图书馆的预算太少，并要求理事会从储备金中拨出更多资金。')?.language).toBe('zh');
+  });
+
+  it('does not guess on text that is too short', () => {
+    expect(detectLanguage('Hello there')).toBeUndefined();
+  });
+});
+
+describe('translationService', () => {
+  it('keeps the original content and processes the translation', async () => {
+    const provider = new FakeLLMProvider(prompt => prompt.replace('Hallo Welt', 'Hello world'));
+    LLMProviderService.getInstance().setProvider(provider);
+    const source: Source = {
+      id: 'greeting',
+      name: 'gruss.txt',
+      content: 'Hallo Welt',
+      language: 'de',
+      pages: [{ pageNumber: 1, start: 0, end: 10 }],
+    };
+    expect(needsTranslation(source)).toBe(true);
+
+    const translated = await TranslationService.getInstance().translateSource(source);
+
+    expect(translated.content).toBe('Hallo Welt');
+    expect(translated.translation?.content).toBe('Hello world');
+    expect(provider.calls[0].options?.systemInstruction).toContain('from German into English');
+    expect(needsTranslation(translated)).toBe(false);
+    // Page offsets point into the original, so the working copy drops them
+    const copy = workingCopy(translated);
+    expect(copy.content).toBe('Hello world');
+    expect(copy.pages).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FakeLLMProvider, LLMProviderConfig, LLMProviderService, createLLMProvider, extractJSON, isAbortError } from '../services/llmProvider';
+import { KnowledgeProcessingService } from '../services/knowledgeProcessingService';
+import { Source } from '../types';
+
+describe('LLMProvider', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('extracts JSON from fenced and prose-wrapped responses', () => {
+    expect(extractJSON('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJSON('Here you go: ["x", "y"] done')).toEqual(['x', 'y']);
+    expect(() => extractJSON('no json here')).toThrow('No JSON found');
+  });
+
+  it('recognizes aborts by error name or by the aborted signal, not by message', () => {
+    const controller = new AbortController();
+    const wrapped = new Error('[GoogleGenerativeAI Error]: This operation was aborted');
+
+    expect(isAbortError(new DOMException('Stopped', 'AbortError'))).toBe(true);
+    expect(isAbortError(new Error('Upload aborted by the server'))).toBe(false);
+    expect(isAbortError(wrapped, controller.signal)).toBe(false);
+    controller.abort();
+    expect(isAbortError(wrapped, controller.signal)).toBe(true);
+  });
+
+  it('streams the fake response word by word', async () => {
+    const provider = new FakeLLMProvider(() => 'one two three');
+    const pieces: string[] = [];
+    for await (const piece of provider.stream('prompt')) {
+      pieces.push(piece);
+    }
+    expect(pieces).toEqual(['one ', 'two ', 'three']);
+  });
+
+  it('produces deterministic embeddings', async () => {
+    const provider = new FakeLLMProvider();
+    const first = await provider.embed('the quick brown fox');
+    const second = await provider.embed('the quick brown fox');
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(64);
+  });
+
+  it('persists the selected provider config', () => {
+    const service = LLMProviderService.getInstance();
+    service.setConfig({ kind: 'ollama', model: 'llama3.2:1b' });
+
+    expect(service.getProvider().kind).toBe('ollama');
+    expect(JSON.parse(localStorage.getItem('knowledge-weaver-llm-provider')!).model).toBe('llama3.2:1b');
+    // Only the kind and model go to the backend, which owns URLs and keys
+    expect(service.getRequestConfig()).toEqual({ kind: 'ollama', model: 'llama3.2:1b' });
+  });
+
+  it('sends OpenAI-compatible calls through the backend proxy with only the kind and model', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: { ok: true } })));
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      const provider = createLLMProvider({ kind: 'openai', model: 'gpt-4o' });
+      expect(await provider.generateJSON('prompt', { temperature: 0.1 })).toEqual({ ok: true });
+
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('http://localhost:3002/api/llm/generate');
+      expect(init.headers).not.toHaveProperty('Authorization');
+      expect(JSON.parse(init.body as string)).toEqual({
+        provider: { kind: 'openai', model: 'gpt-4o' }, prompt: 'prompt', temperature: 0.1, json: true
+      });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('rejects unknown provider kinds', () => {
+    // e.g. a kind stored by a newer version of the app
+    const config = JSON.parse('{"kind": "unknown", "model": "x"}') as LLMProviderConfig;
+    expect(() => createLLMProvider(config)).toThrow('Unknown LLM provider');
+  });
+
+  it('drives a service through an injected fake provider', async () => {
+    const provider = new FakeLLMProvider((prompt) => {
+      if (prompt.includes('key concepts')) return '["alpha", "beta"]';
+      if (prompt.includes('Rate the quality')) return '87';
+      return 'A short summary.';
+    });
+    LLMProviderService.getInstance().setProvider(provider);
+
+    const source: Source = { id: 'fake-source', name: 'notes.txt', content: 'Alpha and beta are related.' };
+    const processed = await KnowledgeProcessingService.getInstance().processSource(source);
+
+    expect(processed.summary).toBe('A short summary.');
+    expect(processed.keyConcepts).toEqual(['alpha', 'beta']);
+    expect(processed.qualityScore).toBe(87);
+    expect(provider.calls).toHaveLength(3);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { startParsing } from '../services/fileParser';
+import { OcrService } from '../services/ocrService';
+
+// Recognition results handed out in call order by the mocked Tesseract worker
+const recognitions: { text: string; confidence: number }[] = [];
+const recognize = vi.fn(async (_image: unknown) => ({ data: recognitions.shift()! }));
+
+vi.mock('tesseract.js', () => ({
+  OEM: { LSTM_ONLY: 1 },
+  createWorker: vi.fn(async () => ({ recognize, terminate: vi.fn() })),
+}));
+
+// jsdom's File has no arrayBuffer()
+const upload = (name: string, type: string) => {
+  const file = new File(['binary'], name, { type, lastModified: 1 });
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => new ArrayBuffer(6) });
+  return file;
+};
+
+describe('OCR', () => {
+  beforeEach(() => {
+    recognitions.length = 0;
+    recognize.mockClear();
+  });
+
+  afterEach(async () => {
+    await OcrService.getInstance().terminate();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('turns image text into a source with its confidence, flagging low confidence', async () => {
+    recognitions.push({ text: '  Handwritten note\n', confidence: 41.6 });
+
+    const { sources, diagnostics } = await startParsing([upload('note.png', 'image/png')]).results;
+
+    expect(sources[0].content).toBe('Handwritten note');
+    expect(sources[0].pages).toEqual([{ pageNumber: 1, start: 0, end: 16, ocrConfidence: 42 }]);
+    expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.file])).toEqual([
+      ['warning', 'low_ocr_confidence', 'note.png'],
+    ]);
+  });
+
+  it('rasterizes only the pages of a PDF that have no text layer', async () => {
+    const render = vi.fn(() => ({ promise: Promise.resolve() }));
+    const page = (items: { str: string; transform: number[] }[]) => ({
+      getTextContent: async () => ({ items }),
+      getViewport: ({ scale }: { scale: number }) => ({ width: 300 * scale, height: 400 * scale }),
+      render,
+    });
+    const pages = [page([{ str: 'Typed page', transform: [10, 0, 0, 10, 50, 700] }]), page([]), page([])];
+    vi.stubGlobal('pdfjsLib', {
+      GlobalWorkerOptions: {},
+      getDocument: () => ({
+        promise: Promise.resolve({
+          numPages: pages.length,
+          getMetadata: async () => ({ info: {} }),
+          getPage: async (n: number) => pages[n - 1],
+        }),
+      }),
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({} as CanvasRenderingContext2D);
+    recognitions.push({ text: 'Scanned page', confidence: 93 }, { text: '', confidence: 0 });
+
+    const { sources, diagnostics } = await startParsing([upload('mixed.pdf', 'application/pdf')]).results;
+
+    expect(render).toHaveBeenCalledTimes(2);
+    expect((recognize.mock.calls[0][0] as HTMLCanvasElement).width).toBe(600);
+    expect(sources[0].content).toContain('Typed page');
+    expect(sources[0].content).toContain('Scanned page');
+    expect(sources[0].pages?.map(p => p.ocrConfidence)).toEqual([undefined, 93, undefined]);
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.page])).toEqual([['page_unreadable', 3]]);
+  });
+});
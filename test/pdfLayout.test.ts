@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { PdfTextItem, assemblePages, findPageAtOffset, layoutPdfPage } from '../services/pdfLayout';
+
+// A text item at (x, y) in a font of the given size
+const item = (str: string, x: number, y: number, size = 10, width = str.length * size * 0.5): PdfTextItem => ({
+  str,
+  transform: [size, 0, 0, size, x, y],
+  width,
+  height: size
+});
+
+describe('pdfLayout', () => {
+  it('rebuilds lines, paragraphs and headings from text positions', () => {
+    const text = layoutPdfPage([
+      item('Annual Report', 50, 700, 24),
+      item('Revenue grew', 50, 660),
+      item('strongly', 115, 660),
+      item('this year, driven by ex-', 50, 648),
+      item('port demand.', 50, 636),
+      item('Outlook', 50, 610, 14),
+      item('Costs remain stable.', 50, 590)
+    ]);
+
+    expect(text).toBe([
+      '# Annual Report',
+      'Revenue grew strongly this year, driven by export demand.',
+      '## Outlook',
+      'Costs remain stable.'
+    ].join('\n\n'));
+  });
+
+  it('joins items on one baseline without inventing spaces inside words', () => {
+    expect(layoutPdfPage([item('Know', 50, 500, 10, 20), item('ledge', 70, 500, 10, 25)])).toBe('Knowledge');
+  });
+
+  it('records page offsets so a position can be traced back to its page', () => {
+    const { content, pages } = assemblePages(['First page text', 'Second page text']);
+
+    expect(content).toBe('[Page 1]\nFirst page text\n\n[Page 2]\nSecond page text');
+    expect(pages.map(page => content.slice(page.start, page.end))).toEqual([
+      '[Page 1]\nFirst page text',
+      '[Page 2]\nSecond page text'
+    ]);
+    expect(findPageAtOffset(pages, content.indexOf('Second'))).toBe(2);
+    expect(findPageAtOffset(pages, content.length + 5)).toBeUndefined();
+  });
+});
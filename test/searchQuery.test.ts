@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseDateValue, parseQuery, positiveTerms } from '../services/searchQuery';
+
+describe('searchQuery', () => {
+  it('ANDs bare words and binds AND tighter than OR', () => {
+    expect(parseQuery('solar wind OR tidal')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'and', children: [{ type: 'term', text: 'solar' }, { type: 'term', text: 'wind' }] },
+        { type: 'term', text: 'tidal' },
+      ],
+    });
+  });
+
+  it('parses phrases, negation, groups and field filters', () => {
+    expect(parseQuery('"carbon tax" -(draft OR notes) persona:"Ada Lovelace" tag:policy')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'phrase', text: 'carbon tax' },
+        { type: 'not', child: { type: 'or', children: [{ type: 'term', text: 'draft' }, { type: 'term', text: 'notes' }] } },
+        { type: 'field', field: 'persona', value: 'Ada Lovelace' },
+        { type: 'field', field: 'tag', value: 'policy' },
+      ],
+    });
+    expect(parseQuery('NOT role:economist')).toEqual({ type: 'not', child: { type: 'field', field: 'role', value: 'economist' } });
+  });
+
+  it('turns date filters into inclusive ranges', () => {
+    expect(parseDateValue('2023-02')).toEqual({
+      start: new Date('2023-02-01T00:00:00.000Z'),
+      end: new Date('2023-02-28T23:59:59.999Z'),
+    });
+    expect(parseQuery('after:2020 before:2021-06-15')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'date', start: new Date('2020-01-01T00:00:00.000Z') },
+        { type: 'date', end: new Date('2021-06-15T23:59:59.999Z') },
+      ],
+    });
+  });
+
+  it('tolerates half-typed queries', () => {
+    expect(parseQuery('(energy OR')).toEqual({ type: 'term', text: 'energy' });
+    expect(parseQuery('"unfinished phrase')).toEqual({ type: 'phrase', text: 'unfinished phrase' });
+    expect(parseQuery('energy)')).toEqual({ type: 'term', text: 'energy' });
+    expect(parseQuery('AND NOT')).toBeNull();
+  });
+
+  it('collects only the terms results should contain', () => {
+    expect(positiveTerms(parseQuery('wind "solar power" -coal tag:x')!)).toEqual(['wind', 'solar power']);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { analyze, editDistance, stem } from '../services/searchIndex';
+import { persona, source } from './utils';
+
+// Fresh modules get a fresh SearchService singleton and database connection
+const loadSearchService = async () => {
+  vi.resetModules();
+  return (await import('../services/searchService')).SearchService.getInstance();
+};
+
+const filler = (words: number) => Array.from({ length: words }, (_, i) => `filler${i % 50}`).join(' ');
+
+describe('searchIndex', () => {
+  it('stems inflections to a shared term and drops stop-words', () => {
+    expect(['studies', 'studied', 'studying'].map(stem)).toEqual(['studi', 'studi', 'studi']);
+    expect(stem('running')).toBe(stem('runs'));
+    expect(analyze('The cats and the dogs')).toEqual(['cat', 'dog']);
+  });
+
+  it('counts adjacent transpositions as one edit', () => {
+    expect(editDistance('dipolmat', 'diplomat')).toBe(1);
+    expect(editDistance('putn', 'putin')).toBe(1);
+    expect(editDistance('kitten', 'sitting', 2)).toBe(Infinity);
+  });
+});
+
+describe('SearchService', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it('ranks focused documents above long ones that mention the term in passing', async () => {
+    const service = await loadSearchService();
+    await service.loaded;
+    const sources = [
+      source('long', `${filler(2000)} photosynthesis ${filler(2000)}`),
+      source('focused', 'Photosynthesis turns light into chemical energy. Photosynthesizing plants store it as sugar.'),
+      source('unrelated', 'Tax law in the nineteenth century.'),
+    ];
+
+    const results = service.search('photosynthesis', [], sources);
+
+    expect(results.map(result => result.id)).toEqual(['focused', 'long']);
+    expect(results[0].relevance).toBe(100);
+    expect(results[0].matches[0].highlighted).toContain('**Photosynthesis**');
+  });
+
+  it('executes phrases, boolean operators, field filters and date ranges', async () => {
+    const service = await loadSearchService();
+    await service.loaded;
+    const personas = [persona('p1', {
+      name: 'Ada', surname: 'Lovelace', role: 'Economist', bio: 'Writes about carbon pricing.',
+      shaperSources: [{ ...source('essay', 'A carbon tax is simpler than trading.'), tags: ['policy'] }],
+    })];
+    const sources = [
+      { ...source('report', 'The tax on carbon rose in 2021.'), publishedAt: '2021-03-01' },
+      { ...source('draft', 'Carbon tax draft, not for circulation.'), publishedAt: '2023-09-01' },
+    ];
+    const ids = (query: string, filters = {}) => service.search(query, personas, sources, filters).map(result => result.id).sort();
+
+    expect(ids('"carbon tax"')).toEqual(['draft', 'p1-essay']);
+    expect(ids('carbon tax -draft')).toEqual(['p1-essay', 'report']);
+    expect(ids('carbon role:economist')).toEqual(['p1', 'p1-essay']);
+    expect(ids('tag:policy OR source:report')).toEqual(['p1-essay', 'report']);
+    expect(ids('carbon before:2022')).toEqual(['report']);
+    expect(ids('carbon', { dateRange: { start: new Date('2023-01-01'), end: new Date('2023-12-31') } })).toEqual(['draft']);
+  });
+
+  it('tolerates typos within the configured number of edits and suggests a correction', async () => {
+    const service = await loadSearchService();
+    await service.loaded;
+    const personas = [persona('p1', { name: 'Vladimir', surname: 'Putin', role: 'Diplomat' })];
+
+    const [result] = service.search('Putn dipolmat', personas, []);
+    expect(result.id).toBe('p1');
+    expect(result.matches.map(match => match.highlighted)).toEqual(['Vladimir **Putin**', '**Diplomat**']);
+    expect(service.search('dipolmat', personas, [], { fuzziness: 0 })).toEqual([]);
+    expect(service.search('diplmoaat', personas, [], { fuzziness: 1 })).toEqual([]);
+    expect(service.search('diplmoaat', personas, [], { fuzziness: 2 })).toHaveLength(1);
+
+    expect(service.suggest('Putn dipolmat', personas, [])).toBe('Putin diplomat');
+    expect(service.suggest('putin', personas, [])).toBeNull();
+  });
+
+  it('re-indexes changed sources, drops removed ones and persists the index', async () => {
+    const personas = [persona('p1', { name: 'Ada', surname: 'Lovelace', role: 'Mathematician' })];
+    let service = await loadSearchService();
+    await service.loaded;
+    service.search('engine', personas, [source('notes', 'The analytical engine')]);
+
+    const edited = [source('notes', 'Notes on the difference engine and looms')];
+    expect(service.search('looms', personas, edited).map(result => result.id)).toEqual(['notes']);
+    expect(service.search('looms', personas, [])).toEqual([]);
+    expect(service.search('mathematicians', personas, [], { type: 'personas' })[0].title).toBe('Ada Lovelace');
+
+    // Wait for the write-through, then load the index as after a reload
+    await vi.waitFor(async () => {
+      const { getStateEntries } = await import('../services/db');
+      expect((await getStateEntries('searchIndex')).map(([id]) => id)).toEqual(['p1']);
+    });
+    service = await loadSearchService();
+    await service.loaded;
+    expect(service.search('lovelace', personas, [])[0].id).toBe('p1');
+  });
+});
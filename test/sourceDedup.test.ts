@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicates, hashContent, mergeSources, resolveDuplicate } from '../services/sourceDedup';
+import { source } from './utils';
+
+const REPORT = Array.from({ length: 60 }, (_, i) =>
+  `Paragraph ${i} of the quarterly report covers revenue, hiring and the product roadmap in some detail.`
+).join('\n\n');
+
+describe('sourceDedup', () => {
+  it('finds exact duplicates by content hash regardless of name or whitespace', () => {
+    const existing = [source('report', REPORT)];
+    const { unique, duplicates } = findDuplicates([source('copy', REPORT.replace(/\n\n/g, '\n'))], existing);
+
+    expect(hashContent('a  b\nc')).toBe(hashContent('a b c'));
+    expect(unique).toEqual([]);
+    expect(duplicates).toMatchObject([{ kind: 'exact', similarity: 1, existing: { id: 'report' } }]);
+  });
+
+  it('flags near duplicates, including within one upload, and leaves distinct texts alone', () => {
+    const revised = `${REPORT}\n\nAn extra closing paragraph was added in the revised edition.`;
+    const unrelated = 'Meeting notes: the team agreed to move the launch to spring and hire two designers.';
+    const { unique, duplicates } = findDuplicates([source('v1', REPORT), source('v2', revised), source('notes', unrelated)], []);
+
+    expect(unique.map(entry => entry.id)).toEqual(['v1', 'notes']);
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0]).toMatchObject({ kind: 'near', source: { id: 'v2' }, existing: { id: 'v1' } });
+    expect(duplicates[0].similarity).toBeGreaterThan(0.9);
+  });
+
+  it('merges new paragraphs into the existing source, or keeps both under unique ids', () => {
+    const existing = source('a', 'First.\n\nSecond.');
+    const incoming = source('a', 'Second.\n\nThird.');
+
+    expect(mergeSources(existing, incoming).content).toBe('First.\n\nSecond.\n\nThird.');
+
+    const match = { source: incoming, existing, kind: 'near' as const, similarity: 0.85 };
+    expect(resolveDuplicate([existing], match, 'keep').map(entry => entry.id)).toEqual(['a', 'a-2']);
+    expect(resolveDuplicate([existing], match, 'replace')).toEqual([incoming]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { extractHtmlMetadata, findSections, normalizeDate, parseDublinCore } from '../services/sourceMetadata';
+
+describe('sourceMetadata', () => {
+  it('normalizes PDF, ISO and free-form dates to YYYY-MM-DD', () => {
+    expect(normalizeDate("D:20230415093000+02'00'")).toBe('2023-04-15');
+    expect(normalizeDate('2021-06-30T12:00:00Z')).toBe('2021-06-30');
+    expect(normalizeDate('1998')).toBe('1998-01-01');
+    expect(normalizeDate('not a date')).toBeUndefined();
+  });
+
+  it('reads author, date and language from Office, ODF and EPUB properties', () => {
+    const core = `<cp:coreProperties xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/">
+      <dc:creator>Ada L&amp;ovelace</dc:creator>
+      <dcterms:created xsi:type="dcterms:W3CDTF">2019-11-02T08:00:00Z</dcterms:created>
+      <dc:language>en-GB</dc:language>
+    </cp:coreProperties>`;
+    expect(parseDublinCore(core)).toEqual({ author: 'Ada L&ovelace', publishedAt: '2019-11-02', language: 'en-GB' });
+
+    const odfMeta = '<office:meta><meta:initial-creator>Grace</meta:initial-creator><meta:creation-date>2020-02-03T10:00:00</meta:creation-date></office:meta>';
+    expect(parseDublinCore(odfMeta)).toEqual({ author: 'Grace', publishedAt: '2020-02-03' });
+  });
+
+  it('reads HTML meta tags and the page language', () => {
+    const html = `<html lang="de"><head>
+      <meta name="author" content="Max Muster">
+      <meta property="article:published_time" content="2022-09-01T07:30:00+02:00">
+    </head><body><p>Text</p></body></html>`;
+    expect(extractHtmlMetadata(html)).toEqual({ author: 'Max Muster', publishedAt: '2022-09-01', language: 'de' });
+  });
+
+  it('finds heading sections that end at the next heading of the same or higher level', () => {
+    const content = '# Report\nIntro\n## Costs\nLow\n## Outlook\nGood\n# Appendix\nData';
+    const sections = findSections(content);
+
+    expect(sections.map(section => [section.title, section.level])).toEqual([
+      ['Report', 1], ['Costs', 2], ['Outlook', 2], ['Appendix', 1],
+    ]);
+    expect(content.slice(sections[0].start, sections[0].end)).toBe('# Report\nIntro\n## Costs\nLow\n## Outlook\nGood\n');
+    expect(content.slice(sections[2].start, sections[2].end)).toBe('## Outlook\nGood\n');
+  });
+});
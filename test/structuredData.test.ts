@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { buildTable, findJsonTables, flattenJson, inferCell, renderTable } from '../services/structuredData';
+
+describe('structuredData', () => {
+  it('types CSV cells and detects the header row', () => {
+    const table = buildTable('sales.csv', [
+      ['Quarter', 'Revenue', 'Audited', 'Closed'],
+      ['Q2', '1,150', 'true', '2024-06-30'],
+      ['Q3', '1200.5', 'false', ''],
+      ['', '', '', '']
+    ], true);
+
+    expect(table.columns).toEqual([
+      { name: 'Quarter', type: 'text' },
+      { name: 'Revenue', type: 'number' },
+      { name: 'Audited', type: 'boolean' },
+      { name: 'Closed', type: 'date' }
+    ]);
+    expect(table.rows).toEqual([['Q2', 1150, true, '2024-06-30'], ['Q3', 1200.5, false, null]]);
+    expect(renderTable(table)).toBe([
+      '## sales.csv',
+      '2 rows; columns: Quarter (text), Revenue (number), Audited (boolean), Closed (date)',
+      'Row 1: Quarter: Q2; Revenue: 1150; Audited: true; Closed: 2024-06-30',
+      'Row 2: Quarter: Q3; Revenue: 1200.5; Audited: false'
+    ].join('\n'));
+  });
+
+  it('names columns itself when the first row is data', () => {
+    expect(buildTable('raw', [[1, 2], [3, 4]], false).columns.map(column => column.name)).toEqual(['Column 1', 'Column 2']);
+    expect(inferCell('1,2,3')).toBe('1,2,3');
+    expect(inferCell('-0.5e3')).toBe(-500);
+  });
+
+  it('records JSON leaf paths and arrays of records as tables', () => {
+    const data = { report: { year: 2024, 'by quarter': [{ q: 'Q3', total: 1200 }, { q: 'Q4', total: 900, note: 'est.' }] } };
+
+    expect(flattenJson(data).slice(0, 3)).toEqual([
+      { path: '$.report.year', value: 2024 },
+      { path: '$.report["by quarter"][0].q', value: 'Q3' },
+      { path: '$.report["by quarter"][0].total', value: 1200 }
+    ]);
+    const [table] = findJsonTables(data);
+    expect(table.name).toBe('$.report["by quarter"]');
+    expect(table.columns.map(column => column.name)).toEqual(['q', 'total', 'note']);
+    expect(table.rows[0]).toEqual(['Q3', 1200, null]);
+  });
+});
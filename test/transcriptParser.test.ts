@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assembleTranscript,
+  listSpeakers,
+  parseSpeakerTranscript,
+  parseSrt,
+  parseVtt,
+  restrictToSpeaker
+} from '../services/transcriptParser';
+
+describe('transcriptParser', () => {
+  it('merges SRT cues into speaker turns, carrying the speaker forward', () => {
+    const srt = [
+      '1', '00:00:01,000 --> 00:00:03,500', 'HOST: Welcome back', 'to the show.', '',
+      '2', '00:00:04,000 --> 00:00:06,000', '<i>GUEST:</i> Thanks for', '',
+      '3', '00:00:06,000 --> 00:00:08,250', 'having me.', ''
+    ].join('\n');
+
+    const { content, transcript } = assembleTranscript(parseSrt(srt));
+
+    expect(content).toBe('[00:00:01] HOST: Welcome back to the show.\n\n[00:00:04] GUEST: Thanks for having me.');
+    expect(transcript).toEqual([
+      { startTime: 1, endTime: 3.5, speaker: 'HOST', start: 0, end: 42 },
+      { startTime: 4, endTime: 8.25, speaker: 'GUEST', start: 44, end: content.length }
+    ]);
+  });
+
+  it('reads WebVTT voice spans and skips notes', () => {
+    const vtt = 'WEBVTT\n\nNOTE recorded live\n\nintro\n01:02.500 --> 01:04.000 align:start\n<v.loud Ada Lovelace>Numbers weave patterns.</v>\n';
+
+    expect(parseVtt(vtt)).toEqual([{ startTime: 62.5, endTime: 64, speaker: 'Ada Lovelace', text: 'Numbers weave patterns.' }]);
+  });
+
+  it('recognizes speaker-labelled text only when most paragraphs are turns', () => {
+    const cues = parseSpeakerTranscript('[00:10] Q: Why engines?\n[00:15] Ada: Because they compute.\nAnd weave.\n[01:00] Q: Thanks.');
+
+    expect(cues?.map(cue => [cue.speaker, cue.text, cue.startTime, cue.endTime])).toEqual([
+      ['Q', 'Why engines?', 10, 15],
+      ['Ada', 'Because they compute. And weave.', 15, 60],
+      ['Q', 'Thanks.', 60, 60]
+    ]);
+    expect(parseSpeakerTranscript('Note: buy milk\nThe shop opens at nine.\nTodo: call Bob')).toBeNull();
+  });
+
+  it('restricts a source to one speaker', () => {
+    const source = { id: 's', name: 'talk.srt', ...assembleTranscript(parseSpeakerTranscript('Q: One?\nAda: Two.\nQ: Three?\nAda: Four.')!) };
+
+    expect(listSpeakers([source])).toEqual(['Ada', 'Q']);
+    const ada = restrictToSpeaker(source, 'Ada');
+    expect(ada.content).toBe('[00:00:00] Ada: Two.\n\n[00:00:00] Ada: Four.');
+    expect(ada.transcript!.map(segment => ada.content.slice(segment.start, segment.end))).toEqual([
+      '[00:00:00] Ada: Two.',
+      '[00:00:00] Ada: Four.'
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import React, { ReactElement } from 'react';
 import { render, RenderOptions } from '@testing-library/react';
+import { Persona, Source } from '../types';
 
 // Custom render function that includes providers
 const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
@@ -13,3 +14,17 @@ const customRender = (
 
 export * from '@testing-library/react';
 export { customRender as render };
+
+// Shared fixtures
+export const source = (id: string, content = `Content of ${id}`): Source => ({ id, name: `${id}.txt`, content });
+
+export const persona = (id: string, overrides: Partial<Persona> = {}): Persona => ({
+  id,
+  name: `Persona ${id}`,
+  surname: '',
+  role: 'Writer',
+  bio: '',
+  shaperSources: [],
+  calibrationStatus: 'uncalibrated',
+  ...overrides
+});
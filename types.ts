@@ -7,10 +7,104 @@ export enum AnalysisTask {
   RELATIONSHIPS = 'Analyze Relationships',
 }
 
+// Character range of one page within a paginated source's content
+export interface SourcePage {
+  pageNumber: number;
+  start: number;
+  end: number;
+  // Set when the page's text came from OCR: mean confidence, 0-100
+  ocrConfidence?: number;
+}
+
+// Character range of a headed section within a source's content
+export interface SourceSection {
+  title: string;
+  // Heading level, 1-6
+  level: number;
+  start: number;
+  end: number;
+}
+
+export interface SourceTranslation {
+  // BCP 47 tag of the language the content was translated into
+  language: string;
+  content: string;
+  // ISO 8601 timestamp
+  translatedAt: string;
+}
+
+// One speaker turn of a transcript: when it was said, by whom, and the
+// character range of the turn within the source's content
+export interface TranscriptSegment {
+  startTime: number; // seconds
+  endTime: number; // seconds
+  speaker?: string;
+  start: number;
+  end: number;
+}
+
+export type CellValue = string | number | boolean | null;
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'text' | 'empty';
+
+export interface DataColumn {
+  name: string;
+  type: ColumnType;
+}
+
+// One sheet, CSV file or JSON array of records. Dates are ISO strings.
+export interface DataTable {
+  name: string;
+  columns: DataColumn[];
+  rows: CellValue[][];
+  // Rows in the original data; `rows` is capped for very large tables
+  totalRows: number;
+}
+
+export interface JsonPathValue {
+  path: string;
+  value: CellValue;
+}
+
+// Tabular or JSON structure kept alongside a source's text rendering
+export interface StructuredData {
+  kind: 'spreadsheet' | 'csv' | 'json';
+  tables: DataTable[];
+  paths?: JsonPathValue[];
+}
+
 export interface Source {
   id: string;
   name: string;
   content: string;
+  // Relative path for files uploaded in a folder or zip archive, e.g. "Research/2023/report.pdf"
+  path?: string;
+  // Hash of the whitespace-normalized content, set at ingestion to spot re-uploads
+  contentHash?: string;
+  // MIME type the file was parsed as, and its size in bytes
+  mimeType?: string;
+  size?: number;
+  pages?: SourcePage[];
+  sections?: SourceSection[];
+  transcript?: TranscriptSegment[];
+  structured?: StructuredData;
+  // Read from the document's own metadata where it has any; editable in the knowledge panel
+  author?: string;
+  // ISO 8601 date (YYYY-MM-DD) the document was written or published
+  publishedAt?: string;
+  // BCP 47 language tag, e.g. "en" or "de-AT"
+  language?: string;
+  // Machine translation used for processing and persona extraction; content
+  // stays the original text so citations can quote it
+  translation?: SourceTranslation;
+  tags?: string[];
+  // ISO 8601 timestamp of when the file was parsed
+  ingestedAt?: string;
+  // Problems that did not stop parsing, e.g. pages OCR could not read
+  parseWarnings?: string[];
+  // Stand-in saved for a file that failed to parse, from before parse
+  // diagnostics existed: its content is the error message, not document text
+  parseFailed?: boolean;
 }
 
 export interface PersonalityProfile {
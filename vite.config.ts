@@ -1,9 +1,41 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/postcss';
 import autoprefixer from 'autoprefixer';
 
+// OCR runs fully offline: the tesseract.js worker, its LSTM-only wasm cores
+// and the English model are served from /tesseract/ instead of a CDN
+const TESSERACT_ASSETS: Record<string, string> = {
+  'worker.min.js': 'node_modules/tesseract.js/dist/worker.min.js',
+  'tesseract-core-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'tesseract-core-simd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'tesseract-core-relaxedsimd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'eng.traineddata.gz': 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+};
+
+const tesseractAssets = (): Plugin => ({
+  name: 'tesseract-assets',
+  configureServer(server) {
+    server.middlewares.use('/tesseract', (req, res, next) => {
+      const asset = TESSERACT_ASSETS[(req.url || '').replace(/^\//, '').split('?')[0]];
+      if (!asset) return next();
+      res.setHeader('Content-Type', asset.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+      fs.createReadStream(path.resolve(__dirname, asset)).pipe(res);
+    });
+  },
+  generateBundle() {
+    Object.entries(TESSERACT_ASSETS).forEach(([fileName, asset]) => {
+      this.emitFile({
+        type: 'asset',
+        fileName: `tesseract/${fileName}`,
+        source: fs.readFileSync(path.resolve(__dirname, asset)),
+      });
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -13,7 +45,7 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
         strictPort: true, // Use exactly port 3001
       },
-      plugins: [react()],
+      plugins: [react(), tesseractAssets()],
       css: {
         postcss: {
           plugins: [tailwindcss, autoprefixer],
@@ -40,6 +72,10 @@ export default defineConfig(({ mode }) => {
           }
         }
       },
+      // Parser workers import the same lazily loaded parser libraries as the main bundle
+      worker: {
+        format: 'es',
+      },
       // Add this to handle SPA routing
       preview: {
         port: 3001,